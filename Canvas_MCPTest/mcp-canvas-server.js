@@ -67,6 +67,28 @@ async function canvasRequest(endpoint, options = {}) {
   return response.json();
 }
 
+// Prompt templates offered through prompts/list; the web chat shows them as one-click actions
+const PROMPTS = [
+  {
+    name: 'summarize_course',
+    title: 'Summarize this course',
+    description: 'Summarize upcoming assignments, quizzes and announcements for a course',
+    arguments: [
+      { name: 'course', description: 'Course name or code; all active courses if omitted', required: false }
+    ],
+    build: (args) => args.course
+      ? `Summarize ${args.course}: what assignments and quizzes are coming up, what was announced recently, and what I should work on first.`
+      : 'Summarize my courses: what assignments and quizzes are coming up in each, what was announced recently, and what I should work on first.'
+  },
+  {
+    name: 'whats_due',
+    title: "What's due this week?",
+    description: 'List assignments due in the next seven days across all courses',
+    arguments: [],
+    build: () => 'What is due this week across all my courses? Order it by due date and flag anything worth a large share of the grade.'
+  }
+];
+
 // MCP JSON-RPC handler
 app.post('/mcp', async (req, res) => {
   try {
@@ -91,7 +113,8 @@ app.post('/mcp', async (req, res) => {
           protocolVersion: '2024-11-05',
           capabilities: {
             tools: {},
-            resources: {}
+            resources: {},
+            prompts: {}
           },
           serverInfo: {
             name: 'canvas-lms-mcp',
@@ -100,10 +123,38 @@ app.post('/mcp', async (req, res) => {
         };
         break;
 
+      case 'ping':
+        // Liveness check used by the web client's connection supervisor
+        result = {};
+        break;
+
       case 'notifications/initialized':
         result = {};
         break;
 
+      case 'prompts/list':
+        result = {
+          prompts: PROMPTS.map(({ build, ...prompt }) => prompt)
+        };
+        break;
+
+      case 'prompts/get': {
+        const prompt = PROMPTS.find((p) => p.name === params?.name);
+        if (!prompt) {
+          throw new Error(`Unknown prompt: ${params?.name}`);
+        }
+        result = {
+          description: prompt.description,
+          messages: [
+            {
+              role: 'user',
+              content: { type: 'text', text: prompt.build(params?.arguments || {}) }
+            }
+          ]
+        };
+        break;
+      }
+
       case 'resources/list':
         // Return empty resources list (this server doesn't expose resources)
         result = {
@@ -447,14 +498,26 @@ app.post('/mcp', async (req, res) => {
             // Fetch all items for all courses in parallel
             const allItemsPromises = userCoursesForItems.map(async (course) => {
               try {
-                const [assignments, announcements, quizzes] = await Promise.all([
+                const [assignments, announcements, quizzes, assignmentGroups] = await Promise.all([
                   // Assignments
                   canvasRequest(`/courses/${course.id}/assignments?include[]=submission&per_page=100&order_by=due_at`).catch(() => []),
                   // Announcements (discussion topics with is_announcement=true)
                   canvasRequest(`/courses/${course.id}/discussion_topics?only_announcements=true&per_page=100`).catch(() => []),
                   // Quizzes
-                  canvasRequest(`/courses/${course.id}/quizzes?per_page=100`).catch(() => [])
+                  canvasRequest(`/courses/${course.id}/quizzes?per_page=100`).catch(() => []),
+                  // Assignment groups, with their share of the final grade
+                  canvasRequest(`/courses/${course.id}/assignment_groups?per_page=100`).catch(() => [])
                 ]);
+
+                // group_weight only counts when the course weights groups; otherwise the grade is by points
+                const groupFields = (groupId) => {
+                  const group = assignmentGroups.find(g => g.id === groupId);
+                  return {
+                    assignment_group_id: groupId ?? null,
+                    assignment_group_name: group?.name ?? null,
+                    group_weight: group && course.apply_assignment_group_weights ? group.group_weight : null,
+                  };
+                };
                 
                 // Format assignments
                 const formattedAssignments = assignments.map(a => ({
@@ -467,6 +530,7 @@ app.post('/mcp', async (req, res) => {
                   course_id: a.course_id,
                   course_name: course.name,
                   course_code: course.course_code,
+                  ...groupFields(a.assignment_group_id),
                   points_possible: a.points_possible,
                   submission: a.submission ? {
                     workflow_state: a.submission.workflow_state,
@@ -499,6 +563,9 @@ app.post('/mcp', async (req, res) => {
                   course_id: course.id,
                   course_name: course.name,
                   course_code: course.course_code,
+                  ...groupFields(q.assignment_group_id),
+                  // The quiz's entry in assignments (graded quizzes only)
+                  assignment_id: q.assignment_id ?? null,
                   points_possible: q.points_possible,
                   question_count: q.question_count,
                   allowed_attempts: q.allowed_attempts,
@@ -512,14 +579,15 @@ app.post('/mcp', async (req, res) => {
             });
             
             // Fetch calendar events separately (not per course)
-            let calendarEvents = [];
+            // Named apart from list_calendar_events' calendarEvents, which shares this switch's scope
+            let upcomingCalendarEvents = [];
             try {
               const today = new Date();
               const nextYear = new Date(today.getFullYear() + 1, 11, 31);
-              calendarEvents = await canvasRequest(`/calendar_events?start_date=${today.toISOString().split('T')[0]}&end_date=${nextYear.toISOString().split('T')[0]}&per_page=100`).catch(() => []);
+              upcomingCalendarEvents = await canvasRequest(`/calendar_events?start_date=${today.toISOString().split('T')[0]}&end_date=${nextYear.toISOString().split('T')[0]}&per_page=100`).catch(() => []);
               
               // Format calendar events
-              const formattedCalendarEvents = calendarEvents.map(e => ({
+              const formattedCalendarEvents = upcomingCalendarEvents.map(e => ({
                 type: 'calendar_event',
                 id: e.id,
                 name: e.title,
@@ -601,6 +669,22 @@ app.post('/mcp', async (req, res) => {
     });
   } catch (error) {
     console.error('MCP error:', error);
+    // Tool failures (e.g. Canvas API errors) are reported as isError results, not protocol errors
+    if (req.body?.method === 'tools/call') {
+      return res.json({
+        jsonrpc: '2.0',
+        id: req.body.id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: error.message }, null, 2)
+            }
+          ],
+          isError: true
+        }
+      });
+    }
     res.json({
       jsonrpc: '2.0',
       id: req.body.id,
@@ -0,0 +1,211 @@
+// Calendar Change Watcher
+// Notices edits made outside Kaisey (Google Calendar itself, phones, other apps) on calendars that sessions subscribe to.
+// Uses Google push notifications (watch channels) when the server has a public webhook URL, and polls with sync tokens otherwise.
+
+import { randomUUID } from 'crypto';
+
+export const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+// Requested channel lifetime; channels are renewed shortly before Google expires them
+const CHANNEL_TTL_SECONDS = 24 * 60 * 60;
+const CHANNEL_RENEW_MARGIN_MS = 10 * 60 * 1000;
+
+/**
+ * @param {object} options
+ * @param {(userId: string) => object | null} options.getCalendar - The user's calendar API, or null when signed out
+ * @param {(userId: string, calendarId: string) => void} options.onChange - Called when a watched calendar changed
+ * @param {string} [options.webhookUrl] - Public HTTPS URL of the webhook route; enables push notifications
+ * @param {number} [options.pollIntervalMs]
+ */
+export function createChangeWatcher({ getCalendar, onChange, webhookUrl, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS }) {
+  // `${userId}\n${calendarId}` -> { userId, calendarId, syncToken, timer, channel }
+  const watches = new Map();
+  // Watch channel id -> watch, for routing webhook deliveries
+  const channels = new Map();
+
+  const watchKey = (userId, calendarId) => `${userId}\n${calendarId}`;
+
+  // Follow every page of a list request; only the sync token is kept, so ask for ids alone
+  async function listForSyncToken(calendar, query) {
+    let pageToken;
+    let changed = 0;
+    let nextSyncToken = null;
+    do {
+      const response = await calendar.events.list({
+        ...query,
+        pageToken,
+        maxResults: 2500,
+        fields: 'nextPageToken,nextSyncToken,items(id)'
+      });
+      changed += (response.data.items || []).length;
+      pageToken = response.data.nextPageToken;
+      nextSyncToken = response.data.nextSyncToken || null;
+    } while (pageToken);
+    return { changed, nextSyncToken };
+  }
+
+  // Compare against the last sync token; the first poll only establishes one
+  async function poll(watch) {
+    const calendar = getCalendar(watch.userId);
+    if (!calendar) return;
+    try {
+      if (!watch.syncToken) {
+        const { nextSyncToken } = await listForSyncToken(calendar, {
+          calendarId: watch.calendarId,
+          timeMin: new Date().toISOString()
+        });
+        watch.syncToken = nextSyncToken;
+        return;
+      }
+      const { changed, nextSyncToken } = await listForSyncToken(calendar, {
+        calendarId: watch.calendarId,
+        syncToken: watch.syncToken
+      });
+      watch.syncToken = nextSyncToken;
+      if (changed > 0 && watches.get(watchKey(watch.userId, watch.calendarId)) === watch) {
+        onChange(watch.userId, watch.calendarId);
+      }
+    } catch (error) {
+      // 410 Gone: the token expired - start over, and assume something changed in the meantime
+      if (error.code === 410) {
+        watch.syncToken = null;
+        onChange(watch.userId, watch.calendarId);
+        return;
+      }
+      console.warn(`Change poll failed for calendar ${watch.calendarId}:`, error.message);
+    }
+  }
+
+  function startPolling(watch) {
+    poll(watch);
+    watch.timer = setInterval(() => poll(watch), pollIntervalMs);
+    watch.timer.unref();
+  }
+
+  async function openChannel(watch) {
+    const calendar = getCalendar(watch.userId);
+    if (!calendar) return;
+    const id = randomUUID();
+    const token = randomUUID();
+    const response = await calendar.events.watch({
+      calendarId: watch.calendarId,
+      requestBody: {
+        id,
+        token,
+        type: 'web_hook',
+        address: webhookUrl,
+        params: { ttl: String(CHANNEL_TTL_SECONDS) }
+      }
+    });
+    const channel = { id, token, resourceId: response.data.resourceId };
+
+    // Unwatched while Google was opening the channel: stop it rather than keep syncing a calendar nobody watches
+    if (watches.get(watchKey(watch.userId, watch.calendarId)) !== watch) {
+      await stopChannel(watch.userId, channel);
+      return;
+    }
+    watch.channel = channel;
+    channels.set(id, watch);
+
+    const expiresAt = Number(response.data.expiration) || Date.now() + CHANNEL_TTL_SECONDS * 1000;
+    watch.timer = setTimeout(() => renewChannel(watch), Math.max(expiresAt - Date.now() - CHANNEL_RENEW_MARGIN_MS, 60 * 1000));
+    watch.timer.unref();
+  }
+
+  async function stopChannel(userId, channel) {
+    try {
+      await getCalendar(userId)?.channels.stop({ requestBody: { id: channel.id, resourceId: channel.resourceId } });
+    } catch (error) {
+      // The channel expires on its own
+      console.warn('Failed to stop calendar watch channel:', error.message);
+    }
+  }
+
+  async function closeChannel(watch) {
+    const channel = watch.channel;
+    if (!channel) return;
+    watch.channel = null;
+    channels.delete(channel.id);
+    await stopChannel(watch.userId, channel);
+  }
+
+  async function renewChannel(watch) {
+    if (watches.get(watchKey(watch.userId, watch.calendarId)) !== watch) return;
+    await closeChannel(watch);
+    try {
+      await openChannel(watch);
+    } catch (error) {
+      console.warn(`Could not renew watch channel for calendar ${watch.calendarId}, polling instead:`, error.message);
+      startPolling(watch);
+    }
+  }
+
+  /**
+   * Start watching a user's calendar (no-op if already watched)
+   */
+  async function watch(userId, calendarId) {
+    const key = watchKey(userId, calendarId);
+    if (watches.has(key)) return;
+    const entry = { userId, calendarId, syncToken: null, timer: null, channel: null };
+    watches.set(key, entry);
+
+    if (webhookUrl) {
+      try {
+        await openChannel(entry);
+        return;
+      } catch (error) {
+        // e.g. the webhook domain isn't verified for the Google project
+        console.warn(`Could not open a watch channel for calendar ${calendarId}, polling instead:`, error.message);
+      }
+    }
+    if (watches.get(key) === entry) {
+      startPolling(entry);
+    }
+  }
+
+  async function unwatch(userId, calendarId) {
+    const key = watchKey(userId, calendarId);
+    const entry = watches.get(key);
+    if (!entry) return;
+    watches.delete(key);
+    clearInterval(entry.timer);
+    clearTimeout(entry.timer);
+    await closeChannel(entry);
+  }
+
+  /**
+   * Watch exactly these calendars for a user, stopping any others
+   */
+  async function setWatched(userId, calendarIds) {
+    const wanted = new Set(calendarIds);
+    const current = Array.from(watches.values()).filter((entry) => entry.userId === userId);
+    await Promise.all([
+      ...current.filter((entry) => !wanted.has(entry.calendarId)).map((entry) => unwatch(userId, entry.calendarId)),
+      ...Array.from(wanted).map((calendarId) => watch(userId, calendarId))
+    ]);
+  }
+
+  /**
+   * Handle a push notification from Google; returns false for unknown or forged channels
+   */
+  function handleNotification(headers) {
+    const entry = channels.get(headers['x-goog-channel-id']);
+    if (!entry || entry.channel?.token !== headers['x-goog-channel-token']) {
+      return false;
+    }
+    // "sync" only confirms the channel was created
+    if (headers['x-goog-resource-state'] !== 'sync') {
+      onChange(entry.userId, entry.calendarId);
+    }
+    return true;
+  }
+
+  return {
+    mode: webhookUrl ? 'push' : 'poll',
+    watch,
+    unwatch,
+    setWatched,
+    handleNotification,
+    watchedCount: () => watches.size
+  };
+}
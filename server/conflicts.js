@@ -0,0 +1,126 @@
+// Conflict Check Helpers
+// Busy events a create_event/update_event would overlap, and free alternatives, for dry runs
+
+const SLOT_STEP_MS = 30 * 60 * 1000;
+// Alternatives are searched this far either side of the requested start, within waking hours
+export const SEARCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 22;
+const MAX_ALTERNATIVES = 3;
+
+// All-day events carry a bare date; it starts at midnight in the event's zone, else the calendar's or the request's
+function eventTimeMs(eventDateTime, timeZone = 'UTC') {
+  if (eventDateTime.dateTime) return new Date(eventDateTime.dateTime).getTime();
+  return midnightMs(eventDateTime.date, eventDateTime.timeZone || timeZone);
+}
+
+// Wall-clock date and minutes past midnight of an instant in a time zone
+function wallClock(ms, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+      .formatToParts(new Date(ms))
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+// How far a time zone's wall clock is ahead of UTC at an instant
+function offsetMs(ms, timeZone) {
+  const { date, minutes } = wallClock(ms, timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) + minutes * 60 * 1000 - Math.floor(ms / 60000) * 60000;
+}
+
+// Midnight starting a "yyyy-mm-dd" date in a time zone
+function midnightMs(date, timeZone) {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClockMs = Date.UTC(year, month - 1, day);
+  // The offset can differ between the guess and the answer around a DST change
+  const firstGuess = wallClockMs - offsetMs(wallClockMs, timeZone);
+  return wallClockMs - offsetMs(firstGuess, timeZone);
+}
+
+/**
+ * Start and end of the event a create or update would produce, in ms.
+ * `defaultTimeZone` (the user's primary calendar zone) places all-day dates without a zone of their own.
+ */
+export function proposedTimes(args, existing, defaultTimeZone) {
+  const start = args.start || existing?.start;
+  const end = args.end || existing?.end;
+  if (!start || !end) {
+    throw new Error('A conflict check needs start and end times');
+  }
+  const timeZone = start.timeZone || existing?.start?.timeZone || defaultTimeZone;
+  return { startMs: eventTimeMs(start, timeZone), endMs: eventTimeMs(end, timeZone), timeZone };
+}
+
+/**
+ * Whether an existing event blocks time: not cancelled, not marked free, and not declined by the user
+ */
+export function blocksTime(event) {
+  if (event.status === 'cancelled' || event.transparency === 'transparent') return false;
+  return !(event.attendees || []).some((attendee) => attendee.self && attendee.responseStatus === 'declined');
+}
+
+// [start, end] of a busy entry; all-day dates resolve in its calendar's zone, else `timeZone`
+function busyInterval({ event, timeZone: calendarTimeZone }, timeZone) {
+  const zone = calendarTimeZone || timeZone;
+  return [eventTimeMs(event.start, zone), eventTimeMs(event.end, zone)];
+}
+
+/**
+ * The events that overlap a proposed time, with the tier and lock Kaisey stored on them.
+ * Each entry is { calendarId, event, timeZone? }, timeZone being its calendar's.
+ */
+export function findConflicts(events, startMs, endMs, timeZone = 'UTC') {
+  return events
+    .filter((entry) => {
+      const [busyStart, busyEnd] = busyInterval(entry, timeZone);
+      return busyStart < endMs && busyEnd > startMs;
+    })
+    .map(({ calendarId, event }) => {
+      const properties = event.extendedProperties?.private || {};
+      return {
+        calendarId,
+        eventId: event.id,
+        summary: event.summary,
+        start: event.start,
+        end: event.end,
+        ...(properties.kaiseyTier && { tier: Number(properties.kaiseyTier) }),
+        ...(properties.kaiseyLocked && { locked: properties.kaiseyLocked === 'true' })
+      };
+    });
+}
+
+/**
+ * Free slots as long as the proposal on the same day, between 7am and 10pm in its time zone, nearest first
+ */
+export function suggestAlternatives(events, startMs, endMs, timeZone = 'UTC', now = Date.now()) {
+  const durationMs = endMs - startMs;
+  const day = wallClock(startMs, timeZone).date;
+  const busy = events.map((entry) => busyInterval(entry, timeZone));
+  const alternatives = [];
+
+  for (let offsetMs = SLOT_STEP_MS; offsetMs <= SEARCH_WINDOW_MS; offsetMs += SLOT_STEP_MS) {
+    for (const candidateStart of [startMs + offsetMs, startMs - offsetMs]) {
+      const candidateEnd = candidateStart + durationMs;
+      if (candidateStart < now) continue;
+      const start = wallClock(candidateStart, timeZone);
+      const end = wallClock(candidateEnd, timeZone);
+      if (start.date !== day || start.minutes < DAY_START_HOUR * 60) continue;
+      if (end.date !== day || end.minutes > DAY_END_HOUR * 60) continue;
+      if (busy.some(([busyStart, busyEnd]) => candidateStart < busyEnd && candidateEnd > busyStart)) continue;
+      alternatives.push({ start: new Date(candidateStart).toISOString(), end: new Date(candidateEnd).toISOString() });
+      if (alternatives.length === MAX_ALTERNATIVES) return alternatives;
+    }
+  }
+  return alternatives;
+}
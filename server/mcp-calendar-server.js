@@ -7,7 +7,20 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { randomUUID } from 'crypto';
 import { google } from 'googleapis';
+import { createTokenStore, FileTokenStore } from './tokenStore.js';
+import { createChangeWatcher, DEFAULT_POLL_INTERVAL_MS } from './changeWatcher.js';
+import {
+  RECURRING_SCOPES,
+  truncateRecurrence,
+  continueRecurrence,
+  shiftEventDateTime,
+  moveSeriesTimes,
+  isFirstOccurrence,
+  copySeriesFields
+} from './recurrence.js';
+import { blocksTime, findConflicts, proposedTimes, SEARCH_WINDOW_MS, suggestAlternatives } from './conflicts.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -23,16 +36,65 @@ const allowedOrigins = [
 
 app.use(cors({
   origin: allowedOrigins,
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['Mcp-Session-Id']
 }));
 
 app.use(express.json());
 
-// Store OAuth2 client (will be initialized with credentials)
-let oauth2Client = null;
-let calendar = null;
+// Users are identified by the kaisey_uid cookie (issued on first request) or an X-Kaisey-User header
+// for non-browser clients. Tokens, MCP sessions and notifications are all scoped to that id.
+const USER_COOKIE = 'kaisey_uid';
+const USER_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+// Only ids in the form the cookie issues; a guessable id like "alice" would reach that user's tokens
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-// Initialize OAuth2 client with credentials
+function validUserId(value) {
+  return typeof value === 'string' && USER_ID_PATTERN.test(value) ? value.toLowerCase() : null;
+}
+
+function parseCookies(header) {
+  const cookies = {};
+  (header || '').split(';').forEach((pair) => {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      cookies[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  });
+  return cookies;
+}
+
+app.use((req, res, next) => {
+  req.userId = validUserId(req.get('x-kaisey-user')) || validUserId(parseCookies(req.headers.cookie)[USER_COOKIE]);
+  if (!req.userId) {
+    req.userId = randomUUID();
+    res.cookie(USER_COOKIE, req.userId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: USER_COOKIE_MAX_AGE_MS
+    });
+  }
+  next();
+});
+
+// Google OAuth app credentials; every user gets their own OAuth2 client built from them
+let oauthConfig = null;
+
+// Fail Google API requests that hang instead of holding the MCP request open
+const GOOGLE_API_TIMEOUT_MS = 20000;
+
+// Per-user tokens, persisted to server/tokens.json unless TOKEN_STORE=memory
+const tokenStore = createTokenStore(path.join(__dirname, 'tokens.json'));
+
+// OAuth2 client and calendar API per user, created on first use
+const userAuth = new Map();
+
+// Pending sign-ins: OAuth state parameter -> user who started it
+const oauthStates = new Map();
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+// Initialize OAuth2 app credentials
 function initializeOAuth2() {
   const clientId = process.env.GOOGLE_CLIENT_ID;
   const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
@@ -43,25 +105,576 @@ function initializeOAuth2() {
     return null;
   }
 
-  oauth2Client = new google.auth.OAuth2(
-    clientId,
-    clientSecret,
-    redirectUri
+  oauthConfig = { clientId, clientSecret, redirectUri };
+  return oauthConfig;
+}
+
+function createOAuth2Client() {
+  return new google.auth.OAuth2(
+    oauthConfig.clientId,
+    oauthConfig.clientSecret,
+    oauthConfig.redirectUri
   );
+}
 
-  calendar = google.calendar({ version: 'v3', auth: oauth2Client });
-  return oauth2Client;
+// A user's OAuth2 client and calendar API
+// googleapis refreshes expired access tokens on its own; the refreshed tokens are written back to the store.
+function getUserAuth(userId) {
+  let auth = userAuth.get(userId);
+  if (!auth) {
+    const client = createOAuth2Client();
+    const stored = tokenStore.get(userId);
+    if (stored) {
+      client.setCredentials(stored);
+    }
+    client.on('tokens', (tokens) => {
+      // Refresh responses don't repeat the refresh_token - keep the stored one
+      tokenStore.set(userId, { ...tokenStore.get(userId), ...tokens });
+    });
+    auth = {
+      client,
+      calendar: google.calendar({ version: 'v3', auth: client, timeout: GOOGLE_API_TIMEOUT_MS })
+    };
+    userAuth.set(userId, auth);
+  }
+  return auth;
+}
+
+function isUserAuthenticated(userId) {
+  const tokens = tokenStore.get(userId);
+  return !!(tokens && (tokens.access_token || tokens.refresh_token));
+}
+
+// Forget a user's tokens (sign-out, or Google rejected the refresh token)
+function clearUserAuth(userId) {
+  // Stop watching while the credentials can still close Google watch channels
+  changeWatcher.setWatched(userId, []).catch(() => {});
+  tokenStore.delete(userId);
+  userAuth.delete(userId);
+}
+
+// Google answers invalid_grant when a refresh token was revoked or expired
+function isRevokedGrant(error) {
+  return error?.response?.data?.error === 'invalid_grant' || error?.message === 'invalid_grant';
 }
 
 // Initialize on startup
 initializeOAuth2();
 
+// Prompt templates offered through prompts/list; the web chat shows them as one-click actions
+const PROMPTS = [
+  {
+    name: 'plan_my_week',
+    title: 'Plan my week',
+    description: 'Review this week\'s calendar and propose a plan around classes, recruiting and study time',
+    arguments: [
+      { name: 'focus', description: 'Optional priority to plan around, e.g. "recruiting"', required: false }
+    ],
+    build: (args) => `Plan my week. Look at everything on my calendar from today through Sunday, point out conflicts or overloaded days, and suggest where to block study, recruiting and recovery time${args.focus ? `, prioritizing ${args.focus}` : ''}.`
+  },
+  {
+    name: 'find_focus_time',
+    title: 'Find focus time',
+    description: 'Find open blocks for deep work in the next few days',
+    arguments: [
+      { name: 'hours', description: 'How many hours of focus time to find (default: 2)', required: false }
+    ],
+    build: (args) => `Find ${args.hours || 2} hours of uninterrupted focus time in my calendar over the next three days and suggest the best slots.`
+  },
+  {
+    name: 'daily_briefing',
+    title: 'Brief me on today',
+    description: 'Summarize today\'s schedule and what to prepare for',
+    arguments: [],
+    build: () => 'Give me a briefing on today: what is on my calendar, what I should prepare for, and any gaps I could use.'
+  }
+];
+
+// Google Calendar EventDateTime: timed events use dateTime, all-day events use date
+const eventDateTimeSchema = {
+  type: 'object',
+  properties: {
+    dateTime: { type: 'string', format: 'date-time', description: 'Start/end time (ISO 8601)' },
+    date: { type: 'string', format: 'date', description: 'All-day date (YYYY-MM-DD)' },
+    timeZone: { type: 'string', description: 'IANA time zone, e.g. America/New_York' }
+  },
+  anyOf: [{ required: ['dateTime'] }, { required: ['date'] }]
+};
+
+const recurrenceSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'RRULE/EXDATE/RDATE lines, e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR"]. Recurring events need a timeZone on start/end.'
+};
+
+// Guests of an event; each guest sets their own responseStatus (see respond_to_event)
+const attendeesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', description: 'Guest email address' },
+      displayName: { type: 'string' },
+      optional: { type: 'boolean', description: 'Optional guest', default: false }
+    },
+    required: ['email']
+  },
+  description: 'Guests to invite. On update this replaces the guest list; guests already on the event keep their responses.'
+};
+
+const SEND_UPDATES = ['all', 'externalOnly', 'none'];
+
+// Free/busy: all-day events are usually transparent (free), so they don't block scheduling
+const transparencySchema = {
+  type: 'string',
+  enum: ['opaque', 'transparent'],
+  description: 'Whether the event blocks time: opaque (busy, the default) or transparent (free)'
+};
+
+// App metadata kept on the event (extendedProperties.private); only this OAuth client can read it
+const privatePropertiesSchema = {
+  type: 'object',
+  additionalProperties: { type: ['string', 'null'] },
+  description: 'Private key/value metadata only this app sees. On update, keys are merged into the existing ones; null removes a key.'
+};
+
+const dryRunSchema = {
+  type: 'boolean',
+  description: 'Write nothing; return the busy events across all calendars this would overlap (with their Kaisey tier) and free alternatives',
+  default: false
+};
+
+const checkConflictsSchema = {
+  type: 'boolean',
+  description: 'Only write if nothing busy overlaps; otherwise return the conflicts and alternatives instead (written: false)',
+  default: false
+};
+
+const sendUpdatesSchema = {
+  type: 'string',
+  enum: SEND_UPDATES,
+  description: 'Who Google emails about the change: every guest, only guests outside your domain, or nobody (default)',
+  default: 'none'
+};
+
+const RESPONSE_STATUSES = ['accepted', 'declined', 'tentative'];
+
+const recurringScopeSchema = {
+  type: 'string',
+  enum: RECURRING_SCOPES,
+  description: 'For an instance of a recurring event: just this one (default), this and all following, or the whole series',
+  default: 'instance'
+};
+
+// MCP sessions, issued on initialize and sent back by clients in the Mcp-Session-Id header
+// Each session may hold an SSE stream (GET /mcp) and a set of subscribed resource URIs.
+const sessions = new Map();
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SSE_KEEPALIVE_INTERVAL_MS = 25 * 1000;
+
+// Drop sessions whose clients went away without sending DELETE /mcp, and abandoned sign-ins
+setInterval(() => {
+  const now = Date.now();
+  for (const [sessionId, session] of sessions) {
+    if (!session.stream && now - session.lastSeen > SESSION_IDLE_TIMEOUT_MS) {
+      sessions.delete(sessionId);
+      refreshWatches(session.userId);
+    }
+  }
+  for (const [state, pending] of oauthStates) {
+    if (now - pending.createdAt > OAUTH_STATE_TTL_MS) {
+      oauthStates.delete(state);
+    }
+  }
+}, 5 * 60 * 1000).unref();
+
+// Resource URI for the events of a calendar; clients subscribe to it to hear about changes
+function calendarEventsUri(calendarId) {
+  return `calendar://events/${calendarId || 'primary'}`;
+}
+
+// Push a JSON-RPC notification over a session's SSE stream (dropped if no stream is open)
+function sendNotification(session, method, params) {
+  if (!session.stream) return;
+  session.stream.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', method, params })}\n\n`);
+}
+
+// Tell the user's subscribed sessions that a resource changed
+function notifyResourceUpdated(userId, uri) {
+  for (const session of sessions.values()) {
+    if (session.userId === userId && session.subscriptions.has(uri)) {
+      sendNotification(session, 'notifications/resources/updated', { uri });
+    }
+  }
+}
+
+function notifyUserSessions(userId, method, params) {
+  for (const session of sessions.values()) {
+    if (session.userId === userId) {
+      sendNotification(session, method, params);
+    }
+  }
+}
+
+// Edits made outside Kaisey reach subscribed sessions as resources/updated too.
+// Set GOOGLE_WEBHOOK_URL (public HTTPS URL of /webhooks/google-calendar) for push; otherwise calendars are polled.
+const changeWatcher = createChangeWatcher({
+  getCalendar: (userId) => (oauthConfig && isUserAuthenticated(userId) ? getUserAuth(userId).calendar : null),
+  onChange: (userId, calendarId) => notifyResourceUpdated(userId, calendarEventsUri(calendarId)),
+  webhookUrl: process.env.GOOGLE_WEBHOOK_URL,
+  pollIntervalMs: Number(process.env.CALENDAR_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS
+});
+
+const CALENDAR_EVENTS_URI_PREFIX = 'calendar://events/';
+
+// Watch the calendars the user's sessions are subscribed to, and nothing else
+function refreshWatches(userId) {
+  const calendarIds = new Set();
+  if (isUserAuthenticated(userId)) {
+    for (const session of sessions.values()) {
+      if (session.userId !== userId) continue;
+      for (const uri of session.subscriptions) {
+        if (uri?.startsWith(CALENDAR_EVENTS_URI_PREFIX)) {
+          calendarIds.add(uri.slice(CALENDAR_EVENTS_URI_PREFIX.length));
+        }
+      }
+    }
+  }
+  changeWatcher.setWatched(userId, calendarIds).catch((error) => {
+    console.warn('Failed to update calendar watches:', error.message);
+  });
+}
+
+// Fields update_event copies from its arguments
+function eventFieldUpdates(args) {
+  return {
+    ...(args.summary !== undefined && { summary: args.summary }),
+    ...(args.description !== undefined && { description: args.description }),
+    ...(args.start !== undefined && { start: args.start }),
+    ...(args.end !== undefined && { end: args.end }),
+    ...(args.location !== undefined && { location: args.location }),
+    ...(args.attendees !== undefined && { attendees: args.attendees }),
+    ...(args.transparency !== undefined && { transparency: args.transparency }),
+    ...(args.privateProperties !== undefined && { extendedProperties: mergePrivateProperties(undefined, args.privateProperties) })
+  };
+}
+
+// Extended properties with private keys added or replaced, and keys set to null removed
+function mergePrivateProperties(extendedProperties, requested) {
+  const merged = { ...extendedProperties?.private, ...requested };
+  return {
+    ...extendedProperties,
+    private: Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== null))
+  };
+}
+
+// A replacement guest list, keeping what Google knows about guests who were already invited (responses, self, organizer)
+function mergeAttendees(existing, requested) {
+  const byEmail = new Map((existing || []).map((attendee) => [attendee.email?.toLowerCase(), attendee]));
+  return requested.map((attendee) => ({ ...byEmail.get(attendee.email.toLowerCase()), ...attendee }));
+}
+
+// Busy events on any of the user's calendars that a create or update would overlap, plus free alternatives that day
+async function conflictReport(calendar, args, existing) {
+  const listResponse = await calendar.calendarList.list({ minAccessRole: 'reader' });
+  const primaryTimeZone = (listResponse.data.items || []).find((entry) => entry.primary)?.timeZone;
+  const { startMs, endMs, timeZone } = proposedTimes(args, existing, primaryTimeZone);
+  const timeMin = new Date(startMs - SEARCH_WINDOW_MS).toISOString();
+  const timeMax = new Date(endMs + SEARCH_WINDOW_MS).toISOString();
+  const perCalendar = await Promise.all((listResponse.data.items || []).map(async (entry) => {
+    // The app calls the user's own calendar "primary"
+    const calendarId = entry.primary ? 'primary' : entry.id;
+    try {
+      const response = await calendar.events.list({ calendarId: entry.id, timeMin, timeMax, singleEvents: true, maxResults: 2500 });
+      // All-day events are resolved in their calendar's zone
+      return (response.data.items || []).map((event) => ({ calendarId, event, timeZone: entry.timeZone }));
+    } catch (error) {
+      console.warn(`Conflict check skipped calendar ${entry.id}:`, error.message);
+      return [];
+    }
+  }));
+  // An event doesn't conflict with itself when it's moved
+  const busy = perCalendar.flat().filter(({ event }) => blocksTime(event) && event.id !== existing?.id);
+  return {
+    dryRun: Boolean(args.dryRun),
+    written: false,
+    conflicts: findConflicts(busy, startMs, endMs, timeZone),
+    alternatives: suggestAlternatives(busy, startMs, endMs, timeZone)
+  };
+}
+
+// Full or incremental sync of a calendar's events, following every page to reach nextSyncToken
+// Google rejects timeMin/timeMax/orderBy alongside a sync token; changes since the token cover all time.
+async function syncEvents(calendar, calendarId, args) {
+  const singleEvents = args.singleEvents !== false;
+  const query = args.syncToken
+    ? { calendarId, singleEvents, syncToken: args.syncToken, maxResults: 2500 }
+    : { calendarId, singleEvents, timeMin: args.timeMin, timeMax: args.timeMax, maxResults: 2500 };
+  const items = [];
+  let pageToken;
+  let nextSyncToken = null;
+  try {
+    do {
+      const response = await calendar.events.list({ ...query, pageToken });
+      items.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken;
+      nextSyncToken = response.data.nextSyncToken || null;
+    } while (pageToken);
+  } catch (error) {
+    // 410 Gone: the token expired or was invalidated, so the client has to start over
+    if (error.code === 410) {
+      return { items: [], nextSyncToken: null, fullSyncRequired: true };
+    }
+    throw error;
+  }
+  return { items, nextSyncToken, fullSyncRequired: false };
+}
+
+// Update an event; for an instance of a recurring event, scope picks this one, this and following, or the series
+async function updateEventWithScope(calendar, calendarId, args) {
+  // First get the existing event to preserve fields
+  const existing = (await calendar.events.get({ calendarId, eventId: args.eventId })).data;
+  const updates = eventFieldUpdates(args);
+  if (updates.attendees) {
+    updates.attendees = mergeAttendees(existing.attendees, updates.attendees);
+  }
+  if (args.privateProperties) {
+    updates.extendedProperties = mergePrivateProperties(existing.extendedProperties, args.privateProperties);
+  }
+  const scope = existing.recurringEventId ? (args.scope || 'instance') : 'instance';
+  const sendUpdates = args.sendUpdates;
+
+  if (scope === 'instance') {
+    // Rules can only change on a series itself (or turn a single event into one)
+    const recurrence = !existing.recurringEventId && args.recurrence !== undefined ? { recurrence: args.recurrence } : {};
+    const response = await calendar.events.update({
+      calendarId,
+      eventId: args.eventId,
+      sendUpdates,
+      resource: { ...existing, ...updates, ...recurrence }
+    });
+    return response.data;
+  }
+
+  const master = (await calendar.events.get({ calendarId, eventId: existing.recurringEventId })).data;
+  const times = args.start || args.end ? moveSeriesTimes(master, existing, args.start, args.end) : {};
+
+  if (scope === 'series' || isFirstOccurrence(master, existing.originalStartTime)) {
+    const response = await calendar.events.update({
+      calendarId,
+      eventId: master.id,
+      sendUpdates,
+      resource: { ...master, ...updates, ...times, ...(args.recurrence && { recurrence: args.recurrence }) }
+    });
+    return response.data;
+  }
+
+  // This and following: end the original series before this occurrence and start a new one from it
+  let occurrencesBefore = 0;
+  if (master.recurrence?.some((line) => line.includes('COUNT='))) {
+    const originalStart = existing.originalStartTime;
+    const earlier = await calendar.events.instances({
+      calendarId,
+      eventId: master.id,
+      timeMax: originalStart.dateTime || `${originalStart.date}T00:00:00Z`,
+      maxResults: 2500,
+      showDeleted: true
+    });
+    occurrencesBefore = (earlier.data.items || []).length;
+  }
+  await calendar.events.update({
+    calendarId,
+    eventId: master.id,
+    sendUpdates,
+    resource: { ...master, recurrence: truncateRecurrence(master.recurrence, existing.originalStartTime) }
+  });
+  const splitTimes = moveSeriesTimes(existing, existing, args.start, args.end);
+  const response = await calendar.events.insert({
+    calendarId,
+    sendUpdates,
+    resource: {
+      ...copySeriesFields(master),
+      ...updates,
+      // Recurring events need a time zone to expand in
+      start: { timeZone: master.start.timeZone, ...splitTimes.start },
+      end: { timeZone: master.end.timeZone, ...splitTimes.end },
+      recurrence: args.recurrence || continueRecurrence(master.recurrence, occurrencesBefore)
+    }
+  });
+  return response.data;
+}
+
+// Delete an event; for an instance of a recurring event, scope picks this one, this and following, or the series
+async function deleteEventWithScope(calendar, calendarId, args) {
+  const scope = args.scope || 'instance';
+  const sendUpdates = args.sendUpdates;
+  if (scope === 'instance') {
+    await calendar.events.delete({ calendarId, eventId: args.eventId, sendUpdates });
+    return;
+  }
+
+  const existing = (await calendar.events.get({ calendarId, eventId: args.eventId })).data;
+  if (!existing.recurringEventId) {
+    await calendar.events.delete({ calendarId, eventId: args.eventId, sendUpdates });
+    return;
+  }
+
+  const master = (await calendar.events.get({ calendarId, eventId: existing.recurringEventId })).data;
+  if (scope === 'series' || isFirstOccurrence(master, existing.originalStartTime)) {
+    await calendar.events.delete({ calendarId, eventId: master.id, sendUpdates });
+    return;
+  }
+  await calendar.events.update({
+    calendarId,
+    eventId: master.id,
+    sendUpdates,
+    resource: { ...master, recurrence: truncateRecurrence(master.recurrence, existing.originalStartTime) }
+  });
+}
+
+// RSVP as the signed-in user; for an instance of a recurring event only that occurrence is answered
+async function respondToEvent(calendar, calendarId, args) {
+  const existing = (await calendar.events.get({ calendarId, eventId: args.eventId })).data;
+  if (!(existing.attendees || []).some((attendee) => attendee.self)) {
+    throw new Error('You are not a guest of this event');
+  }
+  const attendees = existing.attendees.map((attendee) =>
+    attendee.self
+      ? { ...attendee, responseStatus: args.responseStatus, ...(args.comment !== undefined && { comment: args.comment }) }
+      : attendee
+  );
+  const response = await calendar.events.patch({
+    calendarId,
+    eventId: args.eventId,
+    sendUpdates: args.sendUpdates || 'all',
+    resource: { attendees }
+  });
+  return response.data;
+}
+
+// One change in an apply_changes plan; recurring series edits aren't batched (use update_event with a scope)
+const calendarChangeSchema = {
+  type: 'object',
+  properties: {
+    op: { type: 'string', enum: ['create', 'update', 'delete'] },
+    calendarId: { type: 'string', description: 'Calendar ID (default: primary)', default: 'primary' },
+    eventId: { type: 'string', description: 'Event to update or delete' },
+    summary: { type: 'string' },
+    description: { type: 'string' },
+    start: eventDateTimeSchema,
+    end: eventDateTimeSchema,
+    location: { type: 'string' },
+    attendees: attendeesSchema,
+    transparency: transparencySchema,
+    privateProperties: privatePropertiesSchema,
+    sendUpdates: sendUpdatesSchema
+  },
+  required: ['op']
+};
+
+function checkChange(change, index) {
+  if (change.op === 'create' && (!change.summary || !change.start || !change.end)) {
+    throw new Error(`Change ${index + 1}: create needs summary, start and end`);
+  }
+  if ((change.op === 'update' || change.op === 'delete') && !change.eventId) {
+    throw new Error(`Change ${index + 1}: ${change.op} needs an eventId`);
+  }
+}
+
+// Apply a plan's changes in order, all or nothing: if one fails, the ones already applied are undone (newest
+// first) from snapshots taken before each update and delete, and the rest are skipped
+async function applyChanges(calendar, changes) {
+  changes.forEach(checkChange);
+  const steps = changes.map((change, index) => ({ index, op: change.op, status: 'skipped' }));
+  const undo = [];
+  let failedAt = -1;
+
+  for (const [index, change] of changes.entries()) {
+    const step = steps[index];
+    const calendarId = change.calendarId || 'primary';
+    const sendUpdates = change.sendUpdates;
+    try {
+      if (change.op === 'create') {
+        const created = (await calendar.events.insert({ calendarId, sendUpdates, resource: eventFieldUpdates(change) })).data;
+        undo.push(() => calendar.events.delete({ calendarId, eventId: created.id, sendUpdates }));
+        Object.assign(step, { eventId: created.id, event: created });
+      } else if (change.op === 'update') {
+        const before = (await calendar.events.get({ calendarId, eventId: change.eventId })).data;
+        const updates = eventFieldUpdates(change);
+        if (updates.attendees) {
+          updates.attendees = mergeAttendees(before.attendees, updates.attendees);
+        }
+        if (change.privateProperties) {
+          updates.extendedProperties = mergePrivateProperties(before.extendedProperties, change.privateProperties);
+        }
+        const updated = (await calendar.events.patch({ calendarId, eventId: change.eventId, sendUpdates, resource: updates })).data;
+        // Google bumps the sequence itself; sending the old one back is rejected
+        const { sequence, ...snapshot } = before;
+        undo.push(() => calendar.events.update({ calendarId, eventId: change.eventId, sendUpdates, resource: snapshot }));
+        Object.assign(step, { eventId: change.eventId, event: updated });
+      } else {
+        await calendar.events.get({ calendarId, eventId: change.eventId });
+        await calendar.events.delete({ calendarId, eventId: change.eventId, sendUpdates });
+        // Deleted events stay in the calendar as cancelled, so they can be brought back under the same id
+        undo.push(() => calendar.events.patch({ calendarId, eventId: change.eventId, sendUpdates, resource: { status: 'confirmed' } }));
+        step.eventId = change.eventId;
+      }
+      step.status = 'applied';
+    } catch (error) {
+      Object.assign(step, { status: 'failed', error: error.message });
+      failedAt = index;
+      break;
+    }
+  }
+
+  if (failedAt < 0) {
+    return { status: 'applied', steps };
+  }
+  let rollbackFailed = false;
+  for (let index = failedAt - 1; index >= 0; index--) {
+    try {
+      await undo[index]();
+      steps[index].status = 'rolledBack';
+      delete steps[index].event;
+    } catch (error) {
+      console.error(`apply_changes: could not undo change ${index + 1}:`, error.message);
+      Object.assign(steps[index], { status: 'rollbackFailed', error: error.message });
+      rollbackFailed = true;
+    }
+  }
+  return { status: rollbackFailed ? 'partial' : 'rolledBack', steps };
+}
+
 // MCP JSON-RPC handler
 app.post('/mcp', async (req, res) => {
   try {
     const { method, params, id } = req.body;
 
-    if (!oauth2Client || !calendar) {
+    // Unknown session (e.g. after a server restart): 404 tells the client to re-initialize
+    const sessionId = req.get('mcp-session-id');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (sessionId && method !== 'initialize') {
+      // Sessions belong to the user who opened them
+      if (!session || session.userId !== req.userId) {
+        return res.status(404).json({
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32001,
+            message: 'Session not found'
+          }
+        });
+      }
+      session.lastSeen = Date.now();
+    }
+
+    // Notifications (initialized, cancelled) get no JSON-RPC response
+    // 202 after notifications/initialized also tells the client it may open the SSE stream
+    if (typeof method === 'string' && method.startsWith('notifications/')) {
+      return res.status(202).end();
+    }
+
+    if (!oauthConfig) {
       return res.json({
         jsonrpc: '2.0',
         id,
@@ -73,11 +686,11 @@ app.post('/mcp', async (req, res) => {
     }
 
     // Allow initialize and notifications/initialized without authentication
-    if (method === 'initialize' || method === 'notifications/initialized' || method === 'tools/list') {
+    if (method === 'initialize' || method === 'notifications/initialized' || method === 'tools/list' || method === 'ping' || method === 'prompts/list' || method === 'prompts/get') {
       // These methods don't require authentication
-    } else if (method === 'tools/call') {
+    } else if (method === 'tools/call' || method === 'resources/read') {
       // Check authentication for tool calls
-      if (!oauth2Client.credentials || (!oauth2Client.credentials.access_token && !oauth2Client.credentials.refresh_token)) {
+      if (!isUserAuthenticated(req.userId)) {
         return res.json({
           jsonrpc: '2.0',
           id,
@@ -89,15 +702,26 @@ app.post('/mcp', async (req, res) => {
       }
     }
 
+    const calendar = isUserAuthenticated(req.userId) ? getUserAuth(req.userId).calendar : null;
     let result;
 
     switch (method) {
-      case 'initialize':
+      case 'initialize': {
+        const newSessionId = randomUUID();
+        sessions.set(newSessionId, {
+          userId: req.userId,
+          createdAt: Date.now(),
+          lastSeen: Date.now(),
+          stream: null,
+          subscriptions: new Set()
+        });
+        res.setHeader('Mcp-Session-Id', newSessionId);
         result = {
           protocolVersion: '2024-11-05',
           capabilities: {
             tools: {},
-            resources: {}
+            resources: { subscribe: true, listChanged: true },
+            prompts: {}
           },
           serverInfo: {
             name: 'google-calendar-mcp',
@@ -105,12 +729,89 @@ app.post('/mcp', async (req, res) => {
           }
         };
         break;
+      }
 
-      case 'notifications/initialized':
-        // Acknowledge initialization notification
+      case 'ping':
+        // Liveness check used by the web client's connection supervisor
         result = {};
         break;
 
+      case 'resources/list':
+        result = {
+          resources: [
+            {
+              uri: calendarEventsUri('primary'),
+              name: 'Primary calendar events',
+              description: 'Upcoming events on the primary calendar. Subscribe to be notified when events change.',
+              mimeType: 'application/json'
+            }
+          ]
+        };
+        break;
+
+      case 'resources/read': {
+        const match = /^calendar:\/\/events\/(.+)$/.exec(params?.uri || '');
+        if (!match) {
+          throw new Error(`Unknown resource: ${params?.uri}`);
+        }
+        const now = new Date();
+        const upcomingResponse = await calendar.events.list({
+          calendarId: match[1],
+          timeMin: now.toISOString(),
+          timeMax: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          singleEvents: true,
+          orderBy: 'startTime'
+        });
+        result = {
+          contents: [
+            {
+              uri: params.uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(upcomingResponse.data.items || [], null, 2)
+            }
+          ]
+        };
+        break;
+      }
+
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        // Updates are delivered over the session's SSE stream
+        if (!session) {
+          throw new Error('Resource subscriptions require an MCP session');
+        }
+        if (method === 'resources/subscribe') {
+          session.subscriptions.add(params?.uri);
+        } else {
+          session.subscriptions.delete(params?.uri);
+        }
+        refreshWatches(session.userId);
+        result = {};
+        break;
+
+      case 'prompts/list':
+        result = {
+          prompts: PROMPTS.map(({ build, ...prompt }) => prompt)
+        };
+        break;
+
+      case 'prompts/get': {
+        const prompt = PROMPTS.find((p) => p.name === params?.name);
+        if (!prompt) {
+          throw new Error(`Unknown prompt: ${params?.name}`);
+        }
+        result = {
+          description: prompt.description,
+          messages: [
+            {
+              role: 'user',
+              content: { type: 'text', text: prompt.build(params?.arguments || {}) }
+            }
+          ]
+        };
+        break;
+      }
+
       case 'tools/list':
         result = {
           tools: [
@@ -135,16 +836,38 @@ app.post('/mcp', async (req, res) => {
                   },
                   timeMin: {
                     type: 'string',
+                    format: 'date-time',
                     description: 'Start time (ISO 8601)'
                   },
                   timeMax: {
                     type: 'string',
+                    format: 'date-time',
                     description: 'End time (ISO 8601)'
                   },
                   maxResults: {
                     type: 'number',
                     description: 'Maximum number of events',
+                    minimum: 1,
+                    maximum: 2500,
                     default: 250
+                  },
+                  singleEvents: {
+                    type: 'boolean',
+                    description: 'Expand recurring events into instances (each with recurringEventId). When false, series are returned once with their recurrence rules.',
+                    default: true
+                  },
+                  privateExtendedProperty: {
+                    type: 'string',
+                    description: 'Only events with this private property, as "key=value". Without timeMin, searches all time instead of from now.'
+                  },
+                  returnSyncToken: {
+                    type: 'boolean',
+                    description: 'Full sync: return every matching event (all pages) as { items, nextSyncToken } for later incremental syncs',
+                    default: false
+                  },
+                  syncToken: {
+                    type: 'string',
+                    description: 'Incremental sync: return only events changed since this token as { items, nextSyncToken }; deleted events have status "cancelled". timeMin/timeMax are ignored. If the token has expired, fullSyncRequired is true.'
                   }
                 }
               }
@@ -169,7 +892,7 @@ app.post('/mcp', async (req, res) => {
             },
             {
               name: 'create_event',
-              description: 'Create a new calendar event',
+              description: 'Create a new calendar event, optionally recurring',
               inputSchema: {
                 type: 'object',
                 properties: {
@@ -179,16 +902,26 @@ app.post('/mcp', async (req, res) => {
                   },
                   summary: { type: 'string' },
                   description: { type: 'string' },
-                  start: { type: 'object' },
-                  end: { type: 'object' },
-                  location: { type: 'string' }
+                  start: eventDateTimeSchema,
+                  end: eventDateTimeSchema,
+                  location: { type: 'string' },
+                  recurrence: recurrenceSchema,
+                  attendees: attendeesSchema,
+                  transparency: transparencySchema,
+                  privateProperties: privatePropertiesSchema,
+                  dryRun: dryRunSchema,
+                  checkConflicts: checkConflictsSchema,
+                  sendUpdates: {
+                    ...sendUpdatesSchema,
+                    description: 'Who Google emails invitations to: every guest, only guests outside your domain, or nobody (default)'
+                  }
                 },
                 required: ['summary', 'start', 'end']
               }
             },
             {
               name: 'update_event',
-              description: 'Update an existing calendar event',
+              description: 'Update an existing calendar event. For a recurring event instance, scope picks which occurrences change.',
               inputSchema: {
                 type: 'object',
                 properties: {
@@ -202,16 +935,87 @@ app.post('/mcp', async (req, res) => {
                   },
                   summary: { type: 'string' },
                   description: { type: 'string' },
-                  start: { type: 'object' },
-                  end: { type: 'object' },
-                  location: { type: 'string' }
+                  start: eventDateTimeSchema,
+                  end: eventDateTimeSchema,
+                  location: { type: 'string' },
+                  recurrence: {
+                    ...recurrenceSchema,
+                    description: 'New recurrence rules (series and following scopes only)'
+                  },
+                  attendees: attendeesSchema,
+                  transparency: transparencySchema,
+                  privateProperties: privatePropertiesSchema,
+                  dryRun: dryRunSchema,
+                  checkConflicts: checkConflictsSchema,
+                  sendUpdates: sendUpdatesSchema,
+                  scope: recurringScopeSchema
                 },
                 required: ['eventId']
               }
             },
+            {
+              name: 'respond_to_event',
+              description: 'Accept, decline or tentatively accept an event you were invited to. For a recurring event instance, only that occurrence is answered; pass the series id to answer all of them.',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  calendarId: {
+                    type: 'string',
+                    default: 'primary'
+                  },
+                  eventId: {
+                    type: 'string',
+                    description: 'Event ID to respond to'
+                  },
+                  responseStatus: {
+                    type: 'string',
+                    enum: RESPONSE_STATUSES
+                  },
+                  comment: {
+                    type: 'string',
+                    description: 'Optional note to the organizer'
+                  },
+                  sendUpdates: {
+                    ...sendUpdatesSchema,
+                    description: 'Who Google emails about the response (default: all, i.e. the organizer is told)',
+                    default: 'all'
+                  }
+                },
+                required: ['eventId', 'responseStatus']
+              }
+            },
+            {
+              name: 'freebusy',
+              description: 'Busy intervals across the user\'s calendars (all calendars unless calendarIds is given)',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  timeMin: {
+                    type: 'string',
+                    format: 'date-time',
+                    description: 'Start of the window (ISO 8601)'
+                  },
+                  timeMax: {
+                    type: 'string',
+                    format: 'date-time',
+                    description: 'End of the window (ISO 8601)'
+                  },
+                  calendarIds: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Calendars to check (default: every calendar in the user\'s list)'
+                  },
+                  timeZone: {
+                    type: 'string',
+                    description: 'IANA time zone for the response (default: UTC)'
+                  }
+                },
+                required: ['timeMin', 'timeMax']
+              }
+            },
             {
               name: 'delete_event',
-              description: 'Delete a calendar event',
+              description: 'Delete a calendar event. For a recurring event instance, scope picks which occurrences are removed.',
               inputSchema: {
                 type: 'object',
                 properties: {
@@ -223,10 +1027,31 @@ app.post('/mcp', async (req, res) => {
                   eventId: {
                     type: 'string',
                     description: 'Event ID to delete'
+                  },
+                  scope: recurringScopeSchema,
+                  sendUpdates: {
+                    ...sendUpdatesSchema,
+                    description: 'Who Google emails a cancellation to: every guest, only guests outside your domain, or nobody (default)'
                   }
                 },
                 required: ['eventId']
               }
+            },
+            {
+              name: 'apply_changes',
+              description: 'Apply several event changes in order, all or nothing. If one fails, the changes already made are undone. Returns the outcome of each step.',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  changes: {
+                    type: 'array',
+                    items: calendarChangeSchema,
+                    minItems: 1,
+                    description: 'Creates, updates and deletes, applied in this order'
+                  }
+                },
+                required: ['changes']
+              }
             }
           ]
         };
@@ -249,13 +1074,28 @@ app.post('/mcp', async (req, res) => {
             break;
 
           case 'list_events':
+            if (args?.syncToken || args?.returnSyncToken) {
+              const syncResult = await syncEvents(calendar, args.calendarId || 'primary', args);
+              result = {
+                content: [
+                  {
+                    type: 'text',
+                    text: JSON.stringify(syncResult, null, 2)
+                  }
+                ]
+              };
+              break;
+            }
+            const singleEvents = args?.singleEvents !== false;
             const eventsResponse = await calendar.events.list({
               calendarId: args?.calendarId || 'primary',
-              timeMin: args?.timeMin || new Date().toISOString(),
+              timeMin: args?.timeMin || (args?.privateExtendedProperty ? undefined : new Date().toISOString()),
+              privateExtendedProperty: args?.privateExtendedProperty,
               timeMax: args?.timeMax,
               maxResults: args?.maxResults || 250,
-              singleEvents: true,
-              orderBy: 'startTime'
+              singleEvents,
+              // Google only orders by start time when series are expanded
+              ...(singleEvents && { orderBy: 'startTime' })
             });
             result = {
               content: [
@@ -283,14 +1123,26 @@ app.post('/mcp', async (req, res) => {
             break;
 
           case 'create_event':
+            if (args.dryRun || args.checkConflicts) {
+              const report = await conflictReport(calendar, args);
+              if (args.dryRun || report.conflicts.length > 0) {
+                result = { content: [{ type: 'text', text: JSON.stringify(report, null, 2) }] };
+                break;
+              }
+            }
             const createResponse = await calendar.events.insert({
               calendarId: args?.calendarId || 'primary',
+              sendUpdates: args.sendUpdates,
               resource: {
                 summary: args.summary,
                 description: args.description,
                 start: args.start,
                 end: args.end,
-                location: args.location
+                location: args.location,
+                recurrence: args.recurrence,
+                attendees: args.attendees,
+                transparency: args.transparency,
+                extendedProperties: args.privateProperties && mergePrivateProperties(undefined, args.privateProperties)
               }
             });
             result = {
@@ -301,53 +1153,103 @@ app.post('/mcp', async (req, res) => {
                 }
               ]
             };
+            notifyResourceUpdated(req.userId, calendarEventsUri(args?.calendarId));
             break;
 
-          case 'update_event':
-            // First get the existing event to preserve fields
-            const existingEvent = await calendar.events.get({
-              calendarId: args?.calendarId || 'primary',
-              eventId: args.eventId
-            });
-            
-            // Update only provided fields
-            const updatedResource = {
-              ...existingEvent.data,
-              ...(args.summary !== undefined && { summary: args.summary }),
-              ...(args.description !== undefined && { description: args.description }),
-              ...(args.start !== undefined && { start: args.start }),
-              ...(args.end !== undefined && { end: args.end }),
-              ...(args.location !== undefined && { location: args.location })
+          case 'update_event': {
+            if (args.dryRun || args.checkConflicts) {
+              const existing = (await calendar.events.get({ calendarId: args?.calendarId || 'primary', eventId: args.eventId })).data;
+              const report = await conflictReport(calendar, args, existing);
+              if (args.dryRun || report.conflicts.length > 0) {
+                result = { content: [{ type: 'text', text: JSON.stringify(report, null, 2) }] };
+                break;
+              }
+            }
+            const updatedEvent = await updateEventWithScope(calendar, args?.calendarId || 'primary', args);
+            result = {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(updatedEvent, null, 2)
+                }
+              ]
             };
-            
-            const updateResponse = await calendar.events.update({
-              calendarId: args?.calendarId || 'primary',
-              eventId: args.eventId,
-              resource: updatedResource
+            notifyResourceUpdated(req.userId, calendarEventsUri(args?.calendarId));
+            break;
+          }
+
+          case 'respond_to_event': {
+            const respondedEvent = await respondToEvent(calendar, args?.calendarId || 'primary', args);
+            result = {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(respondedEvent, null, 2)
+                }
+              ]
+            };
+            notifyResourceUpdated(req.userId, calendarEventsUri(args?.calendarId));
+            break;
+          }
+
+          case 'freebusy': {
+            // Every calendar the user can see busy times for, not just primary
+            let calendarIds = args.calendarIds;
+            if (!calendarIds?.length) {
+              const listResponse = await calendar.calendarList.list({ minAccessRole: 'freeBusyReader' });
+              calendarIds = (listResponse.data.items || []).map((c) => c.id);
+            }
+            const freebusyResponse = await calendar.freebusy.query({
+              resource: {
+                timeMin: args.timeMin,
+                timeMax: args.timeMax,
+                timeZone: args.timeZone,
+                items: calendarIds.map((calendarId) => ({ id: calendarId }))
+              }
             });
             result = {
               content: [
                 {
                   type: 'text',
-                  text: JSON.stringify(updateResponse.data, null, 2)
+                  text: JSON.stringify({
+                    timeMin: args.timeMin,
+                    timeMax: args.timeMax,
+                    calendars: freebusyResponse.data.calendars || {}
+                  }, null, 2)
                 }
               ]
             };
             break;
+          }
+
+          case 'apply_changes': {
+            // A failed plan isn't an error result: the steps say what was applied and undone
+            const planResult = await applyChanges(calendar, args.changes || []);
+            result = {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(planResult, null, 2)
+                }
+              ]
+            };
+            new Set((args.changes || []).map((change) => change.calendarId || 'primary')).forEach((calendarId) =>
+              notifyResourceUpdated(req.userId, calendarEventsUri(calendarId))
+            );
+            break;
+          }
 
           case 'delete_event':
-            await calendar.events.delete({
-              calendarId: args?.calendarId || 'primary',
-              eventId: args.eventId
-            });
+            await deleteEventWithScope(calendar, args?.calendarId || 'primary', args);
             result = {
               content: [
                 {
                   type: 'text',
-                  text: JSON.stringify({ success: true, deletedEventId: args.eventId }, null, 2)
+                  text: JSON.stringify({ success: true, deletedEventId: args.eventId, scope: args.scope || 'instance' }, null, 2)
                 }
               ]
             };
+            notifyResourceUpdated(req.userId, calendarEventsUri(args?.calendarId));
             break;
 
           default:
@@ -366,6 +1268,27 @@ app.post('/mcp', async (req, res) => {
     });
   } catch (error) {
     console.error('MCP error:', error);
+    if (isRevokedGrant(error)) {
+      // The stored refresh token is dead - the user has to sign in again
+      clearUserAuth(req.userId);
+      error.message = 'Google Calendar access was revoked or expired. Please sign in again via /auth/url.';
+    }
+    // Tool failures (e.g. Google API errors) are reported as isError results, not protocol errors
+    if (req.body?.method === 'tools/call') {
+      return res.json({
+        jsonrpc: '2.0',
+        id: req.body.id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ error: error.message, code: error.code }, null, 2)
+            }
+          ],
+          isError: true
+        }
+      });
+    }
     res.json({
       jsonrpc: '2.0',
       id: req.body.id,
@@ -377,20 +1300,92 @@ app.post('/mcp', async (req, res) => {
   }
 });
 
+// Session termination (sent by the client on disconnect/reset)
+app.delete('/mcp', (req, res) => {
+  const sessionId = req.get('mcp-session-id');
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  // Sessions belong to the user who opened them
+  if (!session || session.userId !== req.userId) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  session.stream?.end();
+  sessions.delete(sessionId);
+  refreshWatches(session.userId);
+  res.status(204).end();
+});
+
+// Server-to-client SSE stream for notifications (resources/updated, list_changed)
+app.get('/mcp', (req, res) => {
+  const sessionId = req.get('mcp-session-id');
+  if (!sessionId) {
+    return res.status(405).set('Allow', 'POST, DELETE').json({ error: 'Method Not Allowed' });
+  }
+  const session = sessions.get(sessionId);
+  // Sessions belong to the user who opened them
+  if (!session || session.userId !== req.userId) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  // Only one stream per session; a reconnecting client replaces the old one
+  session.stream?.end();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  session.stream = res;
+
+  // Comment lines keep proxies from closing an idle stream
+  const keepalive = setInterval(() => {
+    res.write(': keepalive\n\n');
+    session.lastSeen = Date.now();
+  }, SSE_KEEPALIVE_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    if (session.stream === res) {
+      session.stream = null;
+    }
+  });
+});
+
+// Google push notifications for watch channels (see GOOGLE_WEBHOOK_URL)
+// Google only needs a 2xx; the body is empty and the headers say which channel fired.
+app.post('/webhooks/google-calendar', (req, res) => {
+  if (!changeWatcher.handleNotification(req.headers)) {
+    return res.status(404).end();
+  }
+  res.status(200).end();
+});
+
 // OAuth2 callback endpoint
 app.get('/oauth2callback', async (req, res) => {
-  const { code } = req.query;
+  const { code, state } = req.query;
   
   if (!code) {
     return res.send('Error: No authorization code received');
   }
 
+  // The state ties the callback to the user who requested the sign-in URL
+  const pending = state ? oauthStates.get(state) : undefined;
+  if (!pending || !oauthConfig) {
+    return res.send('Error: This sign-in link has expired. Please start again from the app.');
+  }
+  oauthStates.delete(state);
+
   try {
-    const { tokens } = await oauth2Client.getToken(code);
-    oauth2Client.setCredentials(tokens);
+    const { tokens } = await createOAuth2Client().getToken(code);
+    tokenStore.set(pending.userId, { ...tokenStore.get(pending.userId), ...tokens });
+    // Rebuilt with the new credentials on next use
+    userAuth.delete(pending.userId);
+
+    // Calendar resources are readable now - let the user's connected clients refresh
+    notifyUserSessions(pending.userId, 'notifications/resources/list_changed');
+    refreshWatches(pending.userId);
     
-    // Store tokens in environment for persistence (optional)
-    console.log('✅ Authentication successful! Tokens received.');
+    console.log('✅ Authentication successful! Tokens stored.');
     console.log('Access token expires:', tokens.expiry_date ? new Date(tokens.expiry_date).toLocaleString() : 'Never');
     
     res.send(`
@@ -399,6 +1394,7 @@ app.get('/oauth2callback', async (req, res) => {
           <h1 style="color: green;">✅ Authentication Successful!</h1>
           <p>You can close this window and return to the app.</p>
           <p>Your Google Calendar access is now active.</p>
+          <script>setTimeout(() => window.close(), 1500);</script>
         </body>
       </html>
     `);
@@ -418,27 +1414,50 @@ app.get('/oauth2callback', async (req, res) => {
 
 // Get OAuth URL
 app.get('/auth/url', (req, res) => {
-  if (!oauth2Client) {
+  if (!oauthConfig) {
     return res.status(500).json({ error: 'OAuth2 client not initialized' });
   }
 
+  const state = randomUUID();
+  oauthStates.set(state, { userId: req.userId, createdAt: Date.now() });
+
   const scopes = ['https://www.googleapis.com/auth/calendar'];
-  const url = oauth2Client.generateAuthUrl({
+  const url = createOAuth2Client().generateAuthUrl({
     access_type: 'offline',
-    scope: scopes
+    // Always ask for consent so Google issues a refresh token, even on a repeat sign-in
+    prompt: 'consent',
+    scope: scopes,
+    state
   });
 
   res.json({ url });
 });
 
-// Health check
+// Sign out: revoke the user's Google access and forget their tokens
+app.post('/auth/logout', async (req, res) => {
+  if (oauthConfig && isUserAuthenticated(req.userId)) {
+    try {
+      await getUserAuth(req.userId).client.revokeCredentials();
+    } catch (error) {
+      console.warn('Failed to revoke Google credentials:', error.message);
+    }
+  }
+  clearUserAuth(req.userId);
+  notifyUserSessions(req.userId, 'notifications/resources/list_changed');
+  res.json({ authenticated: false });
+});
+
+// Health check, including whether the calling user is signed in to Google
 app.get('/health', (req, res) => {
-  const isAuthenticated = oauth2Client?.credentials &&
-    (oauth2Client.credentials.access_token || oauth2Client.credentials.refresh_token);
+  const isAuthenticated = isUserAuthenticated(req.userId);
 
   res.json({
     status: 'ok',
-    oauth2Initialized: !!oauth2Client,
+    oauth2Initialized: !!oauthConfig,
+    tokenStore: tokenStore instanceof FileTokenStore ? 'file' : 'memory',
+    activeSessions: sessions.size,
+    changeFeed: changeWatcher.mode,
+    watchedCalendars: changeWatcher.watchedCount(),
     authenticated: isAuthenticated,
     authUrl: isAuthenticated ? null : '/auth/url'
   });
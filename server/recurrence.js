@@ -0,0 +1,95 @@
+// Recurring Event Helpers
+// RRULE rewriting for instance / this-and-following / whole-series edits of Google Calendar events
+
+// Which occurrences an edit or delete of a recurring event applies to
+export const RECURRING_SCOPES = ['instance', 'following', 'series'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function eventStartMs(eventDateTime) {
+  return new Date(eventDateTime.dateTime || eventDateTime.date).getTime();
+}
+
+// RRULE UNTIL value: UTC date-time for timed events, plain date for all-day events
+function formatUntil(date, allDay) {
+  const iso = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return allDay ? iso.slice(0, 8) : iso;
+}
+
+function rewriteRRule(recurrence, rewrite) {
+  return (recurrence || []).map((line) => {
+    if (!line.startsWith('RRULE:')) return line;
+    const parts = line.slice('RRULE:'.length).split(';').filter(Boolean);
+    return `RRULE:${rewrite(parts).join(';')}`;
+  });
+}
+
+/**
+ * End a series just before the given occurrence (replaces any COUNT/UNTIL)
+ */
+export function truncateRecurrence(recurrence, originalStartTime) {
+  const allDay = !originalStartTime.dateTime;
+  const until = new Date(eventStartMs(originalStartTime) - (allDay ? DAY_MS : 1000));
+  return rewriteRRule(recurrence, (parts) => [
+    ...parts.filter((part) => !/^(UNTIL|COUNT)=/.test(part)),
+    `UNTIL=${formatUntil(until, allDay)}`,
+  ]);
+}
+
+/**
+ * Rule for the continuation of a split series; a COUNT is reduced by the occurrences already kept
+ */
+export function continueRecurrence(recurrence, occurrencesBefore) {
+  return rewriteRRule(recurrence, (parts) =>
+    parts.map((part) => {
+      const count = part.match(/^COUNT=(\d+)$/);
+      return count ? `COUNT=${Math.max(1, Number(count[1]) - occurrencesBefore)}` : part;
+    })
+  );
+}
+
+/**
+ * Move an EventDateTime by a number of milliseconds, keeping its time zone (all-day dates move by whole days)
+ */
+export function shiftEventDateTime(eventDateTime, deltaMs) {
+  if (eventDateTime.dateTime) {
+    return { ...eventDateTime, dateTime: new Date(new Date(eventDateTime.dateTime).getTime() + deltaMs).toISOString() };
+  }
+  const date = new Date(`${eventDateTime.date}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + Math.round(deltaMs / DAY_MS));
+  return { ...eventDateTime, date: date.toISOString().slice(0, 10) };
+}
+
+/**
+ * New start/end for a whole series when one occurrence is edited to `start`/`end`
+ * The series moves by as much as that occurrence does, so other occurrences keep their own dates.
+ */
+export function moveSeriesTimes(series, occurrence, start, end) {
+  const deltaMs = start ? eventStartMs(start) - eventStartMs(occurrence.start) : 0;
+  // Without a new end the occurrence keeps its length
+  const durationMs = end
+    ? eventStartMs(end) - eventStartMs(start || occurrence.start)
+    : eventStartMs(occurrence.end) - eventStartMs(occurrence.start);
+  const seriesStart = shiftEventDateTime(series.start, deltaMs);
+  return {
+    start: seriesStart,
+    end: { ...shiftEventDateTime(seriesStart, durationMs), timeZone: series.end.timeZone },
+  };
+}
+
+/**
+ * Whether an occurrence is the first one of its series
+ */
+export function isFirstOccurrence(master, originalStartTime) {
+  return eventStartMs(master.start) === eventStartMs(originalStartTime);
+}
+
+// Fields copied to the new series when "this and following" splits a recurring event
+const SERIES_COPY_FIELDS = [
+  'summary', 'description', 'location', 'colorId', 'attendees', 'reminders',
+  'transparency', 'visibility', 'extendedProperties', 'conferenceData',
+];
+
+export function copySeriesFields(master) {
+  return Object.fromEntries(SERIES_COPY_FIELDS.filter((key) => master[key] !== undefined).map((key) => [key, master[key]]));
+}
@@ -0,0 +1,78 @@
+// OAuth Token Store
+// Persists Google OAuth tokens per user so server restarts don't force everyone to sign in again
+
+import fs from 'fs';
+import path from 'path';
+
+// Tokens kept in memory only - lost on restart (TOKEN_STORE=memory)
+export class MemoryTokenStore {
+  constructor() {
+    this.tokens = new Map();
+  }
+
+  get(userId) {
+    return this.tokens.get(userId) || null;
+  }
+
+  set(userId, tokens) {
+    this.tokens.set(userId, tokens);
+  }
+
+  delete(userId) {
+    this.tokens.delete(userId);
+  }
+
+  count() {
+    return this.tokens.size;
+  }
+}
+
+// Tokens in a JSON file keyed by user id, written atomically and readable only by the server's user
+export class FileTokenStore extends MemoryTokenStore {
+  constructor(filePath) {
+    super();
+    this.filePath = filePath;
+    this.load();
+  }
+
+  load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.tokens = new Map(Object.entries(data));
+      console.log(`🔑 Loaded OAuth tokens for ${this.tokens.size} user(s) from ${this.filePath}`);
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`⚠️ Could not read token store ${this.filePath}, starting empty:`, error.message);
+      }
+    }
+  }
+
+  save() {
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.tokens), null, 2), { mode: 0o600 });
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write token store ${this.filePath}:`, error.message);
+    }
+  }
+
+  set(userId, tokens) {
+    super.set(userId, tokens);
+    this.save();
+  }
+
+  delete(userId) {
+    super.delete(userId);
+    this.save();
+  }
+}
+
+// File-backed by default; TOKEN_STORE_PATH moves the file, TOKEN_STORE=memory disables persistence
+export function createTokenStore(defaultPath) {
+  if (process.env.TOKEN_STORE === 'memory') {
+    return new MemoryTokenStore();
+  }
+  return new FileTokenStore(process.env.TOKEN_STORE_PATH || defaultPath);
+}
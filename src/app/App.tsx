@@ -14,14 +14,25 @@ import { ProfileSection } from "@/app/components/ProfileSection";
 import { Settings } from "@/app/components/Settings";
 import { McpProvider } from "@/contexts/McpContext";
 import { CalendarProvider, useCalendar } from "@/contexts/CalendarContext";
-import { getMcpServerConfigs } from "@/config/mcpServers";
+import { CanvasProvider, useCanvas } from "@/contexts/CanvasContext";
+import { getAllMcpServerConfigs } from "@/config/mcpServers";
 import { toast } from "sonner";
 import { generateAIRecommendations, AIRecommendation, UserPriority } from "@/utils/aiRecommendationService";
 import { useMcpServer } from "@/hooks/useMcpServer";
+import { useCalendarTools } from "@/hooks/useCalendarTools";
+import { CalendarChange, EventConflict, isConflictReport, toEventDateTime } from "@/services/calendarTools";
+import { applyCalendarPlan, failedPlanStep } from "@/services/calendarPlan";
+import { checkConflicts, fromConflictReport, FreeWindow } from "@/services/availability";
 import { getToday } from "@/utils/dateUtils";
-import { startOfDay, endOfDay, format } from "date-fns";
+import { kaiseyProperties } from "@/utils/kaiseyMetadata";
+import { describeAcademicStrategy, prioritizeAssignments, weeklyAcademicHours } from "@/utils/assignmentPriority";
+import { dateKeyInZone, endOfDayInZone, formatTimeInZone, startOfDayInZone, zonedTime } from "@/utils/timeZone";
+import { format } from "date-fns";
 import { PriorityRanking, defaultPriorities, PriorityItem } from "@/app/components/PriorityRanking";
 
+// Wait after a change to today's schedule before regenerating recommendations
+const RECOMMENDATION_REFRESH_DELAY_MS = 2000;
+
 function AppContent() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const chatbotRef = useRef<{ handleSendMessage: (message: string) => void } | null>(null);
@@ -46,168 +57,31 @@ function AppContent() {
   const [lastPrioritiesJson, setLastPrioritiesJson] = useState<string>(JSON.stringify(defaultPriorities.map(p => p.id)));
 
   // MCP server for calendar operations
-  const { connected, callTool, connect } = useMcpServer('google-calendar');
-  const { getEvents, fetchEvents, events: calendarEvents } = useCalendar();
-
-  // Helper function to find available time slots
-  const findAvailableSlots = (
-    targetDate: Date,
-    durationMinutes: number,
-    activityTitle: string,
-    excludeEventId?: string
-  ): { time: string; label: string }[] => {
-    const slots: { time: string; label: string }[] = [];
-    const lowerActivity = activityTitle.toLowerCase();
-
-    // Define preferred time ranges based on activity type
-    let preferredRanges: { start: number; end: number; label: string }[] = [];
-
-    if (/dinner|supper|evening meal/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 18, end: 21, label: "Evening" },
-        { start: 19, end: 22, label: "Late Evening" },
-      ];
-    } else if (/lunch|midday meal/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 11, end: 14, label: "Midday" },
-        { start: 12, end: 15, label: "Afternoon" },
-      ];
-    } else if (/gym|workout|exercise|fitness/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 6, end: 9, label: "Early Morning" },
-        { start: 17, end: 20, label: "Evening" },
-      ];
-    } else if (/study|homework|buffer/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 9, end: 12, label: "Morning" },
-        { start: 14, end: 17, label: "Afternoon" },
-        { start: 19, end: 22, label: "Evening" },
-      ];
-    } else {
-      preferredRanges = [
-        { start: 9, end: 12, label: "Morning" },
-        { start: 13, end: 17, label: "Afternoon" },
-        { start: 18, end: 21, label: "Evening" },
-      ];
-    }
-
-    const targetDateStr = format(targetDate, 'yyyy-MM-dd');
-    const busySlots = calendarEvents
-      .filter(e => {
-        if (excludeEventId && e.id === excludeEventId) return false;
-        return e.startDate && format(e.startDate, 'yyyy-MM-dd') === targetDateStr;
-      })
-      .map(e => ({
-        start: e.startDate.getHours() * 60 + e.startDate.getMinutes(),
-        end: (e.endDate || e.startDate).getHours() * 60 + (e.endDate || e.startDate).getMinutes() + (e.endDate ? 0 : e.duration),
-      }));
-
-    for (const range of preferredRanges) {
-      for (let hour = range.start; hour < range.end; hour++) {
-        for (const minute of [0, 30]) {
-          const slotStart = hour * 60 + minute;
-          const slotEnd = slotStart + durationMinutes;
-          if (slotEnd > range.end * 60) continue;
-
-          const hasConflict = busySlots.some(busy =>
-            (slotStart < busy.end && slotEnd > busy.start)
-          );
-
-          if (!hasConflict) {
-            const timeStr = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-            const displayTime = format(new Date(2000, 0, 1, hour, minute), 'h:mm a');
-            slots.push({
-              time: timeStr,
-              label: `${displayTime} (${range.label})`,
-            });
-
-            if (slots.filter(s => s.label.includes(range.label)).length >= 2) break;
-          }
-        }
-        if (slots.filter(s => s.label.includes(range.label)).length >= 2) break;
-      }
-    }
-
-    return slots.slice(0, 3);
-  };
+  const { connected, connect } = useMcpServer('google-calendar');
+  const calendarTools = useCalendarTools();
+  const { fetchEvents, onEventsChanged, events: calendarEvents, calendarForEvent, homeTimeZone, displayTimeZone } = useCalendar();
+  const { assignments, announcements, loaded: canvasLoaded, error: canvasError, academicProfile } = useCanvas();
 
   // Function to generate recommendations (extracted for reuse)
   const generateRecommendations = async (currentPriorities: PriorityItem[]) => {
       try {
         setLoadingRecommendations(true);
         const today = getToday();
-        const dayStart = startOfDay(today);
-        const dayEnd = endOfDay(today);
+        const dayStart = startOfDayInZone(today, displayTimeZone);
+        const dayEnd = endOfDayInZone(today, displayTimeZone);
         
-        await fetchEvents(dayStart, dayEnd);
-        const calendarEvents = getEvents(dayStart, dayEnd);
-
-        // Convert to format expected by AI service
-        const eventsForAI = calendarEvents
-          .map((event: any) => {
-            const startTime = event.start?.dateTime || event.start?.date;
-            if (!startTime) return null;
-            
-            const start = new Date(startTime);
-            const end = new Date(event.end?.dateTime || event.end?.date || startTime);
-            const duration = Math.round((end.getTime() - start.getTime()) / (1000 * 60));
-            
-            const timeStr = start.toLocaleTimeString('en-US', { 
-              hour: '2-digit', 
-              minute: '2-digit', 
-              hour12: false 
-            });
+        // Today's events from the calendar store, already in the shape the AI service expects
+        const { events: eventsForAI, error: calendarError } = await fetchEvents(dayStart, dayEnd);
+        // Stale or missing events would read as a free day; keep the current suggestions (the calendar shows the error)
+        if (calendarError) {
+          console.warn("Skipping recommendations, calendar sync failed:", calendarError);
+          return;
+        }
 
-            const summary = event.summary || 'Untitled Event';
-            const lowerSummary = summary.toLowerCase();
-            let type = "meeting";
-            
-            if (lowerSummary.includes('class') || lowerSummary.includes('course')) type = "class";
-            else if (lowerSummary.includes('study') || lowerSummary.includes('homework')) type = "study";
-            else if (lowerSummary.includes('gym') || lowerSummary.includes('workout')) type = "workout";
-            else if (lowerSummary.includes('networking') || lowerSummary.includes('coffee')) type = "networking";
-            else if (lowerSummary.includes('recruiting') || lowerSummary.includes('interview')) type = "recruiting";
-
-            return {
-              id: event.id,
-              title: summary,
-              time: timeStr,
-              duration,
-              type,
-              startDate: start,
-              endDate: end,
-            };
-          })
-          .filter((e: any) => e !== null);
-
-        // Load assignments with system date awareness
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        const dayAfterTomorrow = new Date(today);
-        dayAfterTomorrow.setDate(dayAfterTomorrow.getDate() + 2);
-        
-        const formatDateForDisplay = (date: Date) => {
-          return format(date, "MMM d, h:mm a");
-        };
-        
-        const assignments = [
-          { 
-            id: "1", 
-            title: "Valuation Case Study", 
-            course: "Corporate Finance", 
-            dueDate: `Tomorrow, ${formatDateForDisplay(tomorrow)}`, 
-            priority: "high", 
-            progress: 35 
-          },
-          { 
-            id: "5", 
-            title: "Operations Group Project", 
-            course: "Operations Management", 
-            dueDate: formatDateForDisplay(dayAfterTomorrow), 
-            priority: "high", 
-            progress: 20 
-          },
-        ];
+        // Open Canvas assignments and quizzes, prioritized by grade weight and the academic profile; finished ones need no study time
+        const prioritizedAssignments = prioritizeAssignments(assignments, academicProfile, currentPriorities);
+        const openAssignments = prioritizedAssignments.filter((assignment) => assignment.status !== "completed");
+        const academicStrategy = describeAcademicStrategy(academicProfile, weeklyAcademicHours(prioritizedAssignments, academicProfile));
 
         // Convert priorities to format expected by AI service
         const userPriorities: UserPriority[] = currentPriorities.map((p, index) => ({
@@ -217,7 +91,8 @@ function AppContent() {
         }));
 
         // Generate AI recommendations with user priorities
-        const aiRecs = await generateAIRecommendations(eventsForAI, assignments, userPriorities);
+        // Without Canvas the AI is told there's no assignment data, rather than that nothing is due
+        const aiRecs = await generateAIRecommendations(eventsForAI, canvasError ? undefined : openAssignments, userPriorities, announcements, academicStrategy);
 
         // Convert AI recommendations to suggestion format
         const formattedSuggestions = aiRecs.map((rec) => ({
@@ -226,7 +101,10 @@ function AppContent() {
           title: rec.title,
           description: rec.description,
           eventId: rec.action.eventId,
-          assignmentId: rec.action.type === "add" && rec.action.title?.includes("Study") ? "1" : undefined,
+          // Study blocks are titled after the assignment they're for
+          assignmentId: rec.action.type === "add"
+            ? openAssignments.find((assignment) => rec.action.title?.includes(assignment.title))?.id
+            : undefined,
           action: rec.action,
         }));
 
@@ -238,11 +116,44 @@ function AppContent() {
       }
     };
 
-  // Generate AI recommendations on mount
+  // Generate AI recommendations once Canvas assignments have loaded (or failed to)
   useEffect(() => {
+    if (!canvasLoaded) return;
     generateRecommendations(priorities);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Only run once on mount
+  }, [canvasLoaded]);
+
+  // Today's schedule changed - here, in the chat, or directly in Google Calendar - so refresh the recommendations.
+  // Changes often arrive in bursts (e.g. a moved series), hence the short delay.
+  const regenerateRecommendationsRef = useRef<() => void>(() => {});
+  regenerateRecommendationsRef.current = () => generateRecommendations(priorities);
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = onEventsChanged((changed) => {
+      const today = format(getToday(), 'yyyy-MM-dd');
+      if (!changed.some((event) => dateKeyInZone(event.startDate, displayTimeZone) === today)) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => regenerateRecommendationsRef.current(), RECOMMENDATION_REFRESH_DELAY_MS);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, [onEventsChanged, displayTimeZone]);
+
+  // GND or the grade goal changed in the profile section; the delay lets CanvasContext pick it up first
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleProfileUpdated = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => regenerateRecommendationsRef.current(), RECOMMENDATION_REFRESH_DELAY_MS);
+    };
+    window.addEventListener('academicProfileUpdated', handleProfileUpdated);
+    return () => {
+      window.removeEventListener('academicProfileUpdated', handleProfileUpdated);
+      clearTimeout(timer);
+    };
+  }, []);
 
   // Handle priority changes - regenerate recommendations
   const handlePrioritiesChange = async (newPriorities: PriorityItem[]) => {
@@ -308,109 +219,162 @@ function AppContent() {
 
       if (action) {
         const today = getToday();
+        // A plan's steps are applied together or not at all; a single action is a one-step plan
+        const steps = action.type === "plan" ? action.steps || [] : [action];
+        // Events the plan moves or removes don't block its other steps
+        const touchedIds = new Set(steps.map((step) => step.eventId).filter(Boolean));
+        const changes: CalendarChange[] = [];
+        const applied: Array<{ title: string; description: string }> = [];
+        // A single change is checked by the write itself (see writeIfFree); a plan's steps are checked up front
+        const isPlan = action.type === "plan";
+
+        // Times earlier steps of this plan create or move events to; the server can't see them yet
+        const plannedSlots: Array<{ title: string; start: Date; end: Date }> = [];
+
+        const showConflict = (conflict: EventConflict, alternatives: FreeWindow[], startDate: Date) => {
+          const conflictStart = new Date(conflict.start.dateTime || conflict.start.date || startDate);
+          let toastDescription = `Conflicts with "${conflict.summary || 'another event'}" at ${formatTimeInZone(conflictStart, displayTimeZone)}.`;
+          if (alternatives.length > 0) {
+            toastDescription += ` Try: ${alternatives.map(s => s.label.split(' (')[0]).join(', ')}`;
+          }
+          toast.error("Time conflict detected", { description: toastDescription });
+        };
 
-        // Handle different action types
-        if (action.type === "add" && action.title && action.newTime && action.duration) {
-          // Add new event
-          const [hours, minutes] = action.newTime.split(':').map(Number);
-          const startDate = new Date(today);
-          startDate.setHours(hours, minutes, 0, 0);
-          const endDate = new Date(startDate);
-          endDate.setMinutes(endDate.getMinutes() + action.duration);
-
-          // Check for conflicts before creating
-          const eventStart = startDate.getTime();
-          const eventEnd = endDate.getTime();
-          const conflictingEvent = calendarEvents.find(existingEvent => {
-            if (!existingEvent.startDate || !existingEvent.endDate) return false;
-            const existingStart = existingEvent.startDate.getTime();
-            const existingEnd = existingEvent.endDate.getTime();
-            return (eventStart < existingEnd && eventEnd > existingStart);
-          });
-
-          if (conflictingEvent) {
-            const alternativeSlots = findAvailableSlots(startDate, action.duration, action.title);
-            let toastDescription = `Conflicts with "${conflictingEvent.title}" at ${conflictingEvent.time}.`;
-            if (alternativeSlots.length > 0) {
-              toastDescription += ` Try: ${alternativeSlots.map(s => s.label.split(' (')[0]).join(', ')}`;
-            }
-            toast.error("Time conflict detected", { description: toastDescription });
-            return;
+        // Ask the calendar server what a change would overlap on any calendar; false (after a toast) on a conflict
+        const checkStep = async ({ op, ...event }: Exclude<CalendarChange, { op: 'delete' }>, startDate: Date, endDate: Date, title: string) => {
+          const plannedClash = plannedSlots.find((slot) => startDate < slot.end && endDate > slot.start);
+          if (plannedClash) {
+            toast.error("Time conflict detected", {
+              description: `"${title}" overlaps "${plannedClash.title}" at ${formatTimeInZone(plannedClash.start, displayTimeZone)}, also in this plan.`,
+            });
+            return false;
+          }
+          if (!isPlan) {
+            plannedSlots.push({ title, start: startDate, end: endDate });
+            return true;
           }
 
-          await callTool('create_event', {
-            calendarId: 'primary',
-            summary: action.title,
-            description: `Added via Kaisey recommendation: ${suggestion.title}`,
-            start: { dateTime: startDate.toISOString() },
-            end: { dateTime: endDate.toISOString() },
-          });
+          const { conflicts, alternatives } = await checkConflicts(calendarTools, {
+            event,
+            start: startDate,
+            end: endDate,
+            timeZone: displayTimeZone,
+            loadedEvents: calendarEvents,
+          }, { source: 'recommendation' });
+          const conflict = conflicts.find((candidate) => !touchedIds.has(candidate.eventId));
+          if (!conflict) {
+            plannedSlots.push({ title, start: startDate, end: endDate });
+            return true;
+          }
 
-          toast.success("Event added", {
-            description: `${action.title} scheduled for ${action.newTime}`,
-          });
-        } else if (action.type === "move" && action.eventId && action.newTime) {
-          // Move existing event - use update_event with estimated duration
-          const [hours, minutes] = action.newTime.split(':').map(Number);
-          const startDate = new Date(today);
-          startDate.setHours(hours, minutes, 0, 0);
-
-          // Default duration to 60 minutes if not specified
-          const duration = action.duration || 60;
-          const endDate = new Date(startDate);
-          endDate.setMinutes(endDate.getMinutes() + duration);
-
-          // Check for conflicts (excluding the event being moved)
-          const eventStart = startDate.getTime();
-          const eventEnd = endDate.getTime();
-          const conflictingEvent = calendarEvents.find(existingEvent => {
-            if (existingEvent.id === action.eventId) return false;
-            if (!existingEvent.startDate || !existingEvent.endDate) return false;
-            const existingStart = existingEvent.startDate.getTime();
-            const existingEnd = existingEvent.endDate.getTime();
-            return (eventStart < existingEnd && eventEnd > existingStart);
-          });
+          showConflict(conflict, alternatives, startDate);
+          return false;
+        };
 
-          if (conflictingEvent) {
-            const eventTitle = action.eventTitle || 'Event';
-            const alternativeSlots = findAvailableSlots(startDate, duration, eventTitle, action.eventId);
-            let toastDescription = `Conflicts with "${conflictingEvent.title}" at ${conflictingEvent.time}.`;
-            if (alternativeSlots.length > 0) {
-              toastDescription += ` Try: ${alternativeSlots.map(s => s.label.split(' (')[0]).join(', ')}`;
-            }
-            toast.error("Time conflict detected", { description: toastDescription });
-            return;
+        // Create or move only if the slot is free on every calendar, checked and written in one call
+        const writeIfFree = (change: Exclude<CalendarChange, { op: 'delete' }>) => {
+          if (change.op === 'create') {
+            const { op, ...args } = change;
+            return calendarTools.createEventIfFree(args, { source: 'recommendation' });
           }
+          const { op, ...args } = change;
+          return calendarTools.updateEventIfFree(args, { source: 'recommendation' });
+        };
 
-          await callTool('update_event', {
-            calendarId: 'primary',
-            eventId: action.eventId,
-            start: { dateTime: startDate.toISOString() },
-            end: { dateTime: endDate.toISOString() },
-          });
+        // The user locked these; Kaisey doesn't move or remove them
+        const lockedEvent = calendarEvents.find((event) => touchedIds.has(event.id) && event.kaisey?.locked);
+        if (lockedEvent) {
+          toast.error("Event is locked", { description: `"${lockedEvent.title}" is locked, so Kaisey won't change it.` });
+          return;
+        }
 
-          toast.success("Event moved", {
-            description: `${action.eventTitle || 'Event'} rescheduled to ${action.newTime}`,
-          });
-        } else if (action.type === "delete" && action.eventId) {
-          // Delete event - try delete_event, fallback to update with cancellation
-          try {
-            await callTool('delete_event', {
-              calendarId: 'primary',
-              eventId: action.eventId,
-            });
-          } catch (deleteError) {
-            // If delete_event doesn't exist, try updating event to cancelled status
-            console.warn("delete_event not available, skipping deletion");
-            toast.info("Event deletion not available", {
-              description: "Please delete the event manually from Google Calendar",
+        for (const step of steps) {
+          if (step.type === "add" && step.title && step.newTime && step.duration) {
+            // Add new event; suggested times are in the zone the calendar is shown in
+            const [hours, minutes] = step.newTime.split(':').map(Number);
+            const startDate = zonedTime(today, hours, minutes, displayTimeZone);
+            const endDate = new Date(startDate);
+            endDate.setMinutes(endDate.getMinutes() + step.duration);
+
+            const change: CalendarChange = {
+              op: 'create',
+              calendarId: calendarForEvent(step.title),
+              summary: step.title,
+              description: `Added via Kaisey recommendation: ${suggestion.title}`,
+              start: toEventDateTime(startDate, homeTimeZone),
+              end: toEventDateTime(endDate, homeTimeZone),
+              privateProperties: kaiseyProperties({
+                source: "recommendation",
+                recommendationId: suggestion.id,
+                tier: step.tier,
+                priorityCategory: step.category,
+                assignmentId: suggestion.assignmentId,
+                locked: false,
+              }),
+            };
+            if (!(await checkStep(change, startDate, endDate, step.title))) return;
+            changes.push(change);
+            applied.push({ title: "Event added", description: `${step.title} scheduled for ${step.newTime}` });
+          } else if ((step.type === "move" || step.type === "reschedule") && step.eventId && step.newTime) {
+            // Move existing event, keeping its calendar and zone
+            const movedEvent = calendarEvents.find((event) => event.id === step.eventId);
+            const [hours, minutes] = step.newTime.split(':').map(Number);
+            const startDate = zonedTime(today, hours, minutes, displayTimeZone);
+
+            // Default duration to 60 minutes if not specified
+            const duration = step.duration || 60;
+            const endDate = new Date(startDate);
+            endDate.setMinutes(endDate.getMinutes() + duration);
+
+            const change: CalendarChange = {
+              op: 'update',
+              calendarId: movedEvent?.calendarId,
+              eventId: step.eventId,
+              start: toEventDateTime(startDate, movedEvent?.timeZone || homeTimeZone),
+              end: toEventDateTime(endDate, movedEvent?.timeZone || homeTimeZone),
+            };
+            if (!(await checkStep(change, startDate, endDate, step.eventTitle || movedEvent?.title || 'Event'))) return;
+            changes.push(change);
+            applied.push({ title: "Event moved", description: `${step.eventTitle || 'Event'} rescheduled to ${step.newTime}` });
+          } else if (step.type === "delete" && step.eventId) {
+            changes.push({
+              op: 'delete',
+              calendarId: calendarEvents.find((event) => event.id === step.eventId)?.calendarId,
+              eventId: step.eventId,
             });
-            return;
+            applied.push({ title: "Event removed", description: `${step.eventTitle || 'Event'} deleted from your calendar` });
           }
+        }
 
-          toast.success("Event removed", {
-            description: `${action.eventTitle || 'Event'} deleted from your calendar`,
-          });
+        if (changes.length > 0) {
+          const [change] = changes;
+          if (!isPlan && change.op !== 'delete') {
+            const written = await writeIfFree(change);
+            if (isConflictReport(written)) {
+              const { conflicts, alternatives } = fromConflictReport(written, displayTimeZone);
+              showConflict(conflicts[0], alternatives, plannedSlots[0].start);
+              return;
+            }
+          } else {
+            const result = await applyCalendarPlan(calendarTools, changes, { source: 'recommendation' });
+            if (result.status !== 'applied') {
+              const reason = failedPlanStep(result)?.error || 'A change failed';
+              toast.error(result.status === 'partial' ? "Plan only partly undone" : "Couldn't apply the recommendation", {
+                description: result.status === 'partial'
+                  ? `${reason}. Some changes couldn't be undone - please check your calendar.`
+                  : `${reason}. Nothing was changed.`,
+              });
+              return;
+            }
+          }
+
+          if (applied.length === 1) {
+            toast.success(applied[0].title, { description: applied[0].description });
+          } else {
+            toast.success(`${applied.length} changes applied`, {
+              description: applied.map((change) => change.description).join('; '),
+            });
+          }
         } else if (suggestion.type === "urgency" && suggestionData?.assignmentId) {
           // Fallback for assignment scheduling
           toast.success("Study time scheduled", {
@@ -551,7 +515,7 @@ function AppContent() {
         <TimelineView selectedDate={selectedDate} onDateChange={setSelectedDate} />
 
         {/* Canvas Assignments */}
-        <AssignmentGrid />
+        <AssignmentGrid priorities={priorities} />
 
         {/* Footer: Profile & Biometrics */}
         <div className="space-y-6">
@@ -574,19 +538,34 @@ function AppContent() {
 }
 
 // Wrap App with MCP Provider
-export default function App() {
-  const mcpServers = getMcpServerConfigs()
+function getEnabledMcpServers() {
+  return getAllMcpServerConfigs()
     .filter((s) => s.enabled && s.url)
     .map((s) => ({
       name: s.name,
       url: s.url,
       headers: s.headers,
+      timeoutMs: s.timeoutMs,
+      retryPolicies: s.retryPolicies,
     }));
+}
+
+export default function App() {
+  const [mcpServers, setMcpServers] = useState(getEnabledMcpServers);
+
+  // Servers added/edited in Settings take effect without a reload
+  useEffect(() => {
+    const handleServersUpdated = () => setMcpServers(getEnabledMcpServers());
+    window.addEventListener('mcpServersUpdated', handleServersUpdated);
+    return () => window.removeEventListener('mcpServersUpdated', handleServersUpdated);
+  }, []);
 
   return (
     <McpProvider servers={mcpServers}>
       <CalendarProvider>
-        <AppContent />
+        <CanvasProvider>
+          <AppContent />
+        </CanvasProvider>
       </CalendarProvider>
     </McpProvider>
   );
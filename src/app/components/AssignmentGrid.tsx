@@ -1,78 +1,32 @@
-import { Calendar, Clock, AlertTriangle } from "lucide-react";
+import { Calendar, Clock, AlertTriangle, RefreshCw } from "lucide-react";
 import { Card } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
 import { Progress } from "@/app/components/ui/progress";
 import { Button } from "@/app/components/ui/button";
 import { ScheduleAssignmentDialog } from "./ScheduleAssignmentDialog";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { useCanvas } from "@/contexts/CanvasContext";
+import type { PriorityItem } from "./PriorityRanking";
+import { GRADE_GOAL_LABELS } from "@/config/academicProfile";
+import { formatGradeWeight, isPassMode, prioritizeAssignments, weeklyAcademicHours } from "@/utils/assignmentPriority";
 
-interface Assignment {
-  id: string;
-  title: string;
-  course: string;
-  dueDate: string;
-  priority: "high" | "medium" | "low";
-  progress: number;
-  estimatedTime: string;
-  status: "not-started" | "in-progress" | "completed";
-}
+type Assignment = ReturnType<typeof useCanvas>["assignments"][number];
 
-const assignments: Assignment[] = [
-  {
-    id: "1",
-    title: "Valuation Case Study",
-    course: "Corporate Finance",
-    dueDate: "Jan 22, 11:59 PM",
-    priority: "high",
-    progress: 35,
-    estimatedTime: "4h remaining",
-    status: "in-progress",
-  },
-  {
-    id: "2",
-    title: "Strategy Canvas Quiz",
-    course: "Business Strategy",
-    dueDate: "Jan 20, 11:00 AM",
-    priority: "high",
-    progress: 100,
-    estimatedTime: "Completed",
-    status: "completed",
-  },
-  {
-    id: "3",
-    title: "Marketing Mix Analysis",
-    course: "Marketing Analytics",
-    dueDate: "Jan 24, 5:00 PM",
-    priority: "medium",
-    progress: 60,
-    estimatedTime: "2h remaining",
-    status: "in-progress",
-  },
-  {
-    id: "4",
-    title: "Ethics Discussion Post",
-    course: "Business Ethics",
-    dueDate: "Jan 25, 11:59 PM",
-    priority: "low",
-    progress: 0,
-    estimatedTime: "30min estimated",
-    status: "not-started",
-  },
-  {
-    id: "5",
-    title: "Operations Group Project",
-    course: "Operations Management",
-    dueDate: "Jan 23, 9:00 AM",
-    priority: "high",
-    progress: 20,
-    estimatedTime: "6h remaining",
-    status: "in-progress",
-  },
-];
+interface AssignmentGridProps {
+  // The user's ranking; recruiting near the top lets minor assignments drop under GND
+  priorities: PriorityItem[];
+}
 
-export function AssignmentGrid() {
+export function AssignmentGrid({ priorities }: AssignmentGridProps) {
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const { assignments: canvasAssignments, loading, error, loaded, refresh, academicProfile } = useCanvas();
+
+  const assignments = useMemo(
+    () => prioritizeAssignments(canvasAssignments, academicProfile, priorities),
+    [canvasAssignments, academicProfile, priorities]
+  );
+  const weeklyHours = weeklyAcademicHours(assignments, academicProfile);
 
   const priorityColors = {
     high: "border-red-500/50 bg-red-500/5",
@@ -87,12 +41,40 @@ export function AssignmentGrid() {
 
   return (
     <Card className="p-4">
-      <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center justify-between mb-1">
         <h3 className="font-semibold">Canvas Assignments</h3>
-        <Badge variant="outline" className="text-xs">
-          {assignments.filter((a) => a.status !== "completed").length} Active
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs">
+            {assignments.filter((a) => a.status !== "completed").length} Active
+          </Badge>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={refresh}
+            disabled={loading}
+            className="h-6 w-6 p-0"
+          >
+            <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
       </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        GND {academicProfile.gradeNonDisclosure ? "on" : "off"} · Goal: {GRADE_GOAL_LABELS[academicProfile.gradeGoal]} ·{" "}
+        {isPassMode(academicProfile) ? `up to ${weeklyHours}` : `~${weeklyHours}`} h/week of academics
+      </p>
+
+      {error && (
+        <div className="mb-3 p-3 rounded-lg bg-red-500/10 border border-red-500/20 flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 text-red-600 mt-0.5 shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && assignments.length === 0 && (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          {loaded ? "Nothing due in the next 30 days" : "Loading Canvas assignments..."}
+        </div>
+      )}
 
       <div className="space-y-3">
         {assignments.map((assignment) => (
@@ -105,7 +87,10 @@ export function AssignmentGrid() {
             <div className="flex items-start justify-between gap-2 mb-2">
               <div className="flex-1 min-w-0">
                 <h4 className="font-semibold text-sm mb-0.5">{assignment.title}</h4>
-                <p className="text-xs text-muted-foreground">{assignment.course}</p>
+                <p className="text-xs text-muted-foreground">
+                  {assignment.course}
+                  {assignment.gradeWeight != null && ` • ${formatGradeWeight(assignment.gradeWeight)} of grade`}
+                </p>
               </div>
               <Badge
                 variant={assignment.priority === "high" ? "destructive" : "outline"}
@@ -124,6 +109,10 @@ export function AssignmentGrid() {
             </div>
 
             {assignment.status !== "completed" && (
+              <p className="text-xs text-muted-foreground mb-2">{assignment.priorityReason}</p>
+            )}
+
+            {assignment.status !== "completed" && assignment.progress > 0 && (
               <div className="space-y-1">
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-muted-foreground">Progress</span>
@@ -1,25 +1,45 @@
-import { Check, X } from "lucide-react";
+import { Check, Repeat, X } from "lucide-react";
 import { Button } from "@/app/components/ui/button";
 import { cn } from "@/app/components/ui/utils";
+import type { RecurringEditScope } from "@/services/calendarTools";
 
 interface ChatActionProps {
-  onApprove: () => void;
+  onApprove: (scope?: RecurringEditScope) => void;
   onReject: () => void;
   disabled?: boolean;
   approved?: boolean;
   rejected?: boolean;
+  // The action targets one occurrence of a recurring event: approve asks "this one or all future?"
+  recurring?: boolean;
+  // Scope the user picked, shown once approved
+  scope?: RecurringEditScope;
 }
 
+const SCOPE_CHOICES: Array<{ scope: RecurringEditScope; label: string }> = [
+  { scope: "instance", label: "Just this one" },
+  { scope: "following", label: "All future" },
+];
+
+const approveButtonClass = cn(
+  "h-7 px-3 text-xs font-medium rounded-full",
+  "bg-green-500 hover:bg-green-600 text-white",
+  "disabled:opacity-50 disabled:cursor-not-allowed",
+  "transition-all duration-200"
+);
+
 /**
  * Kaisey-styled action buttons for approve/reject actions
  * Pill-shaped, compact design that fits inside message bubbles
  */
-export function ChatAction({ onApprove, onReject, disabled, approved, rejected }: ChatActionProps) {
+export function ChatAction({ onApprove, onReject, disabled, approved, rejected, recurring, scope }: ChatActionProps) {
   if (approved) {
     return (
       <div className="flex items-center gap-1.5 text-xs text-green-600 font-medium mt-2">
         <Check className="w-3.5 h-3.5" />
-        <span>Approved</span>
+        <span>
+          Approved
+          {scope && ` (${scope === "instance" ? "this occurrence" : "this and all future occurrences"})`}
+        </span>
       </div>
     );
   }
@@ -35,20 +55,30 @@ export function ChatAction({ onApprove, onReject, disabled, approved, rejected }
 
   return (
     <div className="flex items-center gap-2 mt-3 pt-2 border-t border-border/50">
-      <Button
-        size="sm"
-        onClick={onApprove}
-        disabled={disabled}
-        className={cn(
-          "h-7 px-3 text-xs font-medium rounded-full",
-          "bg-green-500 hover:bg-green-600 text-white",
-          "disabled:opacity-50 disabled:cursor-not-allowed",
-          "transition-all duration-200"
-        )}
-      >
-        <Check className="w-3 h-3 mr-1.5" />
-        Approve
-      </Button>
+      {recurring ? (
+        SCOPE_CHOICES.map((choice) => (
+          <Button
+            key={choice.scope}
+            size="sm"
+            onClick={() => onApprove(choice.scope)}
+            disabled={disabled}
+            className={approveButtonClass}
+          >
+            {choice.scope === "instance" ? <Check className="w-3 h-3 mr-1.5" /> : <Repeat className="w-3 h-3 mr-1.5" />}
+            {choice.label}
+          </Button>
+        ))
+      ) : (
+        <Button
+          size="sm"
+          onClick={() => onApprove()}
+          disabled={disabled}
+          className={approveButtonClass}
+        >
+          <Check className="w-3 h-3 mr-1.5" />
+          Approve
+        </Button>
+      )}
       <Button
         size="sm"
         variant="outline"
@@ -1,5 +1,5 @@
 import { useState, useRef, useImperativeHandle, forwardRef, useEffect } from "react";
-import { MessageSquare, Send, X, Brain, Check, Clock, Calendar, Sparkles, ChevronDown, ChevronUp, RefreshCw, ExternalLink, ListOrdered } from "lucide-react";
+import { MessageSquare, Send, X, Brain, Check, Clock, Calendar, Sparkles, ChevronDown, ChevronUp, RefreshCw, ExternalLink, ListOrdered, Square } from "lucide-react";
 import { Card } from "@/app/components/ui/card";
 import { Input } from "@/app/components/ui/input";
 import { Button } from "@/app/components/ui/button";
@@ -9,12 +9,21 @@ import { getToday } from "@/utils/dateUtils";
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfDay, endOfDay } from "date-fns";
 import ReactMarkdown from "react-markdown";
 import { ChatAction } from "./ChatAction";
+import type { RecurringEditScope } from "@/services/calendarTools";
 
 interface ChatInputCardProps {
   onScheduleChange?: (action: string, details: any) => void;
   onSendMessage?: (message: string) => void;
 }
 
+// Server-provided prompt template exposed by NexusChatbot
+interface PromptAction {
+  serverName: string;
+  name: string;
+  title: string;
+  description?: string;
+}
+
 interface Message {
   id: string;
   type: "user" | "agent" | "action";
@@ -25,6 +34,8 @@ interface Message {
     details: string;
     status: "pending" | "approved" | "rejected";
     userRequest?: string;
+    recurringEventId?: string;
+    scope?: RecurringEditScope;
   };
 }
 
@@ -39,6 +50,7 @@ export const ChatInputCard = forwardRef<{ focus: () => void }, ChatInputCardProp
     const [messages, setMessages] = useState<Message[]>([]);
     const [isTyping, setIsTyping] = useState(false);
     const [calendarLoaded, setCalendarLoaded] = useState(false);
+    const [promptActions, setPromptActions] = useState<PromptAction[]>([]);
     const inputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -55,6 +67,9 @@ export const ChatInputCard = forwardRef<{ focus: () => void }, ChatInputCardProp
         if ((window as any).__nexusChatbotIsTyping !== undefined) {
           setIsTyping((window as any).__nexusChatbotIsTyping);
         }
+        if ((window as any).__nexusChatbotPromptActions) {
+          setPromptActions((window as any).__nexusChatbotPromptActions);
+        }
       };
 
       syncMessages();
@@ -140,9 +155,21 @@ export const ChatInputCard = forwardRef<{ focus: () => void }, ChatInputCardProp
       }
     };
 
-    const handleApproveAction = (messageId: string) => {
+    const handleRunPrompt = (action: PromptAction) => {
+      if ((window as any).__nexusChatbotRunPrompt) {
+        (window as any).__nexusChatbotRunPrompt(action.serverName, action.name);
+      }
+    };
+
+    const handleStop = () => {
+      if ((window as any).__nexusChatbotStop) {
+        (window as any).__nexusChatbotStop();
+      }
+    };
+
+    const handleApproveAction = (messageId: string, scope?: RecurringEditScope) => {
       if ((window as any).__nexusChatbotHandleApprove) {
-        (window as any).__nexusChatbotHandleApprove(messageId);
+        (window as any).__nexusChatbotHandleApprove(messageId, scope);
       }
     };
 
@@ -341,11 +368,13 @@ export const ChatInputCard = forwardRef<{ focus: () => void }, ChatInputCardProp
                             </div>
                             
                             <ChatAction
-                              onApprove={() => handleApproveAction(message.id)}
+                              onApprove={(scope) => handleApproveAction(message.id, scope)}
                               onReject={() => handleRejectAction(message.id)}
                               disabled={message.action?.status !== "pending"}
                               approved={message.action?.status === "approved"}
                               rejected={message.action?.status === "rejected"}
+                              recurring={!!message.action?.recurringEventId}
+                              scope={message.action?.scope}
                             />
                           </div>
                         </div>
@@ -388,17 +417,46 @@ export const ChatInputCard = forwardRef<{ focus: () => void }, ChatInputCardProp
                   className="flex-1"
                   disabled={isTyping}
                 />
-                <Button
-                  onClick={handleSubmit}
-                  disabled={!inputValue.trim() || isTyping}
-                  className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
+                {isTyping ? (
+                  // Cancels the pending calendar/AI request if it hangs
+                  <Button
+                    onClick={handleStop}
+                    variant="outline"
+                    title="Stop"
+                  >
+                    <Square className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSubmit}
+                    disabled={!inputValue.trim()}
+                    className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
               <p className="text-xs text-muted-foreground mt-2">
                 Try: "Move gym to 2pm" or "Clear my afternoon"
               </p>
+              {promptActions.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {promptActions.map((action) => (
+                    <Button
+                      key={`${action.serverName}:${action.name}`}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title={action.description}
+                      disabled={isTyping}
+                      onClick={() => handleRunPrompt(action)}
+                    >
+                      <Sparkles className="w-3 h-3 mr-1" />
+                      {action.title}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         )}
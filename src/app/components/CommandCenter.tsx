@@ -24,7 +24,7 @@ interface CommandCenterProps {
 }
 
 export function CommandCenter({ userFocus, selectedDate }: CommandCenterProps) {
-  const { connected, callTool, connect } = useMcpServer('google-calendar');
+  const { connected, health, callTool, connect } = useMcpServer('google-calendar');
   const { events: contextEvents, getEvents, fetchEvents, loading: calendarLoading } = useCalendar();
   const [events, setEvents] = useState<CalendarEvent[]>([]);
 
@@ -191,8 +191,15 @@ export function CommandCenter({ userFocus, selectedDate }: CommandCenterProps) {
   
   let message = `${greeting}, Star MBA Student! `;
 
+  // Don't report a free day when the calendar simply couldn't be read
+  const calendarUnavailable = health === 'degraded' || health === 'down';
+
   if (totalEvents > 0) {
     message += scheduleDescription;
+  } else if (calendarUnavailable) {
+    message += "I can't reach your calendar right now, so this summary may be incomplete. I'll refresh as soon as the connection is back.";
+  } else if (health === 'connecting') {
+    message += "I'm connecting to your calendar to put together your day.";
   } else {
     message += `You have a free day ${isDisplayingToday ? 'today' : 'on ' + format(displayDate, 'EEEE')}. Perfect opportunity to catch up on assignments or schedule networking meetings.`;
   }
@@ -211,6 +218,18 @@ export function CommandCenter({ userFocus, selectedDate }: CommandCenterProps) {
               <Calendar className="w-3 h-3 mr-1" />
               {format(displayDate, 'EEEE, MMM d')}
             </Badge>
+            {health && health !== 'healthy' && (
+              <Badge
+                variant="outline"
+                className={`shrink-0 text-xs ${
+                  health === 'down' ? 'border-red-300 text-red-600' :
+                  health === 'degraded' ? 'border-amber-300 text-amber-700' :
+                  'text-muted-foreground'
+                }`}
+              >
+                {health === 'down' ? 'Calendar offline' : health === 'degraded' ? 'Reconnecting...' : 'Connecting...'}
+              </Badge>
+            )}
           </div>
 
           <p className="text-sm mb-4 leading-relaxed">
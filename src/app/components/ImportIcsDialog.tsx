@@ -0,0 +1,287 @@
+"use client";
+
+import { useState } from "react";
+import { Upload, AlertCircle, Repeat } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/app/components/ui/dialog";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Badge } from "@/app/components/ui/badge";
+import { Checkbox } from "@/app/components/ui/checkbox";
+import { useMcpServer } from "@/hooks/useMcpServer";
+import { useCalendarTools } from "@/hooks/useCalendarTools";
+import { isConflictReport, type EventConflict } from "@/services/calendarTools";
+import { checkConflicts } from "@/services/availability";
+import { useCalendar } from "@/contexts/CalendarContext";
+import { IcsEvent, parseIcs } from "@/utils/ical";
+import { format, parseISO } from "date-fns";
+import { formatTimeInZone, zonedDay } from "@/utils/timeZone";
+
+// Private property holding the file's UID, so importing the same file again skips what it already created
+const ICS_UID_PROPERTY = 'icsUid';
+
+interface ImportPreview {
+  event: IcsEvent;
+  conflicts: EventConflict[];
+  selected: boolean;
+  // On the calendar already (from this import or an earlier one); kept in the list, unticked, so it isn't created twice
+  imported: boolean;
+}
+
+interface ImportIcsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export function ImportIcsDialog({ open, onOpenChange, onSuccess }: ImportIcsDialogProps) {
+  const [previews, setPreviews] = useState<ImportPreview[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { connected, connect } = useMcpServer('google-calendar');
+  const calendarTools = useCalendarTools();
+  const { events: calendarEvents, calendarForEvent, homeTimeZone, displayTimeZone } = useCalendar();
+
+  // Whether an earlier import already put this event on the calendar
+  const isOnCalendar = async (event: IcsEvent, calendarId: string) => {
+    if (!event.uid) return false;
+    const existing = await calendarTools.listEvents({
+      calendarId,
+      singleEvents: false,
+      maxResults: 1,
+      privateExtendedProperty: `${ICS_UID_PROPERTY}=${event.uid}`,
+    }, { source: 'ics-import' });
+    return existing.length > 0;
+  };
+
+  // create_event arguments for an event from the file, tagged with its UID
+  const toCreateArgs = ({ uid, ...args }: IcsEvent) => ({
+    calendarId: calendarForEvent(args.summary),
+    ...args,
+    ...(uid ? { privateProperties: { [ICS_UID_PROPERTY]: uid } } : {}),
+  });
+
+  const reset = () => {
+    setPreviews([]);
+    setFileName(null);
+    setErrorMessage(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  // Parse the file and flag events that overlap busy time on any calendar
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    setChecking(true);
+    try {
+      if (!connected) {
+        await connect();
+      }
+      // Floating times in the file are read in the home zone, like new events
+      const events = parseIcs(await file.text(), homeTimeZone);
+      if (events.length === 0) {
+        setErrorMessage('No events found in this file.');
+        return;
+      }
+
+      const checked: ImportPreview[] = [];
+      for (const event of events) {
+        const args = toCreateArgs(event);
+        if (await isOnCalendar(event, args.calendarId)) {
+          checked.push({ event, conflicts: [], selected: false, imported: true });
+          continue;
+        }
+        // Free events (e.g. holidays) can't conflict with anything
+        const conflicts = event.transparency === 'transparent' || event.start.date
+          ? []
+          : (await checkConflicts(calendarTools, {
+            event: args,
+            start: new Date(event.start.dateTime!),
+            end: new Date(event.end.dateTime!),
+            timeZone: displayTimeZone,
+            loadedEvents: calendarEvents,
+          }, { source: 'ics-import' })).conflicts;
+        // Conflicting events are left unticked so they're only imported on purpose
+        checked.push({ event, conflicts, selected: conflicts.length === 0, imported: false });
+      }
+      setPreviews(checked);
+    } catch (error) {
+      console.error('Error reading .ics file:', error);
+      setErrorMessage('Could not read this file. Make sure it is an iCalendar (.ics) file.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const toggleSelected = (index: number, selected: boolean) => {
+    setPreviews((current) => current.map((preview, i) => (i === index ? { ...preview, selected } : preview)));
+  };
+
+  // Create the selected events one at a time, on the calendar chosen for their type
+  const handleImport = async () => {
+    const selected = previews.filter((preview) => preview.selected);
+    setImporting(true);
+    setErrorMessage(null);
+    let created = 0;
+    let clashed = 0;
+    try {
+      for (const preview of selected) {
+        const event = toCreateArgs(preview.event);
+        // e.g. imported from another tab since the preview
+        if (await isOnCalendar(preview.event, event.calendarId)) {
+          setPreviews((current) => current.map((p) => (p === preview ? { ...p, selected: false, imported: true } : p)));
+          continue;
+        }
+        // Ticked despite a conflict means on purpose; the rest are only written if still free when imported
+        const result = preview.conflicts.length > 0
+          ? await calendarTools.createEvent(event, { source: 'ics-import' })
+          : await calendarTools.createEventIfFree(event, { source: 'ics-import' });
+        if (isConflictReport(result)) {
+          clashed++;
+          setPreviews((current) => current.map((p) => (p === preview ? { ...p, conflicts: result.conflicts, selected: false } : p)));
+          continue;
+        }
+        created++;
+        setPreviews((current) => current.map((p) => (p === preview ? { ...p, selected: false, imported: true } : p)));
+      }
+      if (clashed > 0) {
+        setErrorMessage(`Imported ${created} of ${selected.length} events. ${clashed} now conflict${clashed === 1 ? 's' : ''} with your calendar and ${clashed === 1 ? 'was' : 'were'} left out; tick ${clashed === 1 ? 'it' : 'them'} to import anyway.`);
+        if (created > 0) onSuccess?.();
+        return;
+      }
+      toast.success(`Imported ${created} event${created === 1 ? '' : 's'}`);
+      handleOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error importing events:', error);
+      setErrorMessage(`Imported ${created} of ${selected.length} events before an error. The imported ones are marked; import again to add the rest.`);
+      if (created > 0) onSuccess?.();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // e.g. "Tue, Oct 20 · 09:00–10:30" or "Wed, Oct 21 · All day"
+  const describeWhen = (event: IcsEvent) => {
+    if (event.start.date) {
+      return `${format(parseISO(event.start.date), 'EEE, MMM d')} · All day`;
+    }
+    const start = new Date(event.start.dateTime!);
+    const end = new Date(event.end.dateTime!);
+    return `${format(zonedDay(start, displayTimeZone), 'EEE, MMM d')} · ${formatTimeInZone(start, displayTimeZone)}–${formatTimeInZone(end, displayTimeZone)}`;
+  };
+
+  const selectedCount = previews.filter((preview) => preview.selected).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-indigo-500" />
+            Import .ics
+          </DialogTitle>
+          <DialogDescription>
+            Add events from an iCalendar file, e.g. a course schedule or an exported calendar
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="ics-file">Calendar file</Label>
+            <Input
+              id="ics-file"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={checking || importing}
+            />
+          </div>
+
+          {checking && (
+            <p className="text-sm text-muted-foreground">Checking {fileName} for conflicts...</p>
+          )}
+
+          {previews.length > 0 && (
+            <div className="max-h-80 overflow-y-auto space-y-1 rounded-lg border p-2">
+              {previews.map(({ event, conflicts, selected, imported }, index) => (
+                <label key={`${event.uid || event.summary}-${index}`} className="flex items-start gap-2 p-2 rounded-md hover:bg-muted/50 cursor-pointer">
+                  <Checkbox
+                    checked={selected}
+                    disabled={imported}
+                    onCheckedChange={(checked) => toggleSelected(index, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{event.summary}</div>
+                    <div className="text-xs text-muted-foreground">{describeWhen(event)}</div>
+                    {conflicts.length > 0 && (
+                      <div className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">
+                        Overlaps {conflicts.map((conflict) => `"${conflict.summary || 'another event'}"`).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    {imported && (
+                      <Badge variant="secondary" className="text-[10px] bg-green-100 text-green-800">
+                        Imported
+                      </Badge>
+                    )}
+                    {event.recurrence && (
+                      <Badge variant="outline" className="text-[10px] gap-1">
+                        <Repeat className="w-3 h-3" />
+                        Repeats
+                      </Badge>
+                    )}
+                    {conflicts.length > 0 && (
+                      <Badge variant="secondary" className="text-[10px] bg-amber-100 text-amber-800">
+                        Conflict
+                      </Badge>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {errorMessage && (
+            <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-amber-800 dark:text-amber-200">{errorMessage}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={selectedCount === 0 || checking || importing}
+            className="bg-gradient-to-r from-indigo-500 to-purple-500 hover:from-indigo-600 hover:to-purple-600 text-white"
+          >
+            {importing ? 'Importing...' : `Import ${selectedCount} event${selectedCount === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
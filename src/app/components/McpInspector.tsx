@@ -0,0 +1,215 @@
+import { useState, useEffect, useMemo } from "react";
+import { Activity, ChevronDown, ChevronRight, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Badge } from "@/app/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/app/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/app/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { useMcp } from "@/contexts/McpContext";
+import { mcpAuditLog, McpAuditEntry, McpAuditStatus } from "@/services/mcpAuditLog";
+
+// Tools that only read data can be replayed without confirmation
+const READ_ONLY_TOOL_PATTERN = /^((list|get|search|find)_|freebusy$)/;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+const STATUS_STYLES: Record<McpAuditStatus, string> = {
+  success: "bg-green-100 text-green-800 border-green-200",
+  error: "bg-red-100 text-red-800 border-red-200",
+  cancelled: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+/**
+ * Inspector for the MCP audit log - every tool call made through McpContext,
+ * with filtering and replay. Shown as a tab in Settings.
+ */
+export function McpInspector() {
+  const { callTool } = useMcp();
+  const [entries, setEntries] = useState<McpAuditEntry[]>(() => mcpAuditLog.getEntries());
+  const [serverFilter, setServerFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<"all" | McpAuditStatus>("all");
+  const [toolFilter, setToolFilter] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayCandidate, setReplayCandidate] = useState<McpAuditEntry | null>(null);
+
+  useEffect(() => {
+    return mcpAuditLog.subscribe(setEntries);
+  }, []);
+
+  const serverNames = useMemo(
+    () => Array.from(new Set(entries.map((e) => e.serverName))).sort(),
+    [entries]
+  );
+
+  // Newest first
+  const filteredEntries = useMemo(() => {
+    const query = toolFilter.trim().toLowerCase();
+    return entries
+      .filter((e) => serverFilter === "all" || e.serverName === serverFilter)
+      .filter((e) => statusFilter === "all" || e.status === statusFilter)
+      .filter((e) => !query || e.toolName.toLowerCase().includes(query) || (e.source || "").toLowerCase().includes(query))
+      .reverse();
+  }, [entries, serverFilter, statusFilter, toolFilter]);
+
+  const replay = async (entry: McpAuditEntry) => {
+    try {
+      await callTool(entry.serverName, entry.toolName, entry.args, { source: "inspector-replay" });
+      toast.success(`Replayed ${entry.toolName}`);
+    } catch {
+      // McpContext already showed the error; the failed replay is in the log
+    }
+  };
+
+  const handleReplay = (entry: McpAuditEntry) => {
+    if (READ_ONLY_TOOL_PATTERN.test(entry.toolName)) {
+      replay(entry);
+    } else {
+      setReplayCandidate(entry);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Activity className="w-4 h-4" />
+          MCP Call Log
+        </CardTitle>
+        <CardDescription>
+          The last {entries.length} tool calls made by the app, including changes Kaisey made to your calendar. Stored locally in your browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Select value={serverFilter} onValueChange={setServerFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Server" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All servers</SelectItem>
+              {serverNames.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as "all" | McpAuditStatus)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="success">Success</SelectItem>
+              <SelectItem value="error">Errors</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Input
+          placeholder="Filter by tool or source..."
+          value={toolFilter}
+          onChange={(e) => setToolFilter(e.target.value)}
+        />
+
+        {filteredEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {entries.length === 0 ? "No tool calls recorded yet." : "No calls match these filters."}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {filteredEntries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              return (
+                <div key={entry.id} className="rounded-lg border p-2 text-sm">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  >
+                    {isExpanded ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+                    <span className="font-mono text-xs font-medium truncate">{entry.toolName}</span>
+                    <Badge variant="outline" className={`text-[10px] ${STATUS_STYLES[entry.status]}`}>
+                      {entry.status}
+                    </Badge>
+                    <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                      {format(entry.timestamp, "MMM d, h:mm:ss a")}
+                    </span>
+                  </button>
+                  <div className="mt-1 pl-5 flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                    <span>{entry.serverName}</span>
+                    {entry.source && <span>via {entry.source}</span>}
+                    <span>{entry.durationMs} ms</span>
+                    {entry.status === "success" && <span>{formatSize(entry.resultSize)}</span>}
+                  </div>
+                  {isExpanded && (
+                    <div className="mt-2 pl-5 space-y-2">
+                      {entry.error && (
+                        <p className="text-xs text-red-600 break-words">{entry.error}</p>
+                      )}
+                      <pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-[11px] leading-tight">
+                        {JSON.stringify(entry.args, null, 2)}
+                      </pre>
+                      <Button size="sm" variant="outline" onClick={() => handleReplay(entry)}>
+                        <RotateCcw className="w-3 h-3 mr-1" />
+                        Replay this call
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <Button variant="ghost" size="sm" className="w-full text-muted-foreground" onClick={() => mcpAuditLog.clear()}>
+            <Trash2 className="w-3 h-3 mr-1" />
+            Clear log
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!replayCandidate} onOpenChange={(open) => !open && setReplayCandidate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replay {replayCandidate?.toolName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This sends the same request to {replayCandidate?.serverName} again and may change your real calendar (for example, create a duplicate event).
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (replayCandidate) replay(replayCandidate);
+                setReplayCandidate(null);
+              }}
+            >
+              Replay
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
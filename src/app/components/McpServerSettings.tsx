@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { Server, Plus, Pencil, Trash2, PlugZap, Loader2, RotateCcw, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textarea";
+import { Switch } from "@/app/components/ui/switch";
+import { Badge } from "@/app/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { useMcp } from "@/contexts/McpContext";
+import { mcpClientService, McpConnectionTestResult } from "@/services/mcpClient";
+import {
+  getBuiltInMcpServerConfigs,
+  getUserMcpServers,
+  isDemoMode,
+  saveUserMcpServers,
+  setDemoMode,
+  toServerConfig,
+  UserMcpServerConfig,
+} from "@/config/mcpServers";
+
+interface ServerDraft {
+  originalName: string | null; // null when adding a new server
+  name: string;
+  url: string;
+  description: string;
+  headers: string; // "Header-Name: value" per line
+  authToken: string;
+  enabled: boolean;
+}
+
+function formatHeaders(headers?: Record<string, string>): string {
+  return Object.entries(headers || {})
+    .map(([key, value]) => `${key}: ${value}`)
+    .join("\n");
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split("\n").forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator <= 0) return;
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (key) headers[key] = value;
+  });
+  return headers;
+}
+
+function draftToConfig(draft: ServerDraft): UserMcpServerConfig {
+  return {
+    name: draft.name.trim(),
+    url: draft.url.trim(),
+    description: draft.description.trim() || undefined,
+    headers: parseHeaders(draft.headers),
+    authToken: draft.authToken.trim() || undefined,
+    enabled: draft.enabled,
+  };
+}
+
+const HEALTH_LABELS: Record<string, string> = {
+  connecting: "Connecting",
+  healthy: "Connected",
+  degraded: "Reconnecting",
+  down: "Offline",
+};
+
+/**
+ * Settings panel for the MCP server registry
+ * Built-in servers come from env config; edits to them are stored as overrides.
+ */
+export function McpServerSettings() {
+  const { statuses } = useMcp();
+  const [userServers, setUserServers] = useState<UserMcpServerConfig[]>(getUserMcpServers);
+  const [draft, setDraft] = useState<ServerDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Map<string, McpConnectionTestResult>>(new Map());
+  const [demoMode, setDemoModeState] = useState(isDemoMode);
+
+  // Not the demo mocks: overrides saved from these rows outlive demo mode
+  const builtInServers = getBuiltInMcpServerConfigs();
+  const builtInNames = new Set(builtInServers.map((s) => s.name));
+
+  // Built-ins (with any override applied) followed by custom servers
+  const rows: Array<{ config: UserMcpServerConfig; builtIn: boolean; overridden: boolean }> = [
+    ...builtInServers.map((builtIn) => {
+      const override = userServers.find((s) => s.name === builtIn.name);
+      return {
+        config: override || {
+          name: builtIn.name,
+          url: builtIn.url,
+          headers: builtIn.headers,
+          enabled: builtIn.enabled,
+          description: builtIn.description,
+        },
+        builtIn: true,
+        overridden: !!override,
+      };
+    }),
+    ...userServers
+      .filter((s) => !builtInNames.has(s.name))
+      .map((config) => ({ config, builtIn: false, overridden: false })),
+  ];
+
+  const persist = (next: UserMcpServerConfig[]) => {
+    setUserServers(next);
+    saveUserMcpServers(next);
+  };
+
+  const upsert = (config: UserMcpServerConfig, originalName: string | null) => {
+    const next = userServers.filter((s) => s.name !== config.name && s.name !== originalName);
+    persist([...next, config]);
+  };
+
+  const handleToggle = (config: UserMcpServerConfig, enabled: boolean) => {
+    upsert({ ...config, enabled }, config.name);
+  };
+
+  const handleRemove = (name: string) => {
+    persist(userServers.filter((s) => s.name !== name));
+    setTestResults((prev) => {
+      const newMap = new Map(prev);
+      newMap.delete(name);
+      return newMap;
+    });
+  };
+
+  const startEdit = (config: UserMcpServerConfig | null) => {
+    setDraftError(null);
+    setTestResults((prev) => {
+      const newMap = new Map(prev);
+      newMap.delete("__draft");
+      return newMap;
+    });
+    setDraft(
+      config
+        ? {
+            originalName: config.name,
+            name: config.name,
+            url: config.url,
+            description: config.description || "",
+            headers: formatHeaders(config.headers),
+            authToken: config.authToken || "",
+            enabled: config.enabled,
+          }
+        : { originalName: null, name: "", url: "", description: "", headers: "", authToken: "", enabled: true }
+    );
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const config = draftToConfig(draft);
+    if (!config.name) {
+      setDraftError("Name is required.");
+      return;
+    }
+    if (!config.url) {
+      setDraftError("URL is required.");
+      return;
+    }
+    const nameTaken = config.name !== draft.originalName && rows.some((r) => r.config.name === config.name);
+    if (nameTaken) {
+      setDraftError(`A server named "${config.name}" already exists.`);
+      return;
+    }
+    upsert(config, draft.originalName);
+    setDraft(null);
+  };
+
+  const handleDemoModeChange = (enabled: boolean) => {
+    setDemoMode(enabled);
+    setDemoModeState(isDemoMode()); // Stays on when forced by VITE_MCP_DEMO_MODE
+  };
+
+  const handleTest = async (key: string, config: UserMcpServerConfig) => {
+    setTesting(key);
+    const result = await mcpClientService.testConnection(toServerConfig(config));
+    setTestResults((prev) => new Map(prev).set(key, result));
+    setTesting(null);
+  };
+
+  const renderTestResult = (key: string) => {
+    const result = testResults.get(key);
+    if (!result) return null;
+    return result.ok ? (
+      <p className="flex items-center gap-1 text-xs text-green-700">
+        <CheckCircle2 className="w-3 h-3" />
+        {result.serverInfo ? `${result.serverInfo.name} ${result.serverInfo.version} · ` : ""}
+        {result.tools.length} tools · {result.latencyMs} ms
+      </p>
+    ) : (
+      <p className="flex items-start gap-1 text-xs text-red-600 break-words">
+        <XCircle className="w-3 h-3 mt-0.5 shrink-0" />
+        {result.error}
+      </p>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Server className="w-4 h-4" />
+          MCP Servers
+        </CardTitle>
+        <CardDescription>
+          Add or edit the MCP servers Kaisey can use. Changes are stored locally in your browser and apply immediately.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="mcp-demo-mode">Demo mode</Label>
+            <p className="text-xs text-muted-foreground">
+              Use built-in sample calendar and Canvas data instead of your real accounts.
+            </p>
+          </div>
+          <Switch id="mcp-demo-mode" checked={demoMode} onCheckedChange={handleDemoModeChange} />
+        </div>
+
+        {rows.map(({ config, builtIn, overridden }) => {
+          const health = statuses.get(config.name)?.health;
+          const testKey = config.name;
+          return (
+            <div key={config.name} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm truncate">{config.name}</span>
+                {builtIn && (
+                  <Badge variant="outline" className="text-[10px]">
+                    {overridden ? "Built-in (edited)" : "Built-in"}
+                  </Badge>
+                )}
+                {health && config.enabled && (
+                  <Badge variant="outline" className="text-[10px]">
+                    {HEALTH_LABELS[health]}
+                  </Badge>
+                )}
+                <Switch
+                  className="ml-auto"
+                  checked={config.enabled}
+                  onCheckedChange={(checked) => handleToggle(config, checked)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground break-all">{config.url || "No URL configured"}</p>
+              {config.description && (
+                <p className="text-xs text-muted-foreground">{config.description}</p>
+              )}
+              {renderTestResult(testKey)}
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!config.url || testing === testKey}
+                  onClick={() => handleTest(testKey, config)}
+                >
+                  {testing === testKey ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <PlugZap className="w-3 h-3 mr-1" />}
+                  Test connection
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => startEdit(config)}>
+                  <Pencil className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+                {!builtIn && (
+                  <Button size="sm" variant="ghost" onClick={() => handleRemove(config.name)}>
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Remove
+                  </Button>
+                )}
+                {overridden && (
+                  <Button size="sm" variant="ghost" onClick={() => handleRemove(config.name)}>
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Reset
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {draft ? (
+          <div className="rounded-lg border border-blue-200 bg-blue-50/40 p-3 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="mcp-server-name">Name</Label>
+              <Input
+                id="mcp-server-name"
+                value={draft.name}
+                disabled={draft.originalName !== null && builtInNames.has(draft.originalName)}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. notion"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcp-server-url">URL</Label>
+              <Input
+                id="mcp-server-url"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                placeholder="https://example.com/mcp"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcp-server-description">Description</Label>
+              <Input
+                id="mcp-server-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcp-server-headers">Headers</Label>
+              <Textarea
+                id="mcp-server-headers"
+                value={draft.headers}
+                onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+                placeholder={"X-Api-Key: abc123\nOne header per line"}
+                className="font-mono text-xs"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcp-server-token">Auth token</Label>
+              <Input
+                id="mcp-server-token"
+                type="password"
+                value={draft.authToken}
+                onChange={(e) => setDraft({ ...draft, authToken: e.target.value })}
+                placeholder="Sent as Authorization: Bearer <token>"
+              />
+            </div>
+            {draftError && <p className="text-xs text-red-600">{draftError}</p>}
+            {renderTestResult("__draft")}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSaveDraft}>
+                Save
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!draft.url.trim() || testing === "__draft"}
+                onClick={() => handleTest("__draft", draftToConfig(draft))}
+              >
+                {testing === "__draft" ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <PlugZap className="w-3 h-3 mr-1" />}
+                Test connection
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" className="w-full" onClick={() => startEdit(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add server
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
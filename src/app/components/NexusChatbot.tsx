@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from "react";
-import { MessageSquare, Send, X, Brain, Check, Clock, Calendar, Sparkles, ExternalLink } from "lucide-react";
+import { MessageSquare, Send, X, Brain, Check, Clock, Calendar, Sparkles, ExternalLink, Square } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { ChatAction } from "./ChatAction";
 import { Button } from "@/app/components/ui/button";
@@ -10,9 +10,19 @@ import { ScrollArea } from "@/app/components/ui/scroll-area";
 import { motion, AnimatePresence } from "motion/react";
 import { getOpenAIApiKey, OPENAI_CHAT_MODEL } from "@/config/apiKey";
 import { useMcpServer } from "@/hooks/useMcpServer";
-import { useCalendar } from "@/contexts/CalendarContext";
+import { useMcp } from "@/contexts/McpContext";
+import { useCalendarTools } from "@/hooks/useCalendarTools";
+import { inferEventType, useCalendar } from "@/contexts/CalendarContext";
+import { useCanvas } from "@/contexts/CanvasContext";
+import { AttendeeResponseStatus, EventAttendee, isConflictReport, RecurringEditScope, toEventDateTime } from "@/services/calendarTools";
+import { formatTimeInZone, zonedDay, zonedTime } from "@/utils/timeZone";
+import { fromConflictReport } from "@/services/availability";
+import { isAbortError } from "@/services/mcpClient";
 import { format, startOfWeek, endOfWeek, addDays, addWeeks, addMonths, startOfDay, endOfDay, startOfMonth, endOfMonth } from "date-fns";
 import { getToday } from "@/utils/dateUtils";
+import { buildRRule, describeRecurrence, parseRRule } from "@/utils/recurrence";
+import { describeGuests, findKnownContact, guestLabel, RESPONSE_LABELS } from "@/utils/attendees";
+import { describeKaiseyMetadata, KaiseyMetadata, kaiseyProperties, priorityCategoryForEventType } from "@/utils/kaiseyMetadata";
 import { searchRelevantChunks, formatChunksForPrompt, initializeEmbeddings } from "@/utils/ragService";
 
 // ParsedEvent type (matching the format from googleCalendar.ts)
@@ -27,22 +37,21 @@ interface ParsedEvent {
   priority: "hard-block" | "flexible" | "optional";
   startDate: Date; // Required for AI functions to understand event timing
   endDate?: Date;
+  recurringEventId?: string; // Series id when this is one occurrence of a recurring event
+  attendees?: EventAttendee[];
+  responseStatus?: AttendeeResponseStatus; // The user's own RSVP when they were invited
+  calendarId?: string; // Calendar the event lives on; unset means primary
+  calendarName?: string;
+  timeZone?: string; // Zone the event was booked in
+  allDay?: boolean; // Date-only event; endDate is the day after its last day
+  busy?: boolean; // False for events marked free, which don't count as conflicts
+  kaisey?: KaiseyMetadata; // Set on events Kaisey created
 }
 
-// Google Calendar event structure from MCP server
-interface CalendarEvent {
-  id: string;
-  summary?: string;
-  start: {
-    dateTime?: string;
-    date?: string;
-  };
-  end: {
-    dateTime?: string;
-    date?: string;
-  };
-  location?: string;
-  description?: string;
+// Someone the user asked to invite; email is unknown until resolved
+interface RequestedGuest {
+  name?: string;
+  email?: string;
 }
 
 interface Message {
@@ -61,6 +70,9 @@ interface Message {
     priority?: "hard-block" | "flexible" | "optional"; // Hard Block vs Nice to Have
     googleCalendarLink?: string; // Deep link to Google Calendar event
     newPriorityOrder?: string[]; // For priority-change actions
+    recurringEventId?: string; // Set when the target is one occurrence of a recurring event
+    scope?: RecurringEditScope; // Which occurrences the user approved changing
+    calendarId?: string; // Calendar of the event being moved or cancelled
   };
 }
 
@@ -93,146 +105,33 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const isProcessingRef = useRef(false); // Prevent duplicate submissions
+  const abortControllerRef = useRef<AbortController | null>(null); // Cancels the in-flight message when the user presses stop
   const currentMessageIdRef = useRef<string | null>(null); // Track current response ID
   const messagesRef = useRef<Message[]>([]); // Always have access to latest messages
   
   // Use MCP server hook for Google Calendar
-  const { connected, loading: mcpLoading, error: mcpError, callTool, connect } = useMcpServer('google-calendar');
-
-  // Use CalendarContext to invalidate cache and refresh calendar after changes
-  const { invalidateCache: invalidateCalendarCache, fetchEvents: fetchCalendarContextEvents } = useCalendar();
-
-  // Helper to parse MCP CalendarEvent to ParsedEvent format
-  const parseMcpEventToParsed = (event: CalendarEvent): ParsedEvent | null => {
-    try {
-      const startTime = event.start?.dateTime || event.start?.date;
-      if (!startTime) return null;
-      
-      const start = new Date(startTime);
-      const end = new Date(event.end?.dateTime || event.end?.date || startTime);
-      const duration = Math.round((end.getTime() - start.getTime()) / (1000 * 60)); // minutes
-      
-      const now = new Date();
-      let status: "completed" | "current" | "upcoming" | "suggested" = "upcoming";
-      if (end < now) {
-        status = "completed";
-      } else if (start <= now && end >= now) {
-        status = "current";
-      }
-      
-      // Determine event type from summary/title
-      const summary = event.summary || 'Untitled Event';
-      const lowerSummary = summary.toLowerCase();
-      let type: "class" | "meeting" | "study" | "workout" | "networking" | "recruiting" | "buffer" = "meeting";
-      
-      if (lowerSummary.includes('class') || lowerSummary.includes('course') || lowerSummary.includes('lecture')) {
-        type = "class";
-      } else if (lowerSummary.includes('study') || lowerSummary.includes('homework') || lowerSummary.includes('assignment')) {
-        type = "study";
-      } else if (lowerSummary.includes('gym') || lowerSummary.includes('workout') || lowerSummary.includes('exercise')) {
-        type = "workout";
-      } else if (lowerSummary.includes('coffee') || lowerSummary.includes('networking') || lowerSummary.includes('chat')) {
-        type = "networking";
-      } else if (lowerSummary.includes('recruiting') || lowerSummary.includes('interview') || lowerSummary.includes('info session')) {
-        type = "recruiting";
-      } else if (lowerSummary.includes('buffer') || lowerSummary.includes('travel')) {
-        type = "buffer";
-      }
-      
-      const timeStr = start.toLocaleTimeString('en-US', { 
-        hour: '2-digit', 
-        minute: '2-digit', 
-        hour12: false 
-      });
-      
-      return {
-        id: event.id,
-        time: timeStr,
-        duration,
-        title: summary,
-        type,
-        status,
-        location: event.location,
-        priority: "hard-block" as const,
-        startDate: start,
-        endDate: end,
-      };
-    } catch (error) {
-      console.error('Error parsing MCP event:', error);
-      return null;
-    }
-  };
-
-  // Helper to parse MCP response and convert to ParsedEvent array
-  const parseMcpEventsResponse = (response: any): ParsedEvent[] => {
-    console.log('[Chatbot] parseMcpEventsResponse called with:', typeof response);
-
-    try {
-      let events: CalendarEvent[] = [];
-
-      if (!response) {
-        console.log('[Chatbot] Response is null/undefined');
-        return [];
-      }
-
-      if (Array.isArray(response)) {
-        console.log('[Chatbot] Response is array with', response.length, 'items');
-        // Response is an array of content items
-        const textContent = response.find((item: any) => item.type === 'text');
-        if (textContent?.text) {
-          console.log('[Chatbot] Found text content, parsing JSON...');
-          try {
-            events = JSON.parse(textContent.text);
-            console.log('[Chatbot] Parsed', events.length, 'events from text content');
-          } catch (parseError) {
-            console.error('[Chatbot] Error parsing JSON from text content:', parseError);
-            return [];
-          }
-        } else if (response.length > 0 && typeof response[0] === 'object' && 'id' in response[0]) {
-          // Response might be an array of events directly
-          console.log('[Chatbot] Response is array of events directly');
-          events = response as CalendarEvent[];
-        } else {
-          console.warn('[Chatbot] Unexpected response format:', response);
-          return [];
-        }
-      } else if (typeof response === 'string') {
-        // Response is a JSON string
-        console.log('[Chatbot] Response is string, parsing JSON...');
-        try {
-          events = JSON.parse(response);
-          console.log('[Chatbot] Parsed', events.length, 'events from string');
-        } catch (parseError) {
-          console.error('[Chatbot] Error parsing JSON string:', parseError);
-          return [];
-        }
-      } else if (typeof response === 'object' && response.content) {
-        // Response might be wrapped in a content object
-        console.log('[Chatbot] Response has content property, extracting...');
-        return parseMcpEventsResponse(response.content);
-      } else {
-        console.warn('[Chatbot] Unexpected response type:', typeof response, response);
-        return [];
-      }
-
-      // Ensure events is an array
-      if (!Array.isArray(events)) {
-        console.warn('[Chatbot] Parsed events is not an array:', events);
-        return [];
-      }
-
-      console.log('[Chatbot] Mapping', events.length, 'events to ParsedEvent format');
-      const parsed = events
-        .map(parseMcpEventToParsed)
-        .filter((event): event is ParsedEvent => event !== null);
-
-      console.log('[Chatbot] Successfully parsed', parsed.length, 'events');
-      return parsed;
-    } catch (error) {
-      console.error('[Chatbot] Error in parseMcpEventsResponse:', error);
-      return [];
-    }
-  };
+  const { connected, health: mcpHealth, loading: mcpLoading, error: mcpError, connect } = useMcpServer('google-calendar');
+  const calendarTools = useCalendarTools();
+  const { fetchEvents, invalidateCache, events: storedEvents, calendarForEvent, homeTimeZone, displayTimeZone } = useCalendar();
+  const { assignments: canvasAssignments, announcements: canvasAnnouncements } = useCanvas();
+
+  // Server-provided prompt templates (e.g. "Plan my week") shown as one-click actions
+  // Only prompts that need no arguments can run with one click
+  const { prompts: mcpPrompts, getPrompt } = useMcp();
+  const promptActions = React.useMemo(
+    () =>
+      Array.from(mcpPrompts.entries()).flatMap(([serverName, serverPrompts]) =>
+        serverPrompts
+          .filter((prompt) => !prompt.arguments?.some((arg) => arg.required))
+          .map((prompt) => ({
+            serverName,
+            name: prompt.name,
+            title: prompt.title || prompt.name,
+            description: prompt.description,
+          }))
+      ),
+    [mcpPrompts]
+  );
 
   // Parse date references from user input (tomorrow, next week, Monday, etc.)
   // Returns a date range that includes the target date and provides context
@@ -293,8 +192,9 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
     };
   };
 
-  // Load calendar events for context-awareness (loads current week by default)
-  const loadCalendarEvents = useCallback(async (dateRange?: { startDate: Date; endDate: Date }): Promise<ParsedEvent[]> => {
+  // Load calendar events for context-awareness (loads current week by default).
+  // Throws when the sync fails, so callers don't mistake a failed load for a free calendar.
+  const loadCalendarEvents = useCallback(async (dateRange?: { startDate: Date; endDate: Date }, signal?: AbortSignal): Promise<ParsedEvent[]> => {
     console.log('[Chatbot] loadCalendarEvents called, connected:', connected);
 
     if (!connected) {
@@ -303,38 +203,40 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
       return []; // Return empty array if not connected
     }
 
-    try {
-      // Default to current week if no date range specified (using global "today")
-      const today = getToday(); // Use actual system date
-      const startDate = dateRange?.startDate || startOfWeek(today, { weekStartsOn: 1 });
-      const endDate = dateRange?.endDate || endOfWeek(today, { weekStartsOn: 1 });
+    // Default to current week if no date range specified (using global "today")
+    const today = getToday(); // Use actual system date
+    const startDate = dateRange?.startDate || startOfWeek(today, { weekStartsOn: 1 });
+    const endDate = dateRange?.endDate || endOfWeek(today, { weekStartsOn: 1 });
 
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+    startDate.setHours(0, 0, 0, 0);
+    endDate.setHours(23, 59, 59, 999);
 
-      console.log('[Chatbot] Fetching events from', startDate.toISOString(), 'to', endDate.toISOString());
+    console.log('[Chatbot] Fetching events from', startDate.toISOString(), 'to', endDate.toISOString());
 
-      const response = await callTool('list_events', {
-        calendarId: 'primary',
-        timeMin: startDate.toISOString(),
-        timeMax: endDate.toISOString(),
-        maxResults: 500, // Increased for week/month views
-      });
-
-      console.log('[Chatbot] MCP list_events raw response:', JSON.stringify(response).substring(0, 500));
+    // Served from the calendar context's synced store, so repeated loads don't hit the API
+    const { events: parsedEvents, error } = await fetchEvents(startDate, endDate);
+    signal?.throwIfAborted();
+    if (error) {
+      console.error('[Chatbot] Error loading calendar events:', error);
+      throw new Error(error);
+    }
+    console.log('[Chatbot] Parsed events count:', parsedEvents.length);
+    console.log('[Chatbot] Parsed events:', parsedEvents.map(e => ({ title: e.title, time: e.time, startDate: e.startDate?.toISOString() })));
 
-      const parsedEvents = parseMcpEventsResponse(response);
-      console.log('[Chatbot] Parsed events count:', parsedEvents.length);
-      console.log('[Chatbot] Parsed events:', parsedEvents.map(e => ({ title: e.title, time: e.time, startDate: e.startDate?.toISOString() })));
+    setCalendarEvents(parsedEvents);
+    return parsedEvents;
+  }, [connected, fetchEvents, connect]);
 
-      setCalendarEvents(parsedEvents);
-      return parsedEvents || []; // Return events, ensure it's an array
-    } catch (error) {
-      console.error('[Chatbot] Error loading calendar events:', error);
-      setCalendarEvents([]); // Set empty array on error
-      return []; // Return empty array if load fails
+  // Reload after a write; the store may not have seen the change notification yet.
+  // Undefined when the reload failed - the write went through, but the chatbot doesn't know the new state.
+  const reloadCalendarEvents = async (): Promise<ParsedEvent[] | undefined> => {
+    invalidateCache();
+    try {
+      return await loadCalendarEvents();
+    } catch {
+      return undefined;
     }
-  }, [connected, callTool, connect]);
+  };
 
   // Generate simple welcome message with priority ranking
   const generatePersonalizedGreeting = useCallback(() => {
@@ -362,6 +264,8 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
         }));
         
         // Greeting is generated separately on mount
+      }).catch(() => {
+        // The calendar context shows the sync error
       });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -394,8 +298,8 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
       return ["I've loaded your calendar, but I don't see any events scheduled. Would you like me to help you plan your day?"];
     }
 
-    // Check for tight schedules (events back-to-back)
-    const sortedEvents = [...events].sort((a, b) => {
+    // Check for tight schedules (events back-to-back); all-day events have no times to squeeze
+    const sortedEvents = events.filter(e => !e.allDay).sort((a, b) => {
       const timeA = a.time.split(':').map(Number);
       const timeB = b.time.split(':').map(Number);
       return timeA[0] * 60 + timeA[1] - (timeB[0] * 60 + timeB[1]);
@@ -434,110 +338,6 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
     return suggestions;
   }, []);
 
-  // Helper function to find available time slots based on activity type and existing events
-  const findAvailableTimeSlots = useCallback((
-    activityType: string,
-    existingEvents: ParsedEvent[],
-    targetDate: Date,
-    durationMinutes: number = 60
-  ): { time: string; label: string }[] => {
-    const slots: { time: string; label: string }[] = [];
-    const lowerActivity = activityType.toLowerCase();
-
-    // Define preferred time ranges based on activity type
-    let preferredRanges: { start: number; end: number; label: string }[] = [];
-
-    if (/dinner|supper|evening meal/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 18, end: 21, label: "Evening" },
-        { start: 19, end: 22, label: "Late Evening" },
-      ];
-    } else if (/lunch|midday meal/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 11, end: 14, label: "Midday" },
-        { start: 12, end: 15, label: "Afternoon" },
-      ];
-    } else if (/breakfast|morning meal/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 7, end: 10, label: "Morning" },
-        { start: 8, end: 11, label: "Late Morning" },
-      ];
-    } else if (/gym|workout|exercise|fitness|run|jog/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 6, end: 9, label: "Early Morning" },
-        { start: 17, end: 20, label: "Evening" },
-        { start: 12, end: 14, label: "Lunch Break" },
-      ];
-    } else if (/study|homework|assignment|reading/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 9, end: 12, label: "Morning" },
-        { start: 14, end: 17, label: "Afternoon" },
-        { start: 19, end: 22, label: "Evening" },
-      ];
-    } else if (/meeting|call|interview/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 9, end: 12, label: "Morning" },
-        { start: 13, end: 17, label: "Afternoon" },
-      ];
-    } else if (/coffee|tea|break/i.test(lowerActivity)) {
-      preferredRanges = [
-        { start: 10, end: 11, label: "Mid-Morning" },
-        { start: 15, end: 16, label: "Afternoon" },
-      ];
-    } else {
-      // Default: business hours
-      preferredRanges = [
-        { start: 9, end: 12, label: "Morning" },
-        { start: 13, end: 17, label: "Afternoon" },
-        { start: 18, end: 21, label: "Evening" },
-      ];
-    }
-
-    // Get busy times for the target date
-    const targetDateStr = format(targetDate, 'yyyy-MM-dd');
-    const busySlots = existingEvents
-      .filter(e => e.startDate && format(e.startDate, 'yyyy-MM-dd') === targetDateStr)
-      .map(e => ({
-        start: e.startDate.getHours() * 60 + e.startDate.getMinutes(),
-        end: (e.endDate || e.startDate).getHours() * 60 + (e.endDate || e.startDate).getMinutes() + (e.endDate ? 0 : e.duration),
-      }));
-
-    // Find available slots in preferred ranges
-    for (const range of preferredRanges) {
-      // Check each 30-minute interval in the range
-      for (let hour = range.start; hour < range.end; hour++) {
-        for (const minute of [0, 30]) {
-          const slotStart = hour * 60 + minute;
-          const slotEnd = slotStart + durationMinutes;
-
-          // Skip if slot extends beyond the range
-          if (slotEnd > range.end * 60) continue;
-
-          // Check if slot conflicts with any existing event
-          const hasConflict = busySlots.some(busy =>
-            (slotStart < busy.end && slotEnd > busy.start)
-          );
-
-          if (!hasConflict) {
-            const timeStr = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-            const displayTime = format(new Date(2000, 0, 1, hour, minute), 'h:mm a');
-            slots.push({
-              time: timeStr,
-              label: `${displayTime} (${range.label})`,
-            });
-
-            // Only add a few slots per range
-            if (slots.filter(s => s.label.includes(range.label)).length >= 2) break;
-          }
-        }
-        if (slots.filter(s => s.label.includes(range.label)).length >= 2) break;
-      }
-    }
-
-    // Limit to top 3 suggestions
-    return slots.slice(0, 3);
-  }, []);
-
   const scrollToBottom = () => {
     // Use setTimeout to ensure DOM is updated
     setTimeout(() => {
@@ -561,7 +361,10 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
     userMessage: string,
     conversationHistory: Array<{role: string, content: string}>,
     calendarContext?: ParsedEvent[],
-    userPriorities?: string[]
+    userPriorities?: string[],
+    signal?: AbortSignal,
+    // Set when the calendar couldn't be loaded; calendarContext is then empty but not "no events"
+    calendarError?: string
   ): Promise<string> => {
     const apiKey = getOpenAIApiKey();
     if (!apiKey) {
@@ -594,13 +397,26 @@ export function NexusChatbot({ onScheduleChange, onSendMessageFromExternal, onPr
     if (calendarContext && calendarContext.length > 0) {
       // Format events with full date/time information
       const formattedEvents = calendarContext.map(e => {
-        const dateStr = e.startDate ? format(e.startDate, 'EEE, MMM d, yyyy') : 'Unknown date';
-        return `- "${e.title}" on ${dateStr} at ${e.time} (${e.duration}min, type: ${e.type})`;
+        const dateStr = e.startDate ? format(e.allDay ? e.startDate : zonedDay(e.startDate, displayTimeZone), 'EEE, MMM d, yyyy') : 'Unknown date';
+        const guests = describeGuests(e.attendees);
+        const guestText = guests.length > 0 ? `; guests: ${guests.join(', ')}` : '';
+        const rsvpText = e.responseStatus ? `; user's RSVP: ${RESPONSE_LABELS[e.responseStatus]}` : '';
+        const calendarText = e.calendarName ? `; calendar: ${e.calendarName}` : '';
+        const freeText = e.busy === false ? '; marked free, not a conflict' : '';
+        const kaiseyText = describeKaiseyMetadata(e.kaisey);
+        const ownerText = kaiseyText ? `; ${kaiseyText}` : '';
+        if (e.allDay && e.endDate) {
+          const lastDay = addDays(e.endDate, -1);
+          const untilText = lastDay > e.startDate ? ` through ${format(lastDay, 'EEE, MMM d, yyyy')}` : '';
+          return `- "${e.title}" all day on ${dateStr}${untilText} (type: ${e.type}${calendarText}${freeText}${ownerText}${guestText}${rsvpText})`;
+        }
+        return `- "${e.title}" on ${dateStr} at ${e.time} (${e.duration}min, type: ${e.type}${calendarText}${freeText}${ownerText}${guestText}${rsvpText})`;
       }).join('\n');
 
       calendarContextText = `
 
 **TODAY'S DATE: ${todayStr}**
+**TIME ZONE: ${displayTimeZone}** (all times below are in this zone)
 
 **USER'S CALENDAR EVENTS (from Google Calendar):**
 ${formattedEvents}
@@ -612,6 +428,19 @@ ${formattedEvents}
 4. You can have normal conversations too - not every message is about scheduling.`;
 
       console.log('[Chatbot] Calendar context for AI:', formattedEvents);
+    } else if (calendarError) {
+      calendarContextText = `
+
+**TODAY'S DATE: ${todayStr}**
+
+**USER'S CALENDAR:** Could not be loaded (${calendarError}).
+
+**CRITICAL RULES:**
+1. You do NOT know what is on the user's calendar. Never say they are free or have no events.
+2. If asked about their schedule or to make a change, explain that the calendar couldn't be loaded and suggest checking the connection in Settings.
+3. You can have normal conversations - not every message is about scheduling.`;
+
+      console.warn('[Chatbot] Calendar unavailable for AI context:', calendarError);
     } else {
       calendarContextText = `
 
@@ -627,6 +456,30 @@ ${formattedEvents}
       console.log('[Chatbot] No calendar events to provide context');
     }
 
+    // Coursework from Canvas, so questions like "what's due this week?" get real answers
+    let courseworkContextText = '';
+    if (canvasAssignments.length > 0 || canvasAnnouncements.length > 0) {
+      const formattedAssignments = canvasAssignments.map(a => {
+        const kindText = a.kind === 'quiz' ? 'quiz' : 'assignment';
+        const pointsText = a.pointsPossible ? `, ${a.pointsPossible} pts` : '';
+        const statusText = a.status === 'completed' ? ', submitted' : '';
+        return `- "${a.title}" (${kindText}, ${a.course}) due ${a.dueDate}${pointsText}${statusText}`;
+      }).join('\n');
+      const formattedAnnouncements = canvasAnnouncements.slice(0, 5).map(a =>
+        `- ${a.course}, ${format(a.postedAt, 'MMM d')}: "${a.title}" - ${a.message.slice(0, 200)}`
+      ).join('\n');
+
+      courseworkContextText = `
+
+**USER'S COURSEWORK (from Canvas):**
+${formattedAssignments || 'Nothing due in the next 30 days.'}
+
+**RECENT COURSE ANNOUNCEMENTS:**
+${formattedAnnouncements || 'None in the last two weeks.'}
+
+Only mention assignments, quizzes and announcements listed above; do NOT invent coursework.`;
+    }
+
     const systemPrompt = `You are Kaisey, a friendly AI assistant for MBA students. You help with scheduling but can also have normal conversations.
 
 **Your Capabilities:**
@@ -643,6 +496,7 @@ ${formattedEvents}
 - If no events are listed, say so honestly - do NOT invent fake events
 - Not every message needs a scheduling action - sometimes users just want to chat or ask questions
 ${calendarContextText}
+${courseworkContextText}
 ${playbookKnowledge}
 
 **When the user asks about their schedule:**
@@ -682,6 +536,7 @@ ${playbookKnowledge}
           temperature: 0.4, // Reduced for more factual, less creative responses
           max_completion_tokens: 800, // Increased to accommodate RAG-enhanced responses
         }),
+        signal,
       });
 
       if (!response.ok) {
@@ -709,6 +564,9 @@ ${playbookKnowledge}
     }
 
     isProcessingRef.current = true;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
     
     if (!externalMessage) {
       setInputValue("");
@@ -779,12 +637,16 @@ ${playbookKnowledge}
         end: dateRange.endDate.toISOString()
       });
 
-      // Load events for the detected date range and use the returned events directly
-      const relevantEvents = await loadCalendarEvents(dateRange);
-      console.log('[Chatbot] Loaded events for AI context:', relevantEvents.length, 'events');
-
-      // Ensure relevantEvents is an array (defensive programming)
-      const eventsArray = Array.isArray(relevantEvents) ? relevantEvents : [];
+      // Load events for the detected date range and use the returned events directly.
+      // If that fails the AI is told the calendar couldn't be read, not that it's empty.
+      let eventsArray: ParsedEvent[] = [];
+      let calendarError: string | undefined;
+      try {
+        eventsArray = await loadCalendarEvents(dateRange, signal);
+      } catch (error: any) {
+        if (isAbortError(error, signal)) throw error;
+        calendarError = error.message || 'Failed to load calendar events';
+      }
       console.log('[Chatbot] Passing', eventsArray.length, 'events to callOpenAI');
 
       // Call OpenAI API with calendar context, session state, and RAG playbook knowledge
@@ -793,7 +655,9 @@ ${playbookKnowledge}
         userMessageWithContext,
         conversationHistory,
         eventsArray.length > 0 ? eventsArray : undefined,
-        undefined // priorities - could be passed as prop in future
+        undefined, // priorities - could be passed as prop in future
+        signal,
+        calendarError
       );
 
       // Parse response to determine if it's an action or regular message
@@ -820,21 +684,23 @@ ${playbookKnowledge}
 
       // Check for specific scheduling intents - expanded to include more common phrases
       // BUT exclude if it's a query intent or priority change intent
-      const hasScheduleIntent = !hasQueryIntent && !hasPriorityChangeIntent && /\b(schedule|block time|study for)\b|add .* (at|to|for)|create .* (at|to|for)|put .* (at|on|in)|book|set up/i.test(messageToSend);
+      // Inviting someone emails them, so it is never auto-executed
+      const hasInviteIntent = !hasQueryIntent && !hasPriorityChangeIntent && /\binvit(e|ing)\b/i.test(messageToSend);
+      const hasScheduleIntent = hasInviteIntent || (!hasQueryIntent && !hasPriorityChangeIntent && /\b(schedule|block time|study for)\b|add .* (at|to|for)|create .* (at|to|for)|put .* (at|on|in)|book|set up/i.test(messageToSend));
       const hasInsteadOfIntent = /instead of|replace/i.test(messageToSend);
       const hasDeleteIntent = !hasPriorityChangeIntent && /delete|cancel|remove|clear/i.test(messageToSend) &&
         !/don't delete|don't cancel|don't remove/i.test(messageToSend);
       const hasMoveIntent = !hasQueryIntent && !hasPriorityChangeIntent && /move|reschedule|shift|change.*(time|to \d)|push.*(to|back|forward)|edit|update|modify/i.test(messageToSend) &&
         !/don't move|don't reschedule|don't change/i.test(messageToSend);
 
-      console.log('[Chatbot] Intent detection:', { hasPriorityChangeIntent, hasQueryIntent, hasScheduleIntent, hasInsteadOfIntent, hasDeleteIntent, hasMoveIntent, lowerInput });
+      console.log('[Chatbot] Intent detection:', { hasPriorityChangeIntent, hasQueryIntent, hasScheduleIntent, hasInviteIntent, hasInsteadOfIntent, hasDeleteIntent, hasMoveIntent, lowerInput });
 
       // Handle PRIORITY CHANGE intent - ask for approval before changing priorities
       if (hasPriorityChangeIntent) {
         console.log('[Chatbot] User has PRIORITY CHANGE intent');
 
         // Use AI to determine the new priority order
-        const newPriorityOrder = await extractPriorityOrderWithAI(messageToSend);
+        const newPriorityOrder = await extractPriorityOrderWithAI(messageToSend, signal);
 
         if (newPriorityOrder && newPriorityOrder.length === 5) {
           // Create a human-readable description of the change
@@ -883,7 +749,7 @@ ${playbookKnowledge}
       
       // Determine if this is a simple addition (low-stakes) or complex operation (requires approval)
       // NEVER treat query intents as additions
-      const isSimpleAddition = !hasQueryIntent && hasScheduleIntent && !hasInsteadOfIntent &&
+      const isSimpleAddition = !hasQueryIntent && hasScheduleIntent && !hasInsteadOfIntent && !hasInviteIntent &&
         !/(?:move|reschedule|shift|cancel|delete|replace|instead)/i.test(messageToSend);
       
       // Determine if this is a delete request
@@ -967,73 +833,23 @@ ${playbookKnowledge}
 
         // Use AI to extract smart event details with calendar context
         // Pass pending event context for follow-up "schedule it at X" messages
-        const eventDetails = await extractEventDetailsWithAI(messageToSend, eventsArray, sessionState.pendingEvent)
+        const eventDetails = await extractEventDetailsWithAI(messageToSend, eventsArray, sessionState.pendingEvent, signal)
           || parseEventDetails(messageToSend); // Fallback to basic parsing
 
         console.log('[Chatbot] Auto-execute: extracted event details:', eventDetails);
 
         if (eventDetails) {
-          // Check for conflicts before creating the event
-          const eventStart = eventDetails.start.getTime();
-          const eventEnd = eventDetails.end.getTime();
-          const conflictingEvent = eventsArray.find(existingEvent => {
-            if (!existingEvent.startDate || !existingEvent.endDate) return false;
-            const existingStart = existingEvent.startDate.getTime();
-            const existingEnd = existingEvent.endDate.getTime();
-            // Check if times overlap
-            return (eventStart < existingEnd && eventEnd > existingStart);
-          });
-
-          if (conflictingEvent) {
-            console.log('[Chatbot] Auto-execute: Conflict detected with:', conflictingEvent.title);
-
-            // Find alternative time slots based on the activity type
-            const durationMinutes = Math.round((eventDetails.end.getTime() - eventDetails.start.getTime()) / (1000 * 60));
-            const alternativeSlots = findAvailableTimeSlots(
-              eventDetails.title,
-              eventsArray,
-              eventDetails.start,
-              durationMinutes
-            );
+          // On the calendar the user picked for this kind of event
+          const calendarId = calendarForEvent(eventDetails.title);
 
-            // Save pending event for follow-up "schedule it at X" messages
-            setSessionState(prev => ({
-              ...prev,
-              pendingEvent: {
-                title: eventDetails.title,
-                durationMinutes: durationMinutes,
-                originalDate: eventDetails.start,
-              }
-            }));
-
-            // Build suggestion message with alternatives
-            let suggestionText = `I can't add "${eventDetails.title}" at ${format(eventDetails.start, 'h:mm a')} because you already have "${conflictingEvent.title}" scheduled at that time.`;
-
-            if (alternativeSlots.length > 0) {
-              suggestionText += `\n\n**Available time slots for ${eventDetails.title}:**\n`;
-              alternativeSlots.forEach((slot, index) => {
-                suggestionText += `${index + 1}. ${slot.label}\n`;
-              });
-              suggestionText += `\nJust say something like "schedule it at ${alternativeSlots[0].label.split(' (')[0]}" to book one of these times.`;
-            } else {
-              suggestionText += ` Please specify a different time.`;
-            }
-
-            const conflictMessage: Message = {
-              id: messageId,
-              type: "agent",
-              content: suggestionText,
-              timestamp: new Date(),
-            };
-            setMessages((prev) => [...prev, conflictMessage]);
-            return; // Don't create the event
-          }
+          // Nothing is written once the user pressed stop
+          signal.throwIfAborted();
 
           // Add temporary message
           const tempMessage: Message = {
             id: messageId,
             type: "agent",
-            content: `Adding "${eventDetails.title}" to your calendar on ${format(eventDetails.start, 'EEEE, MMM d')} at ${format(eventDetails.start, 'h:mm a')}...`,
+            content: `Adding "${eventDetails.title}" to your calendar on ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)}...`,
             timestamp: new Date(),
           };
           setMessages((prev) => [...prev, tempMessage]);
@@ -1042,43 +858,73 @@ ${playbookKnowledge}
           const isHardBlock = /(?:class|meeting|interview|exam|deadline|must|required|critical)/i.test(messageToSend);
           const priority = isHardBlock ? "hard-block" : "flexible";
 
-          console.log('[Chatbot] Auto-execute: calling create_event for:', eventDetails.title, 'on', format(eventDetails.start, 'EEEE, MMM d'), 'at', format(eventDetails.start, 'h:mm a'));
+          console.log('[Chatbot] Auto-execute: calling create_event for:', eventDetails.title, 'on', format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d'), 'at', formatTimeInZone(eventDetails.start, displayTimeZone));
 
-          // Create the event
-          callTool('create_event', {
-              calendarId: 'primary',
+          // Created only if it conflicts with nothing on any calendar
+          calendarTools.createEventIfFree({
+              calendarId,
               summary: eventDetails.title,
               description: `Added via Kaisey: ${messageToSend}\nPriority: ${priority}`,
-              start: { dateTime: eventDetails.start.toISOString() },
-              end: { dateTime: eventDetails.end.toISOString() },
-            }).then(async (response: any) => {
-              console.log('[Chatbot] Auto-execute: create_event response:', response);
-
-              // Invalidate CalendarContext cache - this won't trigger a fetch, just clears cache
-              // Components will refetch when they need to
-              invalidateCalendarCache();
-
-              // Get event ID from response for undo functionality
-              let createdEventId: string | undefined;
-              if (typeof response === 'string') {
-                try {
-                  const parsed = JSON.parse(response);
-                  createdEventId = parsed?.id;
-                } catch (e) {
-                  // Response might be event ID directly
-                  createdEventId = response;
+              // Google needs a time zone to expand a series
+              start: toEventDateTime(eventDetails.start, homeTimeZone),
+              end: toEventDateTime(eventDetails.end, homeTimeZone),
+              recurrence: eventDetails.recurrence,
+              // Hard blocks are locked so later recommendations leave them alone
+              privateProperties: kaiseyProperties({
+                source: "chatbot",
+                priorityCategory: priorityCategoryForEventType(inferEventType(eventDetails.title)),
+                locked: priority === "hard-block",
+              }),
+            }, { source: 'chatbot-auto', signal }).then(async (result) => {
+              if (isConflictReport(result)) {
+                const { conflicts, alternatives: alternativeSlots } = fromConflictReport(result, displayTimeZone);
+                const conflictingEvent = conflicts[0];
+                console.log('[Chatbot] Auto-execute: Conflict detected with:', conflictingEvent.summary);
+                const durationMinutes = Math.round((eventDetails.end.getTime() - eventDetails.start.getTime()) / (1000 * 60));
+
+                // Save pending event for follow-up "schedule it at X" messages
+                setSessionState(prev => ({
+                  ...prev,
+                  pendingEvent: {
+                    title: eventDetails.title,
+                    durationMinutes: durationMinutes,
+                    originalDate: eventDetails.start,
+                  }
+                }));
+
+                // Build suggestion message with alternatives
+                let suggestionText = `I can't add "${eventDetails.title}" at ${formatTimeInZone(eventDetails.start, displayTimeZone)} because you already have "${conflictingEvent.summary || 'another event'}" scheduled at that time.`;
+
+                if (alternativeSlots.length > 0) {
+                  suggestionText += `\n\n**Available time slots for ${eventDetails.title}:**\n`;
+                  alternativeSlots.forEach((slot, index) => {
+                    suggestionText += `${index + 1}. ${slot.label}\n`;
+                  });
+                  suggestionText += `\nJust say something like "schedule it at ${alternativeSlots[0].label.split(' (')[0]}" to book one of these times.`;
+                } else {
+                  suggestionText += ` Please specify a different time.`;
                 }
-              } else if (response?.id) {
-                createdEventId = response.id;
+
+                // Replace the "Adding..." message; nothing was created
+                setMessages((prev) => prev.map((msg) =>
+                  msg.id === messageId ? { ...msg, content: suggestionText } : msg
+                ));
+                return;
               }
-              
+
+              const createdEvent = result;
+              console.log('[Chatbot] Auto-execute: created event', createdEvent.id);
+
+              // Event ID for undo functionality
+              const createdEventId: string | undefined = createdEvent.id;
+
               // Generate Google Calendar deep link
-              const googleCalendarLink = createdEventId 
+              const googleCalendarLink = createdEvent.htmlLink || (createdEventId
                 ? `https://calendar.google.com/calendar/event?eid=${encodeURIComponent(createdEventId)}`
-                : undefined;
+                : undefined);
 
               // Reload calendar to update state
-              const updatedEvents = await loadCalendarEvents();
+              const updatedEvents = await reloadCalendarEvents();
               setSessionState(prev => ({
                 ...prev,
                 lastUpdate: new Date(),
@@ -1092,23 +938,14 @@ ${playbookKnowledge}
               
               // Show toast with undo option
               toastFn.success("Event added to calendar", {
-                description: `${eventDetails.title} scheduled for ${format(eventDetails.start, 'EEEE, MMM d')} at ${format(eventDetails.start, 'h:mm a')}`,
+                description: `${eventDetails.title} scheduled for ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)}${eventDetails.recurrence ? ` (${describeRecurrence(eventDetails.recurrence)})` : ''}`,
                 action: {
                   label: "Undo",
                   onClick: async () => {
                     if (createdEventId) {
                       try {
-                        await callTool('delete_event', {
-                          calendarId: 'primary',
-                          eventId: createdEventId,
-                        });
-                        invalidateCalendarCache();
-                        await loadCalendarEvents();
-                        // Refresh CalendarContext for app calendar views
-                        const today = getToday();
-                        const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-                        const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
-                        await fetchCalendarContextEvents(weekStart, weekEnd);
+                        await calendarTools.deleteEvent({ calendarId, eventId: createdEventId }, { source: 'chatbot-undo' });
+                        await reloadCalendarEvents();
                         toastFn.success("Event removed");
                       } catch (e) {
                         console.error("Error undoing event:", e);
@@ -1124,7 +961,7 @@ ${playbookKnowledge}
                   ? {
                       ...msg,
                       type: "auto-executed" as const,
-                      content: `✓ Added "${eventDetails.title}" on ${format(eventDetails.start, 'EEEE, MMM d')} at ${format(eventDetails.start, 'h:mm a')}. ${googleCalendarLink ? `[View in Google Calendar](${googleCalendarLink})` : ''}`,
+                      content: `✓ Added "${eventDetails.title}" on ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)}${eventDetails.recurrence ? `, repeating ${describeRecurrence(eventDetails.recurrence)?.toLowerCase()}` : ''}. ${googleCalendarLink ? `[View in Google Calendar](${googleCalendarLink})` : ''}`,
                       action: {
                         type: "add",
                         details: "Event added",
@@ -1138,6 +975,15 @@ ${playbookKnowledge}
                   : msg
               ));
             }).catch((error) => {
+              // Stopped mid-call: the server may have written it before the stop reached it
+              if (isAbortError(error, signal)) {
+                setMessages((prev) => prev.map((msg) =>
+                  msg.id === messageId
+                    ? { ...msg, content: `Stopped while adding "${eventDetails.title}". It may already be on your calendar, so check before adding it again.` }
+                    : msg
+                ));
+                return;
+              }
               console.error("Error auto-executing event:", error);
               const { toast: toastFn } = require("sonner");
               toastFn.error("Failed to add event", {
@@ -1160,17 +1006,27 @@ ${playbookKnowledge}
         }
       }
 
+      // The AI's pick of the event to delete, once asked (null: no match)
+      let deleteMatch: { id: string; title: string } | null | undefined;
+
       // For simple deletions, use AI to find the event to delete
       // IMPORTANT: Only run for CANCEL/DELETE actions
       if (hasDeleteIntent && actionType === "cancel" && connected && eventsArray.length > 0) {
         console.log('[Chatbot] Auto-execute DELETE: finding event to delete...');
 
         // Use AI to find the matching event
-        const eventToDelete = await findEventToDeleteWithAI(messageToSend, eventsArray);
-        
-        if (eventToDelete) {
+        const eventToDelete = await findEventToDeleteWithAI(messageToSend, eventsArray, signal);
+        deleteMatch = eventToDelete;
+        // Recurring events go through approval so the user can pick this one or all future
+        const targetEvent = eventToDelete ? eventsArray.find(e => e.id === eventToDelete.id) : undefined;
+        const isRecurring = !!targetEvent?.recurringEventId;
+
+        if (eventToDelete && !isRecurring) {
           console.log('[Chatbot] Auto-execute delete: found event:', eventToDelete);
 
+          // Nothing is deleted once the user pressed stop
+          signal.throwIfAborted();
+
           // Add temporary message
           const tempMessage: Message = {
             id: messageId,
@@ -1181,17 +1037,11 @@ ${playbookKnowledge}
           setMessages((prev) => [...prev, tempMessage]);
 
           // Delete the event
-          callTool('delete_event', {
-            calendarId: 'primary',
-            eventId: eventToDelete.id,
-          }).then(async () => {
+          calendarTools.deleteEvent({ calendarId: targetEvent?.calendarId, eventId: eventToDelete.id }, { source: 'chatbot-auto', signal }).then(async () => {
             console.log('[Chatbot] Auto-execute delete: event deleted');
 
-            // Invalidate CalendarContext cache
-            invalidateCalendarCache();
-
             // Reload calendar to update chatbot's local state
-            const updatedEvents = await loadCalendarEvents();
+            const updatedEvents = await reloadCalendarEvents();
             setSessionState(prev => ({
               ...prev,
               lastUpdate: new Date(),
@@ -1199,12 +1049,6 @@ ${playbookKnowledge}
               lastAction: "cancel",
             }));
 
-            // Also refresh CalendarContext so app calendar views update
-            const today = getToday();
-            const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-            const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
-            await fetchCalendarContextEvents(weekStart, weekEnd);
-
             // Import toast for notification
             const { toast: toastFn } = await import("sonner");
             
@@ -1224,6 +1068,15 @@ ${playbookKnowledge}
                 : msg
             ));
           }).catch((error) => {
+            // Stopped mid-call: the server may have deleted it before the stop reached it
+            if (isAbortError(error, signal)) {
+              setMessages((prev) => prev.map((msg) =>
+                msg.id === messageId
+                  ? { ...msg, content: `Stopped while deleting "${eventToDelete.title}". It may already be gone from your calendar.` }
+                  : msg
+              ));
+              return;
+            }
             console.error("Error auto-executing delete:", error);
             const { toast: toastFn } = require("sonner");
             toastFn.error("Failed to delete event", {
@@ -1243,7 +1096,7 @@ ${playbookKnowledge}
 
           // Return early - we've handled this as auto-execute
           return;
-        } else {
+        } else if (!eventToDelete) {
           // Couldn't find matching event, let AI respond normally
           console.log('[Chatbot] Auto-execute delete: no matching event found');
         }
@@ -1251,8 +1104,11 @@ ${playbookKnowledge}
 
       // For cancel actions that need approval, try to find the event ID
       let foundEventId: string | undefined;
+      let foundRecurringEventId: string | undefined;
+      let agentContent = aiResponse;
       if (actionType === "cancel" && eventsArray.length > 0) {
-        const eventToDelete = await findEventToDeleteWithAI(messageToSend, eventsArray);
+        // A recurring event found above falls through to here; don't ask the AI again
+        const eventToDelete = deleteMatch !== undefined ? deleteMatch : await findEventToDeleteWithAI(messageToSend, eventsArray, signal);
         if (eventToDelete) {
           foundEventId = eventToDelete.id;
           actionDetails = `Delete "${eventToDelete.title}"`;
@@ -1261,7 +1117,7 @@ ${playbookKnowledge}
 
       // For move/reschedule actions, try to find the event ID
       if (actionType === "move" && eventsArray.length > 0) {
-        const eventToMove = await findEventToMoveWithAI(messageToSend, eventsArray);
+        const eventToMove = await findEventToMoveWithAI(messageToSend, eventsArray, signal);
         if (eventToMove) {
           foundEventId = eventToMove.id;
           actionDetails = `Reschedule "${eventToMove.title}"`;
@@ -1271,6 +1127,14 @@ ${playbookKnowledge}
         }
       }
 
+      // A class or club meeting that repeats: ask which occurrences to change
+      const foundEvent = foundEventId ? eventsArray.find(e => e.id === foundEventId) : undefined;
+      if (foundEvent?.recurringEventId) {
+        foundRecurringEventId = foundEvent.recurringEventId;
+        const verb = actionType === "move" ? "move" : "delete";
+        agentContent += `\n\n"${foundEvent.title}" is a recurring event. Should I ${verb} just this one (${format(foundEvent.allDay ? foundEvent.startDate : zonedDay(foundEvent.startDate, displayTimeZone), 'EEE, MMM d')}), or this and all future ones?`;
+      }
+
       // For non-auto-execute cases, add the AI response as a message
       setMessages((prev) => {
         const existingMessage = prev.find((m) => m.id === messageId);
@@ -1283,7 +1147,7 @@ ${playbookKnowledge}
           ? {
               id: messageId,
               type: "action",
-              content: aiResponse,
+              content: agentContent,
               timestamp: new Date(),
               action: {
                 type: actionType,
@@ -1291,6 +1155,8 @@ ${playbookKnowledge}
                 status: "pending",
                 userRequest: messageToSend, // Store user's original request for parsing
                 eventId: foundEventId, // Include event ID for cancel actions
+                recurringEventId: foundRecurringEventId,
+                calendarId: foundEvent?.calendarId,
               },
             }
           : {
@@ -1303,6 +1169,11 @@ ${playbookKnowledge}
         return [...prev, agentMessage];
       });
     } catch (error) {
+      // handleStop already reset the UI and told the user
+      if (isAbortError(error, signal)) {
+        console.log('[Chatbot] Message processing stopped by user');
+        return;
+      }
       console.error("Error calling OpenAI:", error);
       const errorMessageId = `${Date.now()}-error-${Math.random().toString(36).substr(2, 9)}`;
       const errorMessage: Message = {
@@ -1321,9 +1192,50 @@ ${playbookKnowledge}
         return [...prev, errorMessage];
       });
     } finally {
-      setIsTyping(false);
-      isProcessingRef.current = false;
-      currentMessageIdRef.current = null;
+      // After a stop, a newer message may already own the processing state
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsTyping(false);
+        isProcessingRef.current = false;
+        currentMessageIdRef.current = null;
+      }
+    }
+  };
+
+  // Stop the in-flight message so a hung calendar or OpenAI request can't leave the chat stuck on "typing"
+  const handleStop = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+    setIsTyping(false);
+    isProcessingRef.current = false;
+    currentMessageIdRef.current = null;
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: `${Date.now()}-stopped`,
+        type: "agent",
+        content: "Stopped. What would you like to do instead?",
+        timestamp: new Date(),
+      },
+    ]);
+  };
+
+  // Render a server prompt and send it as if the user had typed it
+  const handleRunPrompt = async (serverName: string, promptName: string) => {
+    if (isProcessingRef.current || isTyping) return;
+    try {
+      const promptMessages = await getPrompt(serverName, promptName);
+      const text = promptMessages
+        .filter((m) => m.role === "user")
+        .map((m) => m.text)
+        .join("\n\n");
+      if (text) {
+        await handleSendMessage(text);
+      }
+    } catch (error) {
+      // McpContext already showed a toast
+      console.error('[Chatbot] Failed to run prompt:', promptName, error);
     }
   };
 
@@ -1331,8 +1243,9 @@ ${playbookKnowledge}
   const extractEventDetailsWithAI = async (
     userRequest: string,
     calendarEvents: ParsedEvent[],
-    pendingEvent?: { title: string; durationMinutes: number; originalDate: Date }
-  ): Promise<{ title: string; start: Date; end: Date } | null> => {
+    pendingEvent?: { title: string; durationMinutes: number; originalDate: Date },
+    signal?: AbortSignal
+  ): Promise<{ title: string; start: Date; end: Date; recurrence?: string[]; guests?: RequestedGuest[] } | null> => {
     const apiKey = getOpenAIApiKey();
     if (!apiKey) return null;
 
@@ -1354,24 +1267,24 @@ ${playbookKnowledge}
       dayReferences.push(`${dayName} = ${dateStr}`);
     }
 
-    // Build a list of busy times from calendar events (all events, not just today)
+    // Build a list of busy times from calendar events (all events, not just today; events marked free don't count)
     const busyTimes = calendarEvents
-      .filter(e => e.startDate && !isNaN(e.startDate.getTime()))
+      .filter(e => e.startDate && !isNaN(e.startDate.getTime()) && e.busy !== false)
       .map(e => ({
         title: e.title,
         time: e.time,
         duration: e.duration,
-        date: format(e.startDate, 'yyyy-MM-dd'),
-        dayName: format(e.startDate, 'EEEE')
+        date: format(e.allDay ? e.startDate : zonedDay(e.startDate, displayTimeZone), 'yyyy-MM-dd'),
+        dayName: format(e.allDay ? e.startDate : zonedDay(e.startDate, displayTimeZone), 'EEEE')
       }));
 
     // Build pending event context for follow-up messages
     const pendingEventContext = pendingEvent
       ? `\n**IMPORTANT CONTEXT - Pending Event from Previous Conflict:**
-The user previously tried to create "${pendingEvent.title}" (duration: ${pendingEvent.durationMinutes} minutes) on ${format(pendingEvent.originalDate, 'yyyy-MM-dd')} but had a conflict.
+The user previously tried to create "${pendingEvent.title}" (duration: ${pendingEvent.durationMinutes} minutes) on ${format(zonedDay(pendingEvent.originalDate, displayTimeZone), 'yyyy-MM-dd')} but had a conflict.
 If the user says "schedule it at X" or "book it at X" or just specifies a time, they are referring to this pending event.
 Use the title "${pendingEvent.title}" and duration ${pendingEvent.durationMinutes} minutes.
-Only the date should default to ${format(pendingEvent.originalDate, 'yyyy-MM-dd')} unless they specify a different date.\n`
+Only the date should default to ${format(zonedDay(pendingEvent.originalDate, displayTimeZone), 'yyyy-MM-dd')} unless they specify a different date.\n`
       : '';
 
     const prompt = `Extract event details from the user's request. Return ONLY valid JSON.
@@ -1423,9 +1336,19 @@ ${busyTimes.length > 0 ? busyTimes.map(e => `- ${e.title} on ${e.date} (${e.dayN
    - Meeting: 60 minutes
    - Default: 60 minutes
    - **If pending event context exists, use the pending event's duration**
+5. Determine RECURRENCE (only if the user asks for a repeating event):
+   - Use an RFC 5545 RRULE, e.g. "Gym MWF 7am" = "RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR", "every weekday" = "RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "daily" = "RRULE:FREQ=DAILY"
+   - Add COUNT=N for "N times"/"for N weeks" (N weeks of MWF = COUNT=3N) or UNTIL=YYYYMMDD for "until <date>"
+   - The DATE is the first occurrence: the first listed day on or after today
+   - Use null for one-off events
+6. Determine GUESTS (only people the user asks to invite):
+   - "invite Sarah Chen to coffee" = [{"name": "Sarah Chen", "email": null}]
+   - Include an email only if the user wrote one; never guess addresses
+   - Use an empty list when nobody is invited
+   - Keep the title about the activity, e.g. "Coffee with Sarah Chen"
 
 Return ONLY this JSON format, no other text:
-{"title": "Event Name", "date": "YYYY-MM-DD", "time": "HH:MM", "durationMinutes": 60}`;
+{"title": "Event Name", "date": "YYYY-MM-DD", "time": "HH:MM", "durationMinutes": 60, "recurrence": null, "guests": []}`;
 
     try {
       const response = await fetch("https://api.openai.com/v1/chat/completions", {
@@ -1438,8 +1361,9 @@ Return ONLY this JSON format, no other text:
           model: OPENAI_CHAT_MODEL,
           messages: [{ role: "user", content: prompt }],
           temperature: 0.3,
-          max_completion_tokens: 150,
+          max_completion_tokens: 300,
         }),
+        signal,
       });
 
       if (!response.ok) return null;
@@ -1485,8 +1409,8 @@ Return ONLY this JSON format, no other text:
         return null;
       }
 
-      // Create date object with validation
-      const eventDate = new Date(year, month - 1, day, hours, minutes, 0, 0);
+      // Create date object with validation (times are given in the zone the calendar is shown in)
+      const eventDate = zonedTime(new Date(year, month - 1, day), hours, minutes, displayTimeZone);
       
       // Validate the date is valid
       if (isNaN(eventDate.getTime())) {
@@ -1506,12 +1430,30 @@ Return ONLY this JSON format, no other text:
 
       console.log('[Chatbot] AI extracted event details:', parsed);
 
+      // Normalize the rule; one the app can't read is dropped rather than sent to Google
+      const rule = typeof parsed.recurrence === 'string' ? parseRRule(parsed.recurrence) : null;
+      if (parsed.recurrence && !rule) {
+        console.warn('[Chatbot] Ignoring unsupported recurrence:', parsed.recurrence);
+      }
+
+      const guests: RequestedGuest[] = Array.isArray(parsed.guests)
+        ? parsed.guests
+            .map((guest: any) => ({
+              name: typeof guest?.name === 'string' ? guest.name : undefined,
+              email: typeof guest?.email === 'string' && guest.email.includes('@') ? guest.email : undefined,
+            }))
+            .filter((guest: RequestedGuest) => guest.name || guest.email)
+        : [];
+
       return {
         title: parsed.title || 'Event',
         start: eventDate,
-        end: endDate
+        end: endDate,
+        ...(rule && { recurrence: [buildRRule(rule)] }),
+        ...(guests.length > 0 && { guests }),
       };
     } catch (error) {
+      if (isAbortError(error, signal)) throw error;
       console.error('[Chatbot] AI event extraction failed:', error);
       return null;
     }
@@ -1520,7 +1462,8 @@ Return ONLY this JSON format, no other text:
   // AI-powered event finding for deletion - uses LLM to find the best matching event
   const findEventToDeleteWithAI = async (
     userRequest: string,
-    calendarEvents: ParsedEvent[]
+    calendarEvents: ParsedEvent[],
+    signal?: AbortSignal
   ): Promise<{ id: string; title: string } | null> => {
     const apiKey = getOpenAIApiKey();
     if (!apiKey || calendarEvents.length === 0) return null;
@@ -1574,6 +1517,7 @@ If no match found, return: {"eventIndex": null}`;
           temperature: 0.1,
           max_completion_tokens: 100,
         }),
+        signal,
       });
 
       if (!response.ok) return null;
@@ -1598,6 +1542,7 @@ If no match found, return: {"eventIndex": null}`;
         title: parsed.eventTitle || 'Event'
       };
     } catch (error) {
+      if (isAbortError(error, signal)) throw error;
       console.error('[Chatbot] AI event finding failed:', error);
       return null;
     }
@@ -1605,7 +1550,8 @@ If no match found, return: {"eventIndex": null}`;
 
   // AI-powered priority extraction - uses LLM to determine new priority order from user request
   const extractPriorityOrderWithAI = async (
-    userRequest: string
+    userRequest: string,
+    signal?: AbortSignal
   ): Promise<string[] | null> => {
     const apiKey = getOpenAIApiKey();
     if (!apiKey) return null;
@@ -1650,6 +1596,7 @@ Return ONLY a JSON array with the 5 category IDs in the new order, no other text
           temperature: 0.2,
           max_completion_tokens: 100,
         }),
+        signal,
       });
 
       if (!response.ok) return null;
@@ -1678,6 +1625,7 @@ Return ONLY a JSON array with the 5 category IDs in the new order, no other text
       console.log('[Chatbot] AI extracted new priority order:', parsed);
       return parsed;
     } catch (error) {
+      if (isAbortError(error, signal)) throw error;
       console.error('[Chatbot] AI priority extraction failed:', error);
       return null;
     }
@@ -1686,7 +1634,8 @@ Return ONLY a JSON array with the 5 category IDs in the new order, no other text
   // AI-powered event finding for moving/rescheduling - uses LLM to find the best matching event
   const findEventToMoveWithAI = async (
     userRequest: string,
-    calendarEvents: ParsedEvent[]
+    calendarEvents: ParsedEvent[],
+    signal?: AbortSignal
   ): Promise<{ id: string; title: string } | null> => {
     const apiKey = getOpenAIApiKey();
     if (!apiKey || calendarEvents.length === 0) return null;
@@ -1741,6 +1690,7 @@ If no match found, return: {"eventIndex": null}`;
           temperature: 0.1,
           max_completion_tokens: 100,
         }),
+        signal,
       });
 
       if (!response.ok) return null;
@@ -1765,13 +1715,14 @@ If no match found, return: {"eventIndex": null}`;
         title: parsed.eventTitle || 'Event'
       };
     } catch (error) {
+      if (isAbortError(error, signal)) throw error;
       console.error('[Chatbot] AI event finding for move failed:', error);
       return null;
     }
   };
 
   // Fallback: basic regex parsing (used when AI extraction fails)
-  const parseEventDetails = (userRequest: string): { title: string; start: Date; end: Date } | null => {
+  const parseEventDetails = (userRequest: string): { title: string; start: Date; end: Date; recurrence?: string[] } | null => {
     const lower = userRequest.toLowerCase();
     
     // Extract time (e.g., "5 PM", "5:00 PM", "17:00")
@@ -1823,7 +1774,7 @@ If no match found, return: {"eventIndex": null}`;
       }
     }
     
-    eventDate.setHours(hour, minute, 0, 0);
+    eventDate = zonedTime(eventDate, hour, minute, displayTimeZone);
     
     // Extract title - remove time, duration, and common words
     let title = 'Event';
@@ -1868,8 +1819,8 @@ If no match found, return: {"eventIndex": null}`;
     return { title: title || 'Event', start: eventDate, end: endTime };
   };
 
-  const handleApproveAction = async (messageId: string) => {
-    console.log('[Chatbot] handleApproveAction called with messageId:', messageId);
+  const handleApproveAction = async (messageId: string, scope?: RecurringEditScope) => {
+    console.log('[Chatbot] handleApproveAction called with messageId:', messageId, 'scope:', scope);
 
     // Get the message from the ref which always has the latest state
     const message = messagesRef.current.find((m) => m.id === messageId);
@@ -1879,7 +1830,7 @@ If no match found, return: {"eventIndex": null}`;
     setMessages((prev) =>
       prev.map((msg) =>
         msg.id === messageId && msg.action
-          ? { ...msg, action: { ...msg.action, status: "approved" as const } }
+          ? { ...msg, action: { ...msg.action, status: "approved" as const, scope } }
           : msg
       )
     );
@@ -1953,28 +1904,62 @@ If no match found, return: {"eventIndex": null}`;
           if (eventDetails) {
             console.log('[Chatbot] Parsed event details:', eventDetails);
 
-            // Check for conflicts before creating the event
-            const eventStart = eventDetails.start.getTime();
-            const eventEnd = eventDetails.end.getTime();
-            const conflictingEvent = calendarEvents.find(existingEvent => {
-              if (!existingEvent.startDate || !existingEvent.endDate) return false;
-              const existingStart = existingEvent.startDate.getTime();
-              const existingEnd = existingEvent.endDate.getTime();
-              // Check if times overlap
-              return (eventStart < existingEnd && eventEnd > existingStart);
+            // Guests need an email address: one the user gave, or someone they already share events with
+            const requestedGuests = ('guests' in eventDetails && eventDetails.guests) || [];
+            const attendees: EventAttendee[] = [];
+            const unknownGuests: string[] = [];
+            requestedGuests.forEach((guest) => {
+              const contact = guest.email ? { email: guest.email, displayName: guest.name } : findKnownContact(storedEvents, guest.name || '');
+              if (contact) {
+                attendees.push({ email: contact.email, ...(contact.displayName && { displayName: contact.displayName }) });
+              } else {
+                unknownGuests.push(guest.name || 'your guest');
+              }
             });
 
-            if (conflictingEvent) {
-              console.log('[Chatbot] Conflict detected with:', conflictingEvent.title);
+            if (unknownGuests.length > 0) {
+              setTimeout(() => {
+                setMessages((prev) => [
+                  ...prev,
+                  {
+                    id: Date.now().toString(),
+                    type: "agent",
+                    content: `I don't have an email address for ${unknownGuests.join(' or ')}. Ask me again with their email, e.g. "invite ${unknownGuests[0]} (name@example.com) to ${eventDetails.title}", and I'll send the invitation.`,
+                    timestamp: new Date(),
+                  },
+                ]);
+              }, 500);
+              return;
+            }
+
+            // Determine priority (default to flexible unless specified or detected from user input)
+            const userRequest = message.action?.userRequest || "";
+            const isHardBlock = /(?:class|meeting|interview|exam|deadline|must|required|critical)/i.test(userRequest);
+            const priority = message.action?.priority || (isHardBlock ? "hard-block" : "flexible");
 
-              // Find alternative time slots based on the activity type
-              const durationMinutes = Math.round((eventEnd - eventStart) / (1000 * 60));
-              const alternativeSlots = findAvailableTimeSlots(
-                eventDetails.title,
-                calendarEvents,
-                eventDetails.start,
-                durationMinutes
-              );
+            console.log('[Chatbot] Creating calendar event...');
+            // Use MCP create_event tool; created only if it conflicts with nothing on any calendar
+            const createResult = await calendarTools.createEventIfFree({
+              calendarId: calendarForEvent(eventDetails.title),
+              summary: eventDetails.title,
+              description: `Created via Kaisey\nPriority: ${priority}`,
+              // Google needs a time zone to expand a series
+              start: toEventDateTime(eventDetails.start, homeTimeZone),
+              end: toEventDateTime(eventDetails.end, homeTimeZone),
+              recurrence: eventDetails.recurrence,
+              ...(attendees.length > 0 && { attendees, sendUpdates: 'all' as const }),
+              privateProperties: kaiseyProperties({
+                source: "chatbot",
+                priorityCategory: priorityCategoryForEventType(inferEventType(eventDetails.title)),
+                locked: priority === "hard-block",
+              }),
+            }, { source: 'chatbot-approved' });
+
+            if (isConflictReport(createResult)) {
+              const { conflicts, alternatives: alternativeSlots } = fromConflictReport(createResult, displayTimeZone);
+              const conflictingEvent = conflicts[0];
+              console.log('[Chatbot] Conflict detected with:', conflictingEvent.summary);
+              const durationMinutes = Math.round((eventDetails.end.getTime() - eventDetails.start.getTime()) / (1000 * 60));
 
               // Save pending event for follow-up "schedule it at X" messages
               setSessionState(prev => ({
@@ -1987,7 +1972,7 @@ If no match found, return: {"eventIndex": null}`;
               }));
 
               // Build suggestion message with alternatives
-              let conflictMessage = `I can't create "${eventDetails.title}" at ${format(eventDetails.start, 'h:mm a')} because you already have "${conflictingEvent.title}" scheduled at that time.`;
+              let conflictMessage = `I can't create "${eventDetails.title}" at ${formatTimeInZone(eventDetails.start, displayTimeZone)} because you already have "${conflictingEvent.summary || 'another event'}" scheduled at that time.`;
 
               if (alternativeSlots.length > 0) {
                 conflictMessage += `\n\n**Available time slots for ${eventDetails.title}:**\n`;
@@ -2013,37 +1998,17 @@ If no match found, return: {"eventIndex": null}`;
               return;
             }
 
-            // Determine priority (default to flexible unless specified or detected from user input)
-            const userRequest = message.action?.userRequest || "";
-            const isHardBlock = /(?:class|meeting|interview|exam|deadline|must|required|critical)/i.test(userRequest);
-            const priority = message.action?.priority || (isHardBlock ? "hard-block" : "flexible");
+            const createdEvent = createResult;
+            console.log('[Chatbot] Created event', createdEvent.id);
 
-            console.log('[Chatbot] Creating calendar event...');
-            // Use MCP create_event tool
-            const response = await callTool('create_event', {
-              calendarId: 'primary',
-              summary: eventDetails.title,
-              description: `Created via Kaisey\nPriority: ${priority}`,
-              start: {
-                dateTime: eventDetails.start.toISOString(),
-              },
-              end: {
-                dateTime: eventDetails.end.toISOString(),
-              },
-            });
-            console.log('[Chatbot] create_event response:', response);
-
-            // Invalidate CalendarContext cache - components will refetch when needed
-            invalidateCalendarCache();
-
-            // Extract event ID and create Google Calendar link
-            createdEventId = response?.id || (typeof response === 'string' ? JSON.parse(response)?.id : undefined);
+            // Event ID and Google Calendar link
+            createdEventId = createdEvent.id;
             if (createdEventId) {
-              googleCalendarLink = `https://calendar.google.com/calendar/event?eid=${encodeURIComponent(createdEventId)}`;
+              googleCalendarLink = createdEvent.htmlLink || `https://calendar.google.com/calendar/event?eid=${encodeURIComponent(createdEventId)}`;
             }
             
             // Reload calendar events to refresh context and update session state
-            const updatedEvents = await loadCalendarEvents();
+            const updatedEvents = await reloadCalendarEvents();
             setSessionState(prev => ({
               ...prev,
               lastUpdate: new Date(),
@@ -2053,13 +2018,13 @@ If no match found, return: {"eventIndex": null}`;
             }));
             
             // Refresh greeting with updated events
-            if (updatedEvents.length > 0) {
+            if (updatedEvents && updatedEvents.length > 0) {
               generatePersonalizedGreeting(updatedEvents);
             }
             
             // Notify parent component
             if (onScheduleChange) {
-              onScheduleChange(message.action.type, `Created event: ${eventDetails.title} on ${format(eventDetails.start, 'EEEE, MMM d')} at ${format(eventDetails.start, 'h:mm a')}`);
+              onScheduleChange(message.action.type, `Created event: ${eventDetails.title} on ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)}`);
             }
             
             // Add success message with sync status
@@ -2069,7 +2034,7 @@ If no match found, return: {"eventIndex": null}`;
                 {
                   id: Date.now().toString(),
                   type: "agent",
-                  content: `✓ Synced to Google Calendar. Created "${eventDetails.title}" on ${format(eventDetails.start, 'EEEE, MMM d')} at ${format(eventDetails.start, 'h:mm a')}.${googleCalendarLink ? ` [View event](${googleCalendarLink})` : ''}`,
+                  content: `✓ Synced to Google Calendar. Created "${eventDetails.title}" on ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)}${eventDetails.recurrence ? `, repeating ${describeRecurrence(eventDetails.recurrence)?.toLowerCase()}` : ''}.${attendees.length > 0 ? ` Invitations sent to ${attendees.map(guestLabel).join(', ')}.` : ''}${googleCalendarLink ? ` [View event](${googleCalendarLink})` : ''}`,
                   timestamp: new Date(),
                 },
               ]);
@@ -2117,33 +2082,27 @@ If no match found, return: {"eventIndex": null}`;
             return;
           }
 
-          // Check for conflicts at the new time (excluding the event being moved)
-          const newStart = eventDetails.start.getTime();
-          const newEnd = eventDetails.end.getTime();
-          const moveConflict = calendarEvents.find(existingEvent => {
-            // Skip the event being moved
-            if (existingEvent.id === message.action.eventId) return false;
-            if (!existingEvent.startDate || !existingEvent.endDate) return false;
-            const existingStart = existingEvent.startDate.getTime();
-            const existingEnd = existingEvent.endDate.getTime();
-            return (newStart < existingEnd && newEnd > existingStart);
-          });
+          // Keep the event in its own time zone (e.g. a class booked in another city)
+          const movedEvent = calendarEvents.find(existingEvent => existingEvent.id === message.action.eventId);
+          const update = {
+            calendarId: message.action.calendarId,
+            eventId: message.action.eventId,
+            start: toEventDateTime(eventDetails.start, movedEvent?.timeZone || homeTimeZone),
+            end: toEventDateTime(eventDetails.end, movedEvent?.timeZone || homeTimeZone),
+            scope,
+          };
 
-          if (moveConflict) {
-            console.log('[Chatbot] Move conflict detected with:', moveConflict.title);
+          // Moved only if the new time is free on every calendar (the server leaves out the event being moved)
+          const moveResult = await calendarTools.updateEventIfFree(update, { source: 'chatbot-approved' });
 
-            // Find alternative time slots
-            const durationMinutes = Math.round((newEnd - newStart) / (1000 * 60));
+          if (isConflictReport(moveResult)) {
+            const { conflicts, alternatives: alternativeSlots } = fromConflictReport(moveResult, displayTimeZone);
+            const moveConflict = conflicts[0];
+            console.log('[Chatbot] Move conflict detected with:', moveConflict.summary);
             const eventTitle = message.action.eventTitle || 'this event';
-            const alternativeSlots = findAvailableTimeSlots(
-              eventTitle,
-              calendarEvents.filter(e => e.id !== message.action.eventId),
-              eventDetails.start,
-              durationMinutes
-            );
 
             // Build suggestion message with alternatives
-            let conflictMessage = `I can't move "${eventTitle}" to ${format(eventDetails.start, 'h:mm a')} because you already have "${moveConflict.title}" scheduled at that time.`;
+            let conflictMessage = `I can't move "${eventTitle}" to ${formatTimeInZone(eventDetails.start, displayTimeZone)} because you already have "${moveConflict.summary || 'another event'}" scheduled at that time.`;
 
             if (alternativeSlots.length > 0) {
               conflictMessage += `\n\n**Available time slots:**\n`;
@@ -2169,17 +2128,7 @@ If no match found, return: {"eventIndex": null}`;
             return;
           }
 
-          await callTool('update_event', {
-            calendarId: 'primary',
-            eventId: message.action.eventId,
-            start: { dateTime: eventDetails.start.toISOString() },
-            end: { dateTime: eventDetails.end.toISOString() },
-          });
-
-          // Invalidate CalendarContext cache - components will refetch when needed
-          invalidateCalendarCache();
-
-          const updatedEvents = await loadCalendarEvents();
+          const updatedEvents = await reloadCalendarEvents();
           setSessionState(prev => ({
             ...prev,
             lastUpdate: new Date(),
@@ -2187,14 +2136,8 @@ If no match found, return: {"eventIndex": null}`;
             lastAction: "move",
           }));
 
-          // Also refresh CalendarContext so app calendar views update
-          const today = getToday();
-          const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-          const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
-          await fetchCalendarContextEvents(weekStart, weekEnd);
-
           // Refresh greeting with updated events
-          if (updatedEvents.length > 0) {
+          if (updatedEvents && updatedEvents.length > 0) {
             generatePersonalizedGreeting(updatedEvents);
           }
 
@@ -2209,7 +2152,9 @@ If no match found, return: {"eventIndex": null}`;
               {
                 id: Date.now().toString(),
                 type: "agent",
-                content: `✓ Event rescheduled to ${format(eventDetails.start, 'EEEE, MMM d')} at ${format(eventDetails.start, 'h:mm a')} and synced to Google Calendar.`,
+                content: scope === "following"
+                  ? `✓ This and all future occurrences moved, starting ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)}, and synced to Google Calendar.`
+                  : `✓ Event rescheduled to ${format(zonedDay(eventDetails.start, displayTimeZone), 'EEEE, MMM d')} at ${formatTimeInZone(eventDetails.start, displayTimeZone)} and synced to Google Calendar.`,
                 timestamp: new Date(),
               },
             ]);
@@ -2218,15 +2163,9 @@ If no match found, return: {"eventIndex": null}`;
           // Handle delete/cancel event
           console.log('[Chatbot] Deleting event:', message.action.eventId);
 
-          await callTool('delete_event', {
-            calendarId: 'primary',
-            eventId: message.action.eventId,
-          });
-
-          // Invalidate CalendarContext cache - components will refetch when needed
-          invalidateCalendarCache();
+          await calendarTools.deleteEvent({ calendarId: message.action.calendarId, eventId: message.action.eventId, scope }, { source: 'chatbot-approved' });
 
-          const updatedEvents = await loadCalendarEvents();
+          const updatedEvents = await reloadCalendarEvents();
           setSessionState(prev => ({
             ...prev,
             lastUpdate: new Date(),
@@ -2234,14 +2173,8 @@ If no match found, return: {"eventIndex": null}`;
             lastAction: "cancel",
           }));
 
-          // Also refresh CalendarContext so app calendar views update
-          const today = getToday();
-          const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-          const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
-          await fetchCalendarContextEvents(weekStart, weekEnd);
-
           // Refresh greeting with updated events
-          if (updatedEvents.length > 0) {
+          if (updatedEvents && updatedEvents.length > 0) {
             generatePersonalizedGreeting(updatedEvents);
           }
           
@@ -2256,7 +2189,9 @@ If no match found, return: {"eventIndex": null}`;
               {
                 id: Date.now().toString(),
                 type: "agent",
-                content: "✓ Event deleted and removed from Google Calendar.",
+                content: scope === "following"
+                  ? "✓ This and all future occurrences deleted and removed from Google Calendar."
+                  : "✓ Event deleted and removed from Google Calendar.",
                 timestamp: new Date(),
               },
             ]);
@@ -2328,6 +2263,9 @@ If no match found, return: {"eventIndex": null}`;
   // Expose handleSendMessage, messages, and refresh function globally for inline chat access
   React.useEffect(() => {
     (window as any).__nexusChatbotSendMessage = handleSendMessage;
+    (window as any).__nexusChatbotStop = handleStop;
+    (window as any).__nexusChatbotPromptActions = promptActions;
+    (window as any).__nexusChatbotRunPrompt = handleRunPrompt;
     (window as any).__nexusChatbotMessages = messages;
     (window as any).__nexusChatbotIsTyping = isTyping;
     (window as any).__nexusChatbotRefresh = async () => {
@@ -2340,11 +2278,17 @@ If no match found, return: {"eventIndex": null}`;
       const monthStart = startOfMonth(today);
       const monthEnd = endOfMonth(today);
       
-      const events = await Promise.all([
-        loadCalendarEvents({ startDate: dayStart, endDate: dayEnd }),
-        loadCalendarEvents({ startDate: weekStart, endDate: weekEnd }),
-        loadCalendarEvents({ startDate: monthStart, endDate: monthEnd }),
-      ]);
+      let events: ParsedEvent[][];
+      try {
+        events = await Promise.all([
+          loadCalendarEvents({ startDate: dayStart, endDate: dayEnd }),
+          loadCalendarEvents({ startDate: weekStart, endDate: weekEnd }),
+          loadCalendarEvents({ startDate: monthStart, endDate: monthEnd }),
+        ]);
+      } catch {
+        // Keep the current greeting rather than announcing a free day; the calendar shows the error
+        return;
+      }
       
       // Update session state
       setSessionState(prev => ({
@@ -2410,6 +2354,9 @@ If no match found, return: {"eventIndex": null}`;
     };
     return () => {
       delete (window as any).__nexusChatbotSendMessage;
+      delete (window as any).__nexusChatbotStop;
+      delete (window as any).__nexusChatbotPromptActions;
+      delete (window as any).__nexusChatbotRunPrompt;
       delete (window as any).__nexusChatbotMessages;
       delete (window as any).__nexusChatbotIsTyping;
       delete (window as any).__nexusChatbotRefresh;
@@ -2420,7 +2367,7 @@ If no match found, return: {"eventIndex": null}`;
       delete (window as any).__nexusChatbotGenerateProactiveRecommendations;
       delete (window as any).__nexusChatbotOnPriorityChange;
     };
-  }, [messages, isTyping, loadCalendarEvents, generateInitialSuggestions, generatePersonalizedGreeting, sessionState]);
+  }, [messages, isTyping, loadCalendarEvents, generateInitialSuggestions, generatePersonalizedGreeting, sessionState, promptActions]);
 
   // If hidden mode, just expose the send function and return null
   if (isHidden) {
@@ -2460,8 +2407,15 @@ If no match found, return: {"eventIndex": null}`;
                 <div>
                   <h3 className="font-semibold text-white text-sm">Kaisey</h3>
                   <p className="text-xs text-white/80 flex items-center gap-1">
-                    <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse"></span>
-                    Active
+                    <span className={`w-2 h-2 rounded-full animate-pulse ${
+                      mcpHealth === 'healthy' ? 'bg-green-400' :
+                      mcpHealth === 'down' ? 'bg-red-400' :
+                      'bg-amber-300'
+                    }`}></span>
+                    {mcpHealth === 'healthy' ? 'Active' :
+                     mcpHealth === 'degraded' ? 'Reconnecting to calendar...' :
+                     mcpHealth === 'down' ? 'Calendar offline' :
+                     'Connecting to calendar...'}
                   </p>
                 </div>
               </div>
@@ -2582,11 +2536,13 @@ If no match found, return: {"eventIndex": null}`;
                             </div>
                             
                             <ChatAction
-                              onApprove={() => handleApproveAction(message.id)}
+                              onApprove={(scope) => handleApproveAction(message.id, scope)}
                               onReject={() => handleRejectAction(message.id)}
                               disabled={message.action?.status !== "pending"}
                               approved={message.action?.status === "approved"}
                               rejected={message.action?.status === "rejected"}
+                              recurring={!!message.action?.recurringEventId}
+                              scope={message.action?.scope}
                             />
                           </div>
                         </div>
@@ -2629,17 +2585,45 @@ If no match found, return: {"eventIndex": null}`;
                   className="flex-1"
                   disabled={isTyping || isProcessingRef.current}
                 />
-                <Button
-                  onClick={handleSendMessage}
-                  disabled={!inputValue.trim() || isTyping || isProcessingRef.current}
-                  className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
+                {isTyping ? (
+                  <Button
+                    onClick={handleStop}
+                    variant="outline"
+                    title="Stop"
+                  >
+                    <Square className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSendMessage}
+                    disabled={!inputValue.trim() || isProcessingRef.current}
+                    className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
               <p className="text-xs text-muted-foreground mt-2">
                 Try: "Move gym to 2pm" or "Clear my afternoon"
               </p>
+              {promptActions.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {promptActions.map((action) => (
+                    <Button
+                      key={`${action.serverName}:${action.name}`}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      title={action.description}
+                      disabled={isTyping}
+                      onClick={() => handleRunPrompt(action.serverName, action.name)}
+                    >
+                      <Sparkles className="w-3 h-3 mr-1" />
+                      {action.title}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           </Card>
         </div>
@@ -2,8 +2,15 @@ import { Calendar, CheckCircle2, Activity } from "lucide-react";
 import { Card } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/app/components/ui/avatar";
+import { Label } from "@/app/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/app/components/ui/select";
+import { Switch } from "@/app/components/ui/switch";
+import { useCanvas } from "@/contexts/CanvasContext";
+import { GRADE_GOAL_LABELS, type GradeGoal } from "@/config/academicProfile";
 
 export function ProfileSection() {
+  const { academicProfile, setAcademicProfile } = useCanvas();
+
   const userProfile = {
     name: "Star MBA Student",
     email: "student@gsb.columbia.edu",
@@ -36,6 +43,43 @@ export function ProfileSection() {
         </div>
       </div>
 
+      {/* Academic Strategy: drives assignment priorities and weekly study hours */}
+      <div className="mb-6">
+        <h3 className="text-sm font-semibold mb-3">Academic Strategy</h3>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3 p-2 rounded-lg bg-muted/50">
+            <div className="space-y-0.5">
+              <Label htmlFor="grade-non-disclosure">Grade Non-Disclosure</Label>
+              <p className="text-xs text-muted-foreground">
+                Your program doesn't share grades with recruiters.
+              </p>
+            </div>
+            <Switch
+              id="grade-non-disclosure"
+              checked={academicProfile.gradeNonDisclosure}
+              onCheckedChange={(checked) => setAcademicProfile({ ...academicProfile, gradeNonDisclosure: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-3 p-2 rounded-lg bg-muted/50">
+            <Label htmlFor="grade-goal">Grade goal</Label>
+            <Select
+              value={academicProfile.gradeGoal}
+              onValueChange={(value) => setAcademicProfile({ ...academicProfile, gradeGoal: value as GradeGoal })}
+            >
+              <SelectTrigger id="grade-goal" className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GRADE_GOAL_LABELS).map(([goal, label]) => (
+                  <SelectItem key={goal} value={goal}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
       {/* Integration Status */}
       <div>
         <h3 className="text-sm font-semibold mb-3">Connected Services</h3>
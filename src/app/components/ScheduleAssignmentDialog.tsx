@@ -15,9 +15,14 @@ import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
 import { Slider } from "@/app/components/ui/slider";
 import { useMcpServer } from "@/hooks/useMcpServer";
+import { useCalendarTools } from "@/hooks/useCalendarTools";
+import { isConflictReport, toEventDateTime } from "@/services/calendarTools";
+import { fromConflictReport } from "@/services/availability";
 import { useCalendar } from "@/contexts/CalendarContext";
 import { getToday } from "@/utils/dateUtils";
-import { addMinutes, format } from "date-fns";
+import { kaiseyProperties } from "@/utils/kaiseyMetadata";
+import { addMinutes } from "date-fns";
+import { formatTimeInZone, zonedTime } from "@/utils/timeZone";
 
 interface Assignment {
   id: string;
@@ -46,61 +51,9 @@ export function ScheduleAssignmentDialog({
   const [startTime, setStartTime] = useState("09:00"); // Default 9 AM
   const [duration, setDuration] = useState([120]); // Default 2 hours in minutes
   const [conflictMessage, setConflictMessage] = useState<string | null>(null);
-  const { connected, callTool, connect } = useMcpServer('google-calendar');
-  const { events: calendarEvents } = useCalendar();
-
-  // Helper function to find available time slots based on activity type
-  const findAvailableSlots = (
-    targetDate: Date,
-    durationMinutes: number
-  ): { time: string; label: string }[] => {
-    const slots: { time: string; label: string }[] = [];
-
-    // Study-focused time ranges
-    const preferredRanges = [
-      { start: 9, end: 12, label: "Morning" },
-      { start: 14, end: 17, label: "Afternoon" },
-      { start: 19, end: 22, label: "Evening" },
-    ];
-
-    // Get busy times for the target date
-    const targetDateStr = format(targetDate, 'yyyy-MM-dd');
-    const busySlots = calendarEvents
-      .filter(e => e.startDate && format(e.startDate, 'yyyy-MM-dd') === targetDateStr)
-      .map(e => ({
-        start: e.startDate.getHours() * 60 + e.startDate.getMinutes(),
-        end: (e.endDate || e.startDate).getHours() * 60 + (e.endDate || e.startDate).getMinutes() + (e.endDate ? 0 : e.duration),
-      }));
-
-    // Find available slots in preferred ranges
-    for (const range of preferredRanges) {
-      for (let hour = range.start; hour < range.end; hour++) {
-        for (const minute of [0, 30]) {
-          const slotStart = hour * 60 + minute;
-          const slotEnd = slotStart + durationMinutes;
-          if (slotEnd > range.end * 60) continue;
-
-          const hasConflict = busySlots.some(busy =>
-            (slotStart < busy.end && slotEnd > busy.start)
-          );
-
-          if (!hasConflict) {
-            const timeStr = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-            const displayTime = format(new Date(2000, 0, 1, hour, minute), 'h:mm a');
-            slots.push({
-              time: timeStr,
-              label: `${displayTime} (${range.label})`,
-            });
-
-            if (slots.filter(s => s.label.includes(range.label)).length >= 2) break;
-          }
-        }
-        if (slots.filter(s => s.label.includes(range.label)).length >= 2) break;
-      }
-    }
-
-    return slots.slice(0, 3);
-  };
+  const { connected, connect } = useMcpServer('google-calendar');
+  const calendarTools = useCalendarTools();
+  const { calendarForEvent, homeTimeZone, displayTimeZone } = useCalendar();
 
   const handleSchedule = async () => {
     try {
@@ -108,31 +61,40 @@ export function ScheduleAssignmentDialog({
         await connect();
       }
 
-      // Parse start time and create event for today (system date)
+      // Parse start time (in the zone the calendar is shown in) and create event for today (system date)
       const today = getToday();
       const [hours, minutes] = startTime.split(':').map(Number);
-      const startDate = new Date(today);
-      startDate.setHours(hours, minutes, 0, 0);
+      const startDate = zonedTime(today, hours, minutes, displayTimeZone);
 
       const endDate = addMinutes(startDate, duration[0]);
 
-      // Check for conflicts before creating the event
-      const eventStart = startDate.getTime();
-      const eventEnd = endDate.getTime();
-      const conflictingEvent = calendarEvents.find(existingEvent => {
-        if (!existingEvent.startDate || !existingEvent.endDate) return false;
-        const existingStart = existingEvent.startDate.getTime();
-        const existingEnd = existingEvent.endDate.getTime();
-        return (eventStart < existingEnd && eventEnd > existingStart);
-      });
-
-      if (conflictingEvent) {
-        // Find alternative time slots
-        const alternativeSlots = findAvailableSlots(startDate, duration[0]);
-
-        let message = `This time conflicts with "${conflictingEvent.title}" at ${conflictingEvent.time}.`;
-        if (alternativeSlots.length > 0) {
-          message += `\n\nSuggested times:\n${alternativeSlots.map((s, i) => `${i + 1}. ${s.label}`).join('\n')}`;
+      // On the calendar chosen for study blocks
+      const summary = `${assignment.title} - ${assignment.course}`;
+      const event = {
+        calendarId: calendarForEvent(summary, 'study'),
+        summary,
+        description: `Study session for ${assignment.course} assignment. Due: ${assignment.dueDate}`,
+        start: toEventDateTime(startDate, homeTimeZone),
+        end: toEventDateTime(endDate, homeTimeZone),
+        // Links the block to the assignment, e.g. for progress tracking
+        privateProperties: kaiseyProperties({
+          source: "assignment",
+          assignmentId: assignment.id,
+          priorityCategory: "homework",
+          locked: false,
+        }),
+      };
+
+      // Created only if it conflicts with nothing on any calendar
+      const result = await calendarTools.createEventIfFree(event, { source: 'schedule-assignment' });
+
+      if (isConflictReport(result)) {
+        const { conflicts, alternatives } = fromConflictReport(result, displayTimeZone);
+        const conflict = conflicts[0];
+        const conflictStart = new Date(conflict.start.dateTime || conflict.start.date || startDate);
+        let message = `This time conflicts with "${conflict.summary || 'another event'}" at ${formatTimeInZone(conflictStart, displayTimeZone)}.`;
+        if (alternatives.length > 0) {
+          message += `\n\nSuggested times:\n${alternatives.map((s, i) => `${i + 1}. ${s.label}`).join('\n')}`;
         }
         setConflictMessage(message);
         return;
@@ -141,19 +103,6 @@ export function ScheduleAssignmentDialog({
       // Clear any previous conflict message
       setConflictMessage(null);
 
-      // Create calendar event via MCP
-      await callTool('create_event', {
-        calendarId: 'primary',
-        summary: `${assignment.title} - ${assignment.course}`,
-        description: `Study session for ${assignment.course} assignment. Due: ${assignment.dueDate}`,
-        start: {
-          dateTime: startDate.toISOString(),
-        },
-        end: {
-          dateTime: endDate.toISOString(),
-        },
-      });
-
       onOpenChange(false);
       if (onSuccess) {
         onSuccess();
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Settings as SettingsIcon, Key, Save, Eye, EyeOff, CheckCircle2 } from "lucide-react";
+import { Settings as SettingsIcon, Key, Save, Eye, EyeOff, CheckCircle2, Globe } from "lucide-react";
 import { Button } from "@/app/components/ui/button";
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
@@ -13,6 +13,14 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
 import { Separator } from "@/app/components/ui/separator";
 import { Alert, AlertDescription } from "@/app/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/app/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/app/components/ui/select";
+import { Switch } from "@/app/components/ui/switch";
+import { localTimeZone } from "@/services/calendarTools";
+import { getHomeTimeZone, getTimeZoneDisplay, setTimeZoneSettings } from "@/config/timeZone";
+import { supportedTimeZones, timeZoneAbbreviation } from "@/utils/timeZone";
+import { McpInspector } from "./McpInspector";
+import { McpServerSettings } from "./McpServerSettings";
 
 interface SettingsProps {
   open?: boolean;
@@ -26,6 +34,10 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
   const [showApiKey, setShowApiKey] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [hasExistingKey, setHasExistingKey] = useState(false);
+  const [homeTimeZone, setHomeTimeZone] = useState(getHomeTimeZone);
+  const [followDeviceZone, setFollowDeviceZone] = useState(() => getTimeZoneDisplay() === "current");
+  const [timeZones] = useState(supportedTimeZones);
+  const deviceTimeZone = localTimeZone();
 
   // Load existing API key from localStorage on mount
   useEffect(() => {
@@ -56,11 +68,21 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
     window.dispatchEvent(new CustomEvent('apiKeyUpdated'));
   };
 
+  const handleHomeTimeZoneChange = (timeZone: string) => {
+    setHomeTimeZone(timeZone);
+    setTimeZoneSettings({ homeTimeZone: timeZone === deviceTimeZone ? null : timeZone });
+  };
+
+  const handleFollowDeviceZoneChange = (follow: boolean) => {
+    setFollowDeviceZone(follow);
+    setTimeZoneSettings({ display: follow ? "current" : "home" });
+  };
+
   const maskedKey = apiKey ? `${apiKey.substring(0, 7)}${'*'.repeat(Math.max(0, apiKey.length - 11))}${apiKey.substring(apiKey.length - 4)}` : "";
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
-      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
         <SheetHeader>
           <SheetTitle className="flex items-center gap-2">
             <SettingsIcon className="w-5 h-5" />
@@ -71,119 +93,181 @@ export function Settings({ open, onOpenChange }: SettingsProps) {
           </SheetDescription>
         </SheetHeader>
 
-        <div className="mt-6 space-y-6">
-          {/* API Key Section */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-lg">
-                <Key className="w-4 h-4" />
-                OpenAI API Key
-              </CardTitle>
-              <CardDescription>
-                Enter your OpenAI API key to enable the chatbot. Your key is stored locally in your browser and never sent to our servers.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {hasExistingKey && apiKey && (
-                <Alert>
-                  <CheckCircle2 className="w-4 h-4" />
-                  <AlertDescription className="text-sm">
-                    API key is configured. Key: {maskedKey}
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              <div className="space-y-2">
-                <Label htmlFor="api-key">API Key</Label>
-                <div className="relative">
-                  <Input
-                    id="api-key"
-                    type={showApiKey ? "text" : "password"}
-                    placeholder="sk-proj-..."
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    className="pr-10"
-                  />
+        <Tabs defaultValue="general" className="mt-6">
+          <TabsList className="w-full">
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="servers">Servers</TabsTrigger>
+            <TabsTrigger value="inspector">Inspector</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="general" className="mt-4 space-y-6">
+            {/* API Key Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Key className="w-4 h-4" />
+                  OpenAI API Key
+                </CardTitle>
+                <CardDescription>
+                  Enter your OpenAI API key to enable the chatbot. Your key is stored locally in your browser and never sent to our servers.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {hasExistingKey && apiKey && (
+                  <Alert>
+                    <CheckCircle2 className="w-4 h-4" />
+                    <AlertDescription className="text-sm">
+                      API key is configured. Key: {maskedKey}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="api-key">API Key</Label>
+                  <div className="relative">
+                    <Input
+                      id="api-key"
+                      type={showApiKey ? "text" : "password"}
+                      placeholder="sk-proj-..."
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                      className="pr-10"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                      onClick={() => setShowApiKey(!showApiKey)}
+                    >
+                      {showApiKey ? (
+                        <EyeOff className="w-4 h-4 text-muted-foreground" />
+                      ) : (
+                        <Eye className="w-4 h-4 text-muted-foreground" />
+                      )}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Your API key is stored locally in your browser's localStorage. It will be used instead of environment variables if provided.
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
                   <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowApiKey(!showApiKey)}
+                    onClick={handleSave}
+                    disabled={!apiKey.trim()}
+                    className="flex-1"
                   >
-                    {showApiKey ? (
-                      <EyeOff className="w-4 h-4 text-muted-foreground" />
-                    ) : (
-                      <Eye className="w-4 h-4 text-muted-foreground" />
-                    )}
+                    <Save className="w-4 h-4 mr-2" />
+                    {hasExistingKey ? "Update" : "Save"} Key
                   </Button>
+                  {hasExistingKey && (
+                    <Button
+                      onClick={handleClear}
+                      variant="outline"
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+
+                {isSaved && (
+                  <Alert className="bg-green-50 border-green-200">
+                    <CheckCircle2 className="w-4 h-4 text-green-600" />
+                    <AlertDescription className="text-green-800">
+                      API key saved successfully! The change will take effect immediately.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Time Zone Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Globe className="w-4 h-4" />
+                  Time Zone
+                </CardTitle>
+                <CardDescription>
+                  New events are booked in your home time zone, so your schedule stays put when you travel.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="home-time-zone">Home time zone</Label>
+                  <Select value={homeTimeZone} onValueChange={handleHomeTimeZoneChange}>
+                    <SelectTrigger id="home-time-zone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {(timeZones.includes(homeTimeZone) ? timeZones : [homeTimeZone, ...timeZones]).map((timeZone) => (
+                        <SelectItem key={timeZone} value={timeZone}>
+                          {timeZone.replace(/_/g, " ")} ({timeZoneAbbreviation(timeZone)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Your API key is stored locally in your browser's localStorage. It will be used instead of environment variables if provided.
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="follow-device-zone">Show times in my current time zone</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Your device is in {deviceTimeZone.replace(/_/g, " ")} ({timeZoneAbbreviation(deviceTimeZone)}). Off keeps the calendar on home time.
+                    </p>
+                  </div>
+                  <Switch
+                    id="follow-device-zone"
+                    checked={followDeviceZone}
+                    onCheckedChange={handleFollowDeviceZoneChange}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Separator />
+
+            {/* Information Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">About API Keys</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm text-muted-foreground">
+                <p>
+                  • Your API key is stored locally in your browser
                 </p>
-              </div>
-
-              <div className="flex gap-2">
-                <Button
-                  onClick={handleSave}
-                  disabled={!apiKey.trim()}
-                  className="flex-1"
-                >
-                  <Save className="w-4 h-4 mr-2" />
-                  {hasExistingKey ? "Update" : "Save"} Key
-                </Button>
-                {hasExistingKey && (
-                  <Button
-                    onClick={handleClear}
-                    variant="outline"
+                <p>
+                  • The key is never transmitted to our servers
+                </p>
+                <p>
+                  • If you set a key here, it will be used instead of environment variables
+                </p>
+                <p>
+                  • You can get your API key from{" "}
+                  <a
+                    href="https://platform.openai.com/api-keys"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-500 hover:underline"
                   >
-                    Clear
-                  </Button>
-                )}
-              </div>
-
-              {isSaved && (
-                <Alert className="bg-green-50 border-green-200">
-                  <CheckCircle2 className="w-4 h-4 text-green-600" />
-                  <AlertDescription className="text-green-800">
-                    API key saved successfully! The change will take effect immediately.
-                  </AlertDescription>
-                </Alert>
-              )}
-            </CardContent>
-          </Card>
-
-          <Separator />
-
-          {/* Information Section */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">About API Keys</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-2 text-sm text-muted-foreground">
-              <p>
-                • Your API key is stored locally in your browser
-              </p>
-              <p>
-                • The key is never transmitted to our servers
-              </p>
-              <p>
-                • If you set a key here, it will be used instead of environment variables
-              </p>
-              <p>
-                • You can get your API key from{" "}
-                <a
-                  href="https://platform.openai.com/api-keys"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-blue-500 hover:underline"
-                >
-                  OpenAI Platform
-                </a>
-              </p>
-            </CardContent>
-          </Card>
-        </div>
+                    OpenAI Platform
+                  </a>
+                </p>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* MCP server registry */}
+          <TabsContent value="servers" className="mt-4">
+            <McpServerSettings />
+          </TabsContent>
+
+          {/* MCP call audit log */}
+          <TabsContent value="inspector" className="mt-4">
+            <McpInspector />
+          </TabsContent>
+        </Tabs>
       </SheetContent>
     </Sheet>
   );
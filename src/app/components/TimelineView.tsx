@@ -1,48 +1,190 @@
-import { useState, useEffect, useCallback } from "react";
-import { Clock, Users, BookOpen, Dumbbell, Coffee, Briefcase, GraduationCap, RefreshCw, ChevronLeft, ChevronRight, Calendar as CalendarIcon, ExternalLink } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Clock, Users, BookOpen, Dumbbell, Coffee, Briefcase, GraduationCap, RefreshCw, ChevronLeft, ChevronRight, Calendar as CalendarIcon, ExternalLink, Repeat, Layers, Globe, Upload, Download } from "lucide-react";
 import { Card } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
 import { Button } from "@/app/components/ui/button";
 import { ToggleGroup, ToggleGroupItem } from "@/app/components/ui/toggle-group";
+import { Popover, PopoverContent, PopoverTrigger } from "@/app/components/ui/popover";
+import { Checkbox } from "@/app/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/app/components/ui/select";
 import { useMcpServer } from "@/hooks/useMcpServer";
+import { useCalendarTools } from "@/hooks/useCalendarTools";
+import { useGoogleCalendarAuth } from "@/hooks/useGoogleCalendarAuth";
+import { AttendeeResponseStatus, EventAttendee, isConflictReport, localTimeZone, toEventDateTime } from "@/services/calendarTools";
+import { fromConflictReport } from "@/services/availability";
+import { describeGuests, RESPONSE_LABELS, summarizeResponses } from "@/utils/attendees";
+import { serializeIcs } from "@/utils/ical";
+import { ImportIcsDialog } from "@/app/components/ImportIcsDialog";
+import { toast } from "sonner";
 import { DndContext, DragEndEvent, useDraggable, useDroppable, PointerSensor, useSensor, useSensors } from "@dnd-kit/core";
-import { format, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, eachDayOfInterval, addWeeks, subWeeks, addMonths, subMonths, isSameDay, isSameMonth, addDays } from "date-fns";
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, eachDayOfInterval, addWeeks, subWeeks, addMonths, subMonths, isSameDay, isSameMonth, addDays } from "date-fns";
 import { getToday, isToday as isTodayGlobal } from "@/utils/dateUtils";
-import { useCalendar } from "@/contexts/CalendarContext";
+import { dateKeyInZone, endOfDayInZone, formatTimeInZone, sameWallClock, startOfDayInZone, timeZoneAbbreviation, zonedDay } from "@/utils/timeZone";
+import { EventType, useCalendar } from "@/contexts/CalendarContext";
 
 interface TimeBlock {
   id: string;
   time: string;
   duration: number;
   title: string;
-  type: "class" | "meeting" | "study" | "workout" | "networking" | "recruiting" | "buffer";
+  type: EventType;
   status: "completed" | "current" | "upcoming" | "suggested";
   location?: string;
   priority: "hard-block" | "flexible" | "optional";
+  // Source calendar, for updates and the overlay color
+  calendarId: string;
+  calendarName: string;
+  color: string;
   // Store original dates for updates
   startDate: Date;
   endDate: Date;
+  // All-day and multi-day events go in the all-day lane instead of the timeline
+  allDay: boolean;
+  multiDay: boolean;
+  // False for events marked free
+  busy: boolean;
+  recurringEventId?: string;
+  // Zone the event was scheduled in; kept when it is dragged
+  timeZone?: string;
+  attendees?: EventAttendee[];
+  // The user's own RSVP when they were invited
+  responseStatus?: AttendeeResponseStatus;
 }
 
+type RsvpResponse = Exclude<AttendeeResponseStatus, "needsAction">;
+
+const RSVP_OPTIONS: Array<{ status: RsvpResponse; label: string }> = [
+  { status: "accepted", label: "Yes" },
+  { status: "tentative", label: "Maybe" },
+  { status: "declined", label: "No" },
+];
+
 const typeConfig = {
-  class: { icon: GraduationCap, color: "bg-blue-500" },
-  meeting: { icon: Users, color: "bg-purple-500" },
-  study: { icon: BookOpen, color: "bg-indigo-500" }, // Indigo theme for study events
-  workout: { icon: Dumbbell, color: "bg-green-500" },
-  networking: { icon: Coffee, color: "bg-orange-500" },
-  recruiting: { icon: Briefcase, color: "bg-red-500" },
-  buffer: { icon: Clock, color: "bg-gray-400" },
+  class: { icon: GraduationCap, color: "bg-blue-500", label: "Classes" },
+  meeting: { icon: Users, color: "bg-purple-500", label: "Meetings" },
+  study: { icon: BookOpen, color: "bg-indigo-500", label: "Study blocks" }, // Indigo theme for study events
+  workout: { icon: Dumbbell, color: "bg-green-500", label: "Workouts" },
+  networking: { icon: Coffee, color: "bg-orange-500", label: "Networking" },
+  recruiting: { icon: Briefcase, color: "bg-red-500", label: "Recruiting" },
+  buffer: { icon: Clock, color: "bg-gray-400", label: "Buffers" },
 };
 
+interface CalendarMenuProps {
+  calendars: ReturnType<typeof useCalendar>["calendars"];
+  defaultCalendars: ReturnType<typeof useCalendar>["defaultCalendars"];
+  onVisibleChange: (calendarId: string, visible: boolean) => void;
+  onDefaultChange: (type: EventType, calendarId: string | null) => void;
+}
+
+// Calendar overlay: show/hide each calendar and choose where new events of each type go
+function CalendarMenu({ calendars, defaultCalendars, onVisibleChange, onDefaultChange }: CalendarMenuProps) {
+  const writable = calendars.filter((calendar) => calendar.writable);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2 text-xs gap-1" title="Calendars">
+          <Layers className="w-3 h-3" />
+          {calendars.filter((calendar) => calendar.visible).length}/{calendars.length}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-muted-foreground">Show calendars</h4>
+          {calendars.map((calendar) => (
+            <label key={calendar.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={calendar.visible}
+                onCheckedChange={(checked) => onVisibleChange(calendar.id, checked === true)}
+              />
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: calendar.color }} />
+              <span className="truncate">{calendar.name}</span>
+            </label>
+          ))}
+        </div>
+        {writable.length > 1 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground">New events go to</h4>
+            {(Object.keys(typeConfig) as EventType[]).map((type) => (
+              <div key={type} className="flex items-center justify-between gap-2 text-sm">
+                <span>{typeConfig[type].label}</span>
+                <Select
+                  value={defaultCalendars[type] || "primary"}
+                  onValueChange={(calendarId) => onDefaultChange(type, calendarId === "primary" ? null : calendarId)}
+                >
+                  <SelectTrigger size="sm" className="h-7 w-36 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {writable.map((calendar) => (
+                      <SelectItem key={calendar.id} value={calendar.id} className="text-xs">
+                        {calendar.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Events shown in the all-day lane rather than at a time of day
+function isSpanning(block: TimeBlock): boolean {
+  return block.allDay || block.multiDay;
+}
+
+// Whether an event covers a calendar day; all-day dates are the same in every zone, timed events use the display zone
+function coversDay(block: TimeBlock, day: Date, displayTimeZone: string): boolean {
+  const dayKey = format(day, 'yyyy-MM-dd');
+  if (block.allDay) {
+    return format(block.startDate, 'yyyy-MM-dd') <= dayKey && dayKey < format(block.endDate, 'yyyy-MM-dd');
+  }
+  const lastInstant = new Date(Math.max(block.startDate.getTime(), block.endDate.getTime() - 1));
+  return dateKeyInZone(block.startDate, displayTimeZone) <= dayKey && dayKey <= dateKeyInZone(lastInstant, displayTimeZone);
+}
+
+// e.g. "Oct 19 - 23" for a multi-day event, shown on its chip
+function spanLabel(block: TimeBlock, displayTimeZone: string): string {
+  const first = block.allDay ? block.startDate : zonedDay(block.startDate, displayTimeZone);
+  const last = block.allDay
+    ? addDays(block.endDate, -1)
+    : zonedDay(new Date(Math.max(block.startDate.getTime(), block.endDate.getTime() - 1)), displayTimeZone);
+  if (isSameDay(first, last)) return 'All day';
+  return isSameMonth(first, last) ? `${format(first, 'MMM d')} - ${format(last, 'd')}` : `${format(first, 'MMM d')} - ${format(last, 'MMM d')}`;
+}
+
+// All-day lane chip; events marked free are shown faded, since they don't block time
+function AllDayChip({ block, displayTimeZone, className = "" }: { block: TimeBlock; displayTimeZone: string; className?: string }) {
+  return (
+    <div
+      className={`rounded px-2 py-1 text-xs truncate border-l-4 ${block.busy ? "bg-muted font-medium" : "bg-muted/40 text-muted-foreground"} ${className}`}
+      style={{ borderLeftColor: block.color }}
+      title={`${block.title} (${block.calendarName}) - ${spanLabel(block, displayTimeZone)}${block.busy ? "" : ", free"}`}
+    >
+      {block.title}
+      <span className="ml-1 opacity-70">· {spanLabel(block, displayTimeZone)}{!block.busy && " · Free"}</span>
+    </div>
+  );
+}
+
 // Draggable Event Component (for Day View)
-function DraggableEvent({ block, index, isLast, typeConfig }: { block: TimeBlock; index: number; isLast: boolean; typeConfig: typeof typeConfig }) {
+function DraggableEvent({ block, index, isLast, typeConfig, displayTimeZone, onRespond }: { block: TimeBlock; index: number; isLast: boolean; typeConfig: typeof typeConfig; displayTimeZone: string; onRespond: (block: TimeBlock, status: RsvpResponse) => void }) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
-    id: block.id,
+    id: `${block.calendarId}:${block.id}`,
     data: block,
   });
 
   const config = typeConfig[block.type];
   const Icon = config.icon;
+  const guestSummary = summarizeResponses(block.attendees);
+  // Invitations from someone else; the organizer's own entry is always "accepted"
+  const isInvitation = block.responseStatus !== undefined && !block.attendees?.some((attendee) => attendee.self && attendee.organizer);
+  // Events scheduled in another zone (e.g. a call set up from abroad) also show their own local time
+  const eventZone = block.timeZone && !sameWallClock(block.timeZone, displayTimeZone, block.startDate) ? block.timeZone : null;
   const style = transform ? {
     transform: `translateY(${transform.y}px)`,
   } : undefined;
@@ -83,7 +225,10 @@ function DraggableEvent({ block, index, isLast, typeConfig }: { block: TimeBlock
           } ${isDragging ? "shadow-lg" : ""}`}
         >
           <div className="flex items-start justify-between gap-2 mb-1">
-            <h4 className="font-semibold text-sm">{block.title}</h4>
+            <h4 className="font-semibold text-sm flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: block.color }} title={block.calendarName} />
+              {block.title}
+            </h4>
             <Badge
               variant={block.priority === "hard-block" ? "default" : "outline"}
               className="text-xs shrink-0"
@@ -94,6 +239,19 @@ function DraggableEvent({ block, index, isLast, typeConfig }: { block: TimeBlock
           <div className="flex items-center gap-3 text-xs text-muted-foreground">
             <span>{block.duration} min</span>
             {block.location && <span>• {block.location}</span>}
+            {block.recurringEventId && (
+              <span className="flex items-center gap-1">• <Repeat className="w-3 h-3" /> Repeats</span>
+            )}
+            {eventZone && (
+              <span className="flex items-center gap-1" title={eventZone}>
+                • <Globe className="w-3 h-3" /> {formatTimeInZone(block.startDate, eventZone)} {timeZoneAbbreviation(eventZone, block.startDate)}
+              </span>
+            )}
+            {guestSummary && (
+              <span className="flex items-center gap-1" title={describeGuests(block.attendees).join("\n")}>
+                • <Users className="w-3 h-3" /> {guestSummary}
+              </span>
+            )}
             {block.status === "current" && (
               <span className="text-blue-500 font-semibold">• In Progress</span>
             )}
@@ -101,6 +259,25 @@ function DraggableEvent({ block, index, isLast, typeConfig }: { block: TimeBlock
               <span className="text-green-500 font-semibold">• Agent Suggested</span>
             )}
           </div>
+          {isInvitation && block.status !== "completed" && (
+            <div className="flex items-center gap-1.5 mt-2 text-xs">
+              <span className={block.responseStatus === "needsAction" ? "font-semibold text-orange-500" : "text-muted-foreground"}>
+                {block.responseStatus === "needsAction" ? "Going?" : RESPONSE_LABELS[block.responseStatus!]}
+              </span>
+              {RSVP_OPTIONS.map(({ status, label }) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={block.responseStatus === status ? "default" : "outline"}
+                  className="h-6 px-2 text-xs"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => onRespond(block, status)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -108,68 +285,90 @@ function DraggableEvent({ block, index, isLast, typeConfig }: { block: TimeBlock
 }
 
 // Week View Component
-function WeekView({ timeBlocks, currentDate, typeConfig }: { timeBlocks: TimeBlock[]; currentDate: Date; typeConfig: typeof typeConfig }) {
+function WeekView({ timeBlocks, currentDate, typeConfig, displayTimeZone }: { timeBlocks: TimeBlock[]; currentDate: Date; typeConfig: typeof typeConfig; displayTimeZone: string }) {
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
   const weekDays = eachDayOfInterval({ start: weekStart, end: endOfWeek(currentDate, { weekStartsOn: 1 }) });
   
-  // Group events by day
+  // Group timed events by day (in the display zone); all-day and multi-day events span the lane above
   const eventsByDay = weekDays.map(day => ({
     date: day,
-    events: timeBlocks.filter(block => isSameDay(block.startDate, day))
+    events: timeBlocks.filter(block => !isSpanning(block) && dateKeyInZone(block.startDate, displayTimeZone) === format(day, 'yyyy-MM-dd'))
   }));
+  const laneEvents = timeBlocks
+    .filter(isSpanning)
+    .map(block => {
+      const covered = weekDays.map((day, index) => (coversDay(block, day, displayTimeZone) ? index : -1)).filter(index => index >= 0);
+      return { block, first: covered[0], last: covered[covered.length - 1] };
+    })
+    .filter(({ first }) => first !== undefined);
 
   return (
-    <div className="grid grid-cols-7 gap-2">
-      {eventsByDay.map(({ date, events }) => (
-        <div key={date.toISOString()} className="border rounded-lg p-2 min-h-[200px]">
-          <div className={`text-xs font-semibold mb-2 ${isTodayGlobal(date) ? 'text-blue-500' : 'text-muted-foreground'}`}>
-            {format(date, 'EEE')}
-          </div>
-          <div className={`text-sm font-bold mb-2 ${isTodayGlobal(date) ? 'text-blue-500' : ''}`}>
-            {format(date, 'd')}
-          </div>
-          <div className="space-y-1">
-            {events.map(block => {
-              const config = typeConfig[block.type];
-              const Icon = config.icon;
-              return (
-                <div
-                  key={block.id}
-                  className={`rounded p-1.5 text-xs ${config.color} text-white truncate cursor-pointer hover:opacity-80`}
-                  title={block.title}
-                >
-                  <div className="flex items-center gap-1">
-                    <Icon className="w-3 h-3 shrink-0" />
-                    <span className="font-medium">{block.time}</span>
+    <div className="space-y-2">
+      {laneEvents.length > 0 && (
+        <div className="grid grid-cols-7 gap-x-2 gap-y-1">
+          {laneEvents.map(({ block, first, last }) => (
+            <div key={`${block.calendarId}:${block.id}`} style={{ gridColumn: `${first + 1} / ${last + 2}` }}>
+              <AllDayChip block={block} displayTimeZone={displayTimeZone} />
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-7 gap-2">
+        {eventsByDay.map(({ date, events }) => (
+          <div key={date.toISOString()} className="border rounded-lg p-2 min-h-[200px]">
+            <div className={`text-xs font-semibold mb-2 ${isTodayGlobal(date) ? 'text-blue-500' : 'text-muted-foreground'}`}>
+              {format(date, 'EEE')}
+            </div>
+            <div className={`text-sm font-bold mb-2 ${isTodayGlobal(date) ? 'text-blue-500' : ''}`}>
+              {format(date, 'd')}
+            </div>
+            <div className="space-y-1">
+              {events.map(block => {
+                const config = typeConfig[block.type];
+                const Icon = config.icon;
+                return (
+                  <div
+                    key={`${block.calendarId}:${block.id}`}
+                    className={`rounded p-1.5 text-xs ${config.color} text-white truncate cursor-pointer hover:opacity-80 border-l-4`}
+                    style={{ borderLeftColor: block.color }}
+                    title={`${block.title} (${block.calendarName})`}
+                  >
+                    <div className="flex items-center gap-1">
+                      <Icon className="w-3 h-3 shrink-0" />
+                      <span className="font-medium">{block.time}</span>
+                    </div>
+                    <div className="truncate">{block.title}</div>
                   </div>
-                  <div className="truncate">{block.title}</div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
           </div>
-        </div>
-      ))}
+        ))}
+      </div>
     </div>
   );
 }
 
 // Month View Component
-function MonthView({ timeBlocks, currentDate, typeConfig }: { timeBlocks: TimeBlock[]; currentDate: Date; typeConfig: typeof typeConfig }) {
+function MonthView({ timeBlocks, currentDate, typeConfig, displayTimeZone }: { timeBlocks: TimeBlock[]; currentDate: Date; typeConfig: typeof typeConfig; displayTimeZone: string }) {
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
   const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 });
   const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 });
   const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
   
-  // Group events by day
+  // Group events by day (in the display zone); all-day and multi-day events go first on every day they cover
   const eventsByDay = new Map<string, TimeBlock[]>();
-  timeBlocks.forEach(block => {
-    const dateKey = format(block.startDate, 'yyyy-MM-dd');
+  const addToDay = (dateKey: string, block: TimeBlock) => {
     if (!eventsByDay.has(dateKey)) {
       eventsByDay.set(dateKey, []);
     }
     eventsByDay.get(dateKey)!.push(block);
+  };
+  timeBlocks.filter(isSpanning).forEach(block => {
+    calendarDays.filter(day => coversDay(block, day, displayTimeZone)).forEach(day => addToDay(format(day, 'yyyy-MM-dd'), block));
   });
+  timeBlocks.filter(block => !isSpanning(block)).forEach(block => addToDay(dateKeyInZone(block.startDate, displayTimeZone), block));
 
   const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
   const weeks: Date[][] = [];
@@ -213,9 +412,10 @@ function MonthView({ timeBlocks, currentDate, typeConfig }: { timeBlocks: TimeBl
                     const Icon = config.icon;
                     return (
                       <div
-                        key={block.id}
-                        className={`rounded px-1 py-0.5 text-[10px] ${config.color} text-white truncate`}
-                        title={`${block.time} - ${block.title}`}
+                        key={`${block.calendarId}:${block.id}`}
+                        className={`rounded px-1 py-0.5 text-[10px] ${config.color} text-white truncate border-l-2 ${isSpanning(block) && !block.busy ? 'opacity-60' : ''}`}
+                        style={{ borderLeftColor: block.color }}
+                        title={`${isSpanning(block) ? spanLabel(block, displayTimeZone) : block.time} - ${block.title} (${block.calendarName})`}
                       >
                         <div className="flex items-center gap-0.5">
                           <Icon className="w-2 h-2 shrink-0" />
@@ -239,6 +439,22 @@ function MonthView({ timeBlocks, currentDate, typeConfig }: { timeBlocks: TimeBl
   );
 }
 
+// First and last instant shown by a view, with day boundaries in the display zone
+function viewRange(view: "day" | "week" | "month", currentDate: Date, timeZone: string): { startDate: Date; endDate: Date } {
+  if (view === 'day') {
+    return { startDate: startOfDayInZone(currentDate, timeZone), endDate: endOfDayInZone(currentDate, timeZone) };
+  } else if (view === 'week') {
+    return {
+      startDate: startOfDayInZone(startOfWeek(currentDate, { weekStartsOn: 1 }), timeZone),
+      endDate: endOfDayInZone(endOfWeek(currentDate, { weekStartsOn: 1 }), timeZone),
+    };
+  }
+  return {
+    startDate: startOfDayInZone(startOfMonth(currentDate), timeZone),
+    endDate: endOfDayInZone(endOfMonth(currentDate), timeZone),
+  };
+}
+
 interface TimelineViewProps {
   selectedDate?: Date;
   onDateChange?: (date: Date) => void;
@@ -247,8 +463,24 @@ interface TimelineViewProps {
 export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps = {}) {
   const [view, setView] = useState<"day" | "week" | "month">("day");
   const [internalDate, setInternalDate] = useState(() => getToday());
-  const { loading: calendarLoading, error: calendarError, getEvents, fetchEvents } = useCalendar();
-  const { connected, loading: mcpLoading, error: mcpError, callTool, connect } = useMcpServer('google-calendar');
+  const [importOpen, setImportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const {
+    loading: calendarLoading,
+    error: calendarError,
+    getEvents,
+    fetchEvents,
+    invalidateCache,
+    calendars,
+    setCalendarVisible,
+    defaultCalendars,
+    setDefaultCalendar,
+    homeTimeZone,
+    displayTimeZone,
+  } = useCalendar();
+  const { connected, health, status: mcpStatus, loading: mcpLoading, error: mcpError, connect, reset } = useMcpServer('google-calendar');
+  const { authenticated, signingIn, signIn } = useGoogleCalendarAuth({ onSignedIn: () => handleReconnect() });
+  const calendarTools = useCalendarTools();
 
   // Use controlled date if provided, otherwise use internal state
   const currentDate = selectedDate || internalDate;
@@ -266,32 +498,31 @@ export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps =
   );
 
   const loadCalendarEvents = useCallback(async () => {
-    let startDate: Date;
-    let endDate: Date;
-
-    if (view === 'day') {
-      startDate = startOfDay(currentDate);
-      endDate = endOfDay(currentDate);
-    } else if (view === 'week') {
-      startDate = startOfWeek(currentDate, { weekStartsOn: 1 });
-      endDate = endOfWeek(currentDate, { weekStartsOn: 1 });
-    } else { // month
-      startDate = startOfMonth(currentDate);
-      endDate = endOfMonth(currentDate);
-    }
+    const { startDate, endDate } = viewRange(view, currentDate, displayTimeZone);
     await fetchEvents(startDate, endDate);
-    // Only depend on view and currentDate - fetchEvents is stable from useCallback
+    // Only depend on the range - fetchEvents is stable from useCallback
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [view, currentDate]);
+  }, [view, currentDate, displayTimeZone]);
 
   useEffect(() => {
     loadCalendarEvents();
   }, [loadCalendarEvents]);
 
-  const timeBlocks = getEvents(
-    view === 'day' ? startOfDay(currentDate) : view === 'week' ? startOfWeek(currentDate, { weekStartsOn: 1 }) : startOfMonth(currentDate),
-    view === 'day' ? endOfDay(currentDate) : view === 'week' ? endOfWeek(currentDate, { weekStartsOn: 1 }) : endOfMonth(currentDate)
-  );
+  // Reload once the calendar server comes back after a dropped connection
+  const previousHealthRef = useRef(health);
+  useEffect(() => {
+    const previous = previousHealthRef.current;
+    previousHealthRef.current = health;
+    if (health === 'healthy' && (previous === 'degraded' || previous === 'down')) {
+      loadCalendarEvents();
+    }
+  }, [health, loadCalendarEvents]);
+
+  const visibleRange = viewRange(view, currentDate, displayTimeZone);
+  const timeBlocks = getEvents(visibleRange.startDate, visibleRange.endDate);
+  const allDayBlocks = timeBlocks.filter(isSpanning);
+  const timedBlocks = timeBlocks.filter(block => !isSpanning(block));
+  const awayFromHome = !sameWallClock(homeTimeZone, localTimeZone());
 
   const formatDateRange = () => {
     if (view === 'day') {
@@ -345,31 +576,109 @@ export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps =
       const newEnd = new Date(block.endDate);
       newEnd.setMinutes(newEnd.getMinutes() + minutesDelta);
       
-      await callTool('update_event', {
-        calendarId: 'primary',
+      // Stay in the event's own zone so its local time moves by exactly the dragged amount;
+      // moved only if the new time is free on every calendar
+      const timeZone = block.timeZone || homeTimeZone;
+      const result = await calendarTools.updateEventIfFree({
+        calendarId: block.calendarId,
         eventId: block.id,
-        start: {
-          dateTime: newStart.toISOString(),
-        },
-        end: {
-          dateTime: newEnd.toISOString(),
-        },
-      });
+        start: toEventDateTime(newStart, timeZone),
+        end: toEventDateTime(newEnd, timeZone),
+      }, { source: 'timeline-drag' });
+
+      if (isConflictReport(result)) {
+        const { conflicts, alternatives } = fromConflictReport(result, displayTimeZone);
+        const conflict = conflicts[0];
+        const conflictStart = new Date(conflict.start.dateTime || conflict.start.date || newStart);
+        let description = `"${block.title}" would overlap "${conflict.summary || 'another event'}" at ${formatTimeInZone(conflictStart, displayTimeZone)}.`;
+        if (alternatives.length > 0) {
+          description += ` Try: ${alternatives.map((slot) => slot.label.split(' (')[0]).join(', ')}`;
+        }
+        toast.error("Time conflict detected", { description });
+        return;
+      }
       
+      invalidateCache();
       await loadCalendarEvents();
     } catch (err: any) {
       console.error('Error updating event:', err);
+      toast.error('Could not move event', { description: err.message });
+    }
+  };
+
+  // RSVP to an invitation; the organizer is emailed the response
+  const handleRespond = async (block: TimeBlock, responseStatus: RsvpResponse) => {
+    if (block.responseStatus === responseStatus) return;
+    try {
+      await calendarTools.respondToEvent({ calendarId: block.calendarId, eventId: block.id, responseStatus }, { source: 'timeline-rsvp' });
+      invalidateCache();
+      await loadCalendarEvents();
+    } catch (err: any) {
+      console.error('Error responding to event:', err);
     }
   };
 
+  // Download the shown day, week or month from the visible calendars as an .ics file
+  const handleExport = async () => {
+    const { startDate, endDate } = viewRange(view, currentDate, displayTimeZone);
+    setExporting(true);
+    try {
+      const visibleCalendars = calendars.filter((calendar) => calendar.visible);
+      const calendarIds = visibleCalendars.length > 0 ? visibleCalendars.map((calendar) => calendar.id) : ['primary'];
+      const eventLists = await Promise.all(calendarIds.map((calendarId) => calendarTools.listEvents({
+        calendarId,
+        timeMin: startDate.toISOString(),
+        timeMax: endDate.toISOString(),
+        singleEvents: true,
+        maxResults: 2500,
+      }, { source: 'timeline-export' })));
+
+      const firstDay = format(zonedDay(startDate, displayTimeZone), 'yyyy-MM-dd');
+      const lastDay = format(zonedDay(endDate, displayTimeZone), 'yyyy-MM-dd');
+      const name = firstDay === lastDay ? firstDay : `${firstDay}-${lastDay}`;
+      // An event shared between two visible calendars is listed on both; write it once per UID
+      const events = [...new Map(eventLists.flat().map((event) => [event.id, event])).values()];
+      const ics = serializeIcs(events, { name: `Kaisey ${name}` });
+
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `kaisey-${name}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Error exporting events:', err);
+      toast.error('Could not export events', { description: err.message });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Start a fresh MCP session so the server's new Google credentials are picked up
+  const handleReconnect = async () => {
+    await reset();
+    // Possibly a different Google account - start over with a full sync
+    invalidateCache({ resync: true });
+    await loadCalendarEvents();
+  };
+
   const isLoading = calendarLoading || mcpLoading;
+  const isReconnecting = health === 'degraded' || health === 'down';
 
-  if (isLoading && timeBlocks.length === 0) {
+  // Status line shown while there is nothing to render yet
+  const connectionMessage = () => {
+    if (health === 'healthy' || connected) return 'Loading calendar...';
+    if (health === 'degraded') return 'Calendar server connection lost. Reconnecting...';
+    if (health === 'down') return 'Calendar server is unreachable. Retrying in the background...';
+    return 'Connecting to calendar...';
+  };
+
+  if ((isLoading || health === 'connecting') && timeBlocks.length === 0) {
     return (
       <Card className="p-4">
         <div className="flex items-center justify-center py-8">
           <div className="text-sm text-muted-foreground">
-            {connected ? 'Loading calendar...' : 'Connecting to calendar...'}
+            {connectionMessage()}
           </div>
         </div>
       </Card>
@@ -422,6 +731,42 @@ export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps =
             <ChevronRight className="w-4 h-4" />
           </Button>
           <span className="text-xs text-muted-foreground min-w-[140px] text-right">{formatDateRange()}</span>
+          <Badge
+            variant={awayFromHome ? "secondary" : "outline"}
+            className="text-[10px] gap-1"
+            title={`Times shown in ${displayTimeZone}${displayTimeZone === homeTimeZone ? " (home)" : " (current location)"}`}
+          >
+            <Globe className="w-3 h-3" />
+            {timeZoneAbbreviation(displayTimeZone)}
+            {awayFromHome && (displayTimeZone === homeTimeZone ? " · home" : " · local")}
+          </Badge>
+          {calendars.length > 1 && (
+            <CalendarMenu
+              calendars={calendars}
+              defaultCalendars={defaultCalendars}
+              onVisibleChange={setCalendarVisible}
+              onDefaultChange={setDefaultCalendar}
+            />
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setImportOpen(true)}
+            className="h-6 w-6 p-0"
+            title="Import .ics"
+          >
+            <Upload className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleExport}
+            disabled={exporting}
+            className="h-6 w-6 p-0"
+            title={`Export ${view} as .ics`}
+          >
+            <Download className="w-3 h-3" />
+          </Button>
           <Button
             size="sm"
             variant="ghost"
@@ -434,18 +779,42 @@ export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps =
         </div>
       </div>
 
-      {(calendarError || (mcpError && !connected)) && (
+      {isReconnecting && (
+        <div className="mb-4 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+          <p className="text-sm text-amber-700">
+            {connectionMessage()}
+            {mcpStatus?.nextRetryAt && mcpStatus.nextRetryAt > Date.now() &&
+              ` Next attempt in ${Math.ceil((mcpStatus.nextRetryAt - Date.now()) / 1000)}s.`}
+          </p>
+        </div>
+      )}
+
+      {(calendarError || (mcpError && !connected)) && !isReconnecting && (
         <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20">
           <p className="text-sm text-red-600">{calendarError || mcpError}</p>
-          <a
-            href="https://automba-ai-qqyo.onrender.com/auth/url"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-sm text-blue-600 hover:text-blue-800 underline inline-flex items-center gap-1 mt-2"
-          >
-            Authenticate here when error persists
-            <ExternalLink className="w-3 h-3" />
-          </a>
+          {authenticated === false && (
+            <button
+              type="button"
+              onClick={signIn}
+              disabled={signingIn}
+              className="text-sm text-blue-600 hover:text-blue-800 underline inline-flex items-center gap-1 mt-2"
+            >
+              {signingIn ? "Waiting for Google sign-in..." : "Sign in to Google Calendar"}
+              <ExternalLink className="w-3 h-3" />
+            </button>
+          )}
+          <div className="mt-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleReconnect}
+              disabled={isLoading}
+              className="h-7 text-xs"
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Reconnect after signing in
+            </Button>
+          </div>
         </div>
       )}
 
@@ -456,19 +825,32 @@ export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps =
       )}
 
       {/* Render based on view */}
-      {view === 'day' && timeBlocks.length > 0 && (
+      {view === 'day' && allDayBlocks.length > 0 && (
+        <div className="flex gap-4 mb-4">
+          <div className="w-16 text-xs text-muted-foreground pt-1">All day</div>
+          <div className="flex-1 space-y-1">
+            {allDayBlocks.map(block => (
+              <AllDayChip key={`${block.calendarId}:${block.id}`} block={block} displayTimeZone={displayTimeZone} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {view === 'day' && timedBlocks.length > 0 && (
         <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
           <div className="relative">
             {/* Timeline line */}
             <div className="absolute left-[27px] top-0 bottom-0 w-0.5 bg-border"></div>
 
-            {timeBlocks.map((block, index) => (
+            {timedBlocks.map((block, index) => (
               <DraggableEvent
-                key={block.id}
+                key={`${block.calendarId}:${block.id}`}
                 block={block}
                 index={index}
-                isLast={index === timeBlocks.length - 1}
+                isLast={index === timedBlocks.length - 1}
                 typeConfig={typeConfig}
+                displayTimeZone={displayTimeZone}
+                onRespond={handleRespond}
               />
             ))}
           </div>
@@ -476,12 +858,21 @@ export function TimelineView({ selectedDate, onDateChange }: TimelineViewProps =
       )}
 
       {view === 'week' && timeBlocks.length > 0 && (
-        <WeekView timeBlocks={timeBlocks} currentDate={currentDate} typeConfig={typeConfig} />
+        <WeekView timeBlocks={timeBlocks} currentDate={currentDate} typeConfig={typeConfig} displayTimeZone={displayTimeZone} />
       )}
 
       {view === 'month' && timeBlocks.length > 0 && (
-        <MonthView timeBlocks={timeBlocks} currentDate={currentDate} typeConfig={typeConfig} />
+        <MonthView timeBlocks={timeBlocks} currentDate={currentDate} typeConfig={typeConfig} displayTimeZone={displayTimeZone} />
       )}
+
+      <ImportIcsDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onSuccess={() => {
+          invalidateCache();
+          loadCalendarEvents();
+        }}
+      />
     </Card>
   );
 }
@@ -0,0 +1,47 @@
+// Academic Profile configuration
+// Grade Non-Disclosure (GND) and the user's grade goal, saved in localStorage (set in the profile section)
+
+const ACADEMIC_PROFILE_STORAGE_KEY = "nexus_academic_profile";
+
+// Under GND, passing is usually enough; "honors" includes Dean's List
+export type GradeGoal = "pass" | "high-pass" | "honors";
+
+export const GRADE_GOAL_LABELS: Record<GradeGoal, string> = {
+  pass: "Pass",
+  "high-pass": "High Pass",
+  honors: "Honors / Dean's List",
+};
+
+export interface AcademicProfile {
+  // The program doesn't disclose grades to employers
+  gradeNonDisclosure: boolean;
+  gradeGoal: GradeGoal;
+}
+
+// Most top MBA programs have GND, and passing is the usual goal there
+const DEFAULT_ACADEMIC_PROFILE: AcademicProfile = { gradeNonDisclosure: true, gradeGoal: "pass" };
+
+export function getAcademicProfile(): AcademicProfile {
+  if (typeof window === "undefined") return DEFAULT_ACADEMIC_PROFILE;
+  try {
+    const stored = localStorage.getItem(ACADEMIC_PROFILE_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        gradeNonDisclosure: typeof parsed.gradeNonDisclosure === "boolean" ? parsed.gradeNonDisclosure : DEFAULT_ACADEMIC_PROFILE.gradeNonDisclosure,
+        gradeGoal: parsed.gradeGoal in GRADE_GOAL_LABELS ? parsed.gradeGoal : DEFAULT_ACADEMIC_PROFILE.gradeGoal,
+      };
+    }
+  } catch (error) {
+    console.error('[AcademicProfile] Failed to load academic profile:', error);
+  }
+  return DEFAULT_ACADEMIC_PROFILE;
+}
+
+/**
+ * Save the academic profile and notify listeners (CanvasContext re-prioritizes assignments)
+ */
+export function setAcademicProfile(profile: AcademicProfile): void {
+  localStorage.setItem(ACADEMIC_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  window.dispatchEvent(new CustomEvent('academicProfileUpdated'));
+}
@@ -1,19 +1,75 @@
 // MCP Server Configuration
 // Defines the MCP servers available to the web application
 
+import type { McpRetryPolicy } from '@/services/mcpClient';
+
 export interface McpServerConfig {
   name: string;
   url: string;
   headers?: Record<string, string>;
   enabled: boolean;
   description?: string;
+  timeoutMs?: number;
+  retryPolicies?: Record<string, McpRetryPolicy>;
 }
 
+// Read-only calendar tools can safely be re-sent; writes like create_event never are
+const CALENDAR_READ_RETRY: McpRetryPolicy = { maxAttempts: 3, baseDelayMs: 500 };
+// Every Canvas tool only reads
+const CANVAS_READ_RETRY: McpRetryPolicy = { maxAttempts: 2, baseDelayMs: 1000 };
+
+// Demo mode: in-memory mock servers with fixture data replace the calendar and Canvas backends
+// (see services/mocks), so the app runs without OAuth, a Canvas token or a network.
+
+const DEMO_MODE_STORAGE_KEY = "nexus_demo_mode";
+
+const DEMO_SERVER_URLS: Record<string, string> = {
+  'google-calendar': 'mock://google-calendar',
+  canvas: 'mock://canvas',
+};
+
 /**
- * Get MCP server configurations
- * Reads from environment variables for API keys
+ * Whether demo mode is on - VITE_MCP_DEMO_MODE=true, or the toggle in Settings
  */
-export function getMcpServerConfigs(): McpServerConfig[] {
+export function isDemoMode(): boolean {
+  if (import.meta.env.VITE_MCP_DEMO_MODE === 'true') return true;
+  if (typeof window === "undefined") return false;
+  return localStorage.getItem(DEMO_MODE_STORAGE_KEY) === 'true';
+}
+
+/**
+ * Turn demo mode on or off and notify listeners (App re-feeds McpProvider)
+ */
+export function setDemoMode(enabled: boolean): void {
+  if (enabled) {
+    localStorage.setItem(DEMO_MODE_STORAGE_KEY, 'true');
+  } else {
+    localStorage.removeItem(DEMO_MODE_STORAGE_KEY);
+  }
+  window.dispatchEvent(new CustomEvent('mcpServersUpdated'));
+}
+
+/**
+ * Point servers that have a mock at it, enabled and without credentials
+ */
+function applyDemoMode(servers: McpServerConfig[]): McpServerConfig[] {
+  return servers.map((server) => {
+    const demoUrl = DEMO_SERVER_URLS[server.name];
+    if (!demoUrl) return server;
+    return {
+      ...server,
+      url: demoUrl,
+      headers: {},
+      enabled: true,
+      description: 'Demo mode - in-memory server with sample data',
+    };
+  });
+}
+
+/**
+ * Every built-in server as configured by environment variables, including ones without a URL
+ */
+function builtInServerConfigs(): McpServerConfig[] {
   const servers: McpServerConfig[] = [];
 
   // Google Maps MCP Server
@@ -52,17 +108,143 @@ export function getMcpServerConfigs(): McpServerConfig[] {
     headers: {},
     enabled: true,
     description: 'Google Calendar MCP - Requires backend server running on port 3000',
+    // Slightly above the server's own Google API timeout so its error reaches us first
+    timeoutMs: 25000,
+    retryPolicies: {
+      list_calendars: CALENDAR_READ_RETRY,
+      list_events: CALENDAR_READ_RETRY,
+      get_event: CALENDAR_READ_RETRY,
+      freebusy: CALENDAR_READ_RETRY,
+    },
   });
 
-  // Canvas MCP Server
-  // Placeholder for future Canvas LMS MCP integration
+  // Canvas MCP Server (Canvas_MCPTest/mcp-canvas-server.js)
+  // In development: uses Vite proxy to localhost:3001
+  // In production: only when VITE_CANVAS_MCP_URL points at a deployed server
+  const canvasServerUrl = import.meta.env.VITE_CANVAS_MCP_URL ||
+    (import.meta.env.DEV ? '/api/mcp-canvas/mcp' : '');
   servers.push({
     name: 'canvas',
-    url: '', // Will be set up when Canvas MCP is available
+    url: canvasServerUrl,
     headers: {},
-    enabled: false,
-    description: 'Canvas LMS - Coming soon',
+    enabled: !!canvasServerUrl,
+    description: canvasServerUrl
+      ? 'Canvas LMS MCP - Requires backend server running on port 3001'
+      : 'Canvas LMS - Requires VITE_CANVAS_MCP_URL',
+    // list_user_course_items reads every active course, which can take a while
+    timeoutMs: 60000,
+    retryPolicies: {
+      list_courses: CANVAS_READ_RETRY,
+      list_assignments: CANVAS_READ_RETRY,
+      get_assignment: CANVAS_READ_RETRY,
+      list_user_assignments: CANVAS_READ_RETRY,
+      list_user_course_items: CANVAS_READ_RETRY,
+      list_announcements: CANVAS_READ_RETRY,
+      list_quizzes: CANVAS_READ_RETRY,
+      list_calendar_events: CANVAS_READ_RETRY,
+      get_user_profile: CANVAS_READ_RETRY,
+    },
   });
 
-  return servers.filter((s) => s.enabled || s.url); // Only return servers with URLs or enabled
+  return servers;
+}
+
+/**
+ * Built-in servers as configured, ignoring demo mode
+ * What Settings shows and saves overrides from, so a demo mock URL never ends up in the user's registry.
+ */
+export function getBuiltInMcpServerConfigs(): McpServerConfig[] {
+  return builtInServerConfigs().filter((s) => s.enabled || s.url); // Only return servers with URLs or enabled
+}
+
+/**
+ * Get MCP server configurations
+ * Reads from environment variables for API keys
+ */
+export function getMcpServerConfigs(): McpServerConfig[] {
+  return isDemoMode() ? applyDemoMode(builtInServerConfigs()) : getBuiltInMcpServerConfigs();
+}
+
+/**
+ * Base URL of the calendar MCP server's HTTP routes (/health, /auth/url, /auth/logout)
+ * Derived from its MCP endpoint; null in demo mode, where there is no backend.
+ */
+export function getCalendarServerBaseUrl(): string | null {
+  if (isDemoMode()) return null;
+  const calendarServer = getAllMcpServerConfigs().find((s) => s.name === 'google-calendar');
+  if (!calendarServer?.url) return null;
+  return calendarServer.url.replace(/\/mcp\/?$/, '');
+}
+
+// User-managed registry (set via Settings UI)
+// Entries with the same name as a built-in server override it.
+
+const USER_SERVERS_STORAGE_KEY = "nexus_mcp_servers";
+
+export interface UserMcpServerConfig {
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+  // Sent as "Authorization: Bearer <token>"
+  authToken?: string;
+  enabled: boolean;
+  description?: string;
+}
+
+/**
+ * Load the user's MCP servers from localStorage
+ */
+export function getUserMcpServers(): UserMcpServerConfig[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(USER_SERVERS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[McpServers] Error loading user servers:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the user's MCP servers and notify listeners (App re-feeds McpProvider)
+ */
+export function saveUserMcpServers(servers: UserMcpServerConfig[]): void {
+  localStorage.setItem(USER_SERVERS_STORAGE_KEY, JSON.stringify(servers));
+  window.dispatchEvent(new CustomEvent('mcpServersUpdated'));
+}
+
+/**
+ * Merge a user entry's auth token into its request headers
+ */
+export function toServerConfig(server: UserMcpServerConfig): McpServerConfig {
+  const headers = { ...(server.headers || {}) };
+  if (server.authToken) {
+    headers['Authorization'] = `Bearer ${server.authToken}`;
+  }
+  return {
+    name: server.name,
+    url: server.url,
+    headers,
+    enabled: server.enabled,
+    description: server.description,
+  };
+}
+
+/**
+ * Built-in servers with the user's registry applied on top
+ * Overrides keep the built-in timeout and retry policies. In demo mode the mocks win over user URLs.
+ */
+export function getAllMcpServerConfigs(): McpServerConfig[] {
+  const merged = new Map(getMcpServerConfigs().map((s) => [s.name, s]));
+  for (const userServer of getUserMcpServers()) {
+    const builtIn = merged.get(userServer.name);
+    merged.set(userServer.name, {
+      ...builtIn,
+      ...toServerConfig(userServer),
+    });
+  }
+  const all = Array.from(merged.values());
+  return isDemoMode() ? applyDemoMode(all) : all;
 }
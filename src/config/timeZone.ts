@@ -0,0 +1,50 @@
+// Time Zone configuration
+// The user's home time zone and which zone the calendar is shown in, saved in localStorage (set via Settings UI)
+
+import { localTimeZone } from '@/services/calendarTools';
+
+const HOME_TIME_ZONE_STORAGE_KEY = "nexus_home_time_zone";
+const TIME_ZONE_DISPLAY_STORAGE_KEY = "nexus_time_zone_display";
+
+// "home" keeps times on the home calendar while travelling; "current" follows the device's zone
+export type TimeZoneDisplay = "home" | "current";
+
+/**
+ * The user's home time zone - where new events are anchored. Defaults to the device's zone.
+ */
+export function getHomeTimeZone(): string {
+  if (typeof window !== "undefined") {
+    const stored = localStorage.getItem(HOME_TIME_ZONE_STORAGE_KEY);
+    if (stored) return stored;
+  }
+  return localTimeZone();
+}
+
+export function getTimeZoneDisplay(): TimeZoneDisplay {
+  if (typeof window === "undefined") return "home";
+  return localStorage.getItem(TIME_ZONE_DISPLAY_STORAGE_KEY) === "current" ? "current" : "home";
+}
+
+/**
+ * The zone times are shown and entered in
+ */
+export function getDisplayTimeZone(): string {
+  return getTimeZoneDisplay() === "home" ? getHomeTimeZone() : localTimeZone();
+}
+
+/**
+ * Save the time zone settings and notify listeners (CalendarContext re-formats event times)
+ */
+export function setTimeZoneSettings(settings: { homeTimeZone?: string | null; display?: TimeZoneDisplay }): void {
+  if (settings.homeTimeZone !== undefined) {
+    if (settings.homeTimeZone) {
+      localStorage.setItem(HOME_TIME_ZONE_STORAGE_KEY, settings.homeTimeZone);
+    } else {
+      localStorage.removeItem(HOME_TIME_ZONE_STORAGE_KEY);
+    }
+  }
+  if (settings.display) {
+    localStorage.setItem(TIME_ZONE_DISPLAY_STORAGE_KEY, settings.display);
+  }
+  window.dispatchEvent(new CustomEvent('timeZoneSettingsUpdated'));
+}
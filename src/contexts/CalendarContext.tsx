@@ -1,7 +1,13 @@
 
-import { createContext, useContext, useState, useCallback, useRef, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
 import { useMcpServer } from '@/hooks/useMcpServer';
-import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
+import { useCalendarTools } from '@/hooks/useCalendarTools';
+import { AttendeeResponseStatus, calendarEventsUri, EventAttendee, EventExtendedProperties, EventTransparency, GoogleCalendarListEntry } from '@/services/calendarTools';
+import { selfResponseStatus } from '@/utils/attendees';
+import { KaiseyMetadata, parseKaiseyMetadata } from '@/utils/kaiseyMetadata';
+import { dateKeyInZone, formatTimeInZone } from '@/utils/timeZone';
+import { getDisplayTimeZone, getHomeTimeZone } from '@/config/timeZone';
+import { addDays, startOfDay, endOfDay, differenceInCalendarDays, format, parseISO } from 'date-fns';
 
 interface CalendarEvent {
   id: string;
@@ -9,35 +15,173 @@ interface CalendarEvent {
   start: {
     dateTime?: string;
     date?: string;
+    timeZone?: string;
   };
   end: {
     dateTime?: string;
     date?: string;
+    timeZone?: string;
   };
   location?: string;
   description?: string;
+  recurringEventId?: string;
+  status?: string;
+  attendees?: EventAttendee[];
+  transparency?: EventTransparency;
+  extendedProperties?: EventExtendedProperties;
 }
 
+export type EventType = "class" | "meeting" | "study" | "workout" | "networking" | "recruiting" | "buffer";
+
 interface ParsedEvent {
   id: string;
+  // "HH:mm" in the display time zone
   time: string;
   duration: number;
   title: string;
-  type: "class" | "meeting" | "study" | "workout" | "networking" | "recruiting" | "buffer";
+  type: EventType;
   status: "completed" | "current" | "upcoming" | "suggested";
   location?: string;
   priority: "hard-block" | "flexible" | "optional";
   startDate: Date;
   endDate: Date;
+  // Date-only event (Google's start.date): startDate/endDate are local midnights, endDate exclusive
+  allDay: boolean;
+  // Covers more than one day, e.g. a trek or exam week; shown in the all-day lane
+  multiDay: boolean;
+  // Blocks time for scheduling; false for events marked free (all-day events usually are)
+  busy: boolean;
+  // Series id when this is one occurrence of a recurring event
+  recurringEventId?: string;
+  // Guests with their responses; unset for events without guests
+  attendees?: EventAttendee[];
+  // The user's own response when they are a guest
+  responseStatus?: AttendeeResponseStatus;
+  // Zone the event was scheduled in (Google's start.timeZone); keep it when rescheduling
+  timeZone?: string;
+  // Set on events Kaisey created: where it came from, tier, linked assignment, and whether it's locked
+  kaisey?: KaiseyMetadata;
+  // Calendar the event lives on; pass it back to update/delete tools
+  calendarId: string;
+  calendarName: string;
+  color: string;
+}
+
+// A calendar from the user's list, as shown in the overlay
+interface CalendarSource {
+  // "primary" for the user's own calendar, so it matches the tools' default
+  id: string;
+  name: string;
+  color: string;
+  primary: boolean;
+  // Events can be created and edited on it
+  writable: boolean;
+  visible: boolean;
+}
+
+// Saved per browser: which calendars are hidden and where new events of each type go
+interface CalendarPreferences {
+  hidden: string[];
+  defaults: Partial<Record<EventType, string>>;
 }
 
 interface CalendarContextType {
+  // Events on visible calendars
   events: ParsedEvent[];
+  calendars: CalendarSource[];
+  setCalendarVisible: (calendarId: string, visible: boolean) => void;
+  // Target calendar for new events of each type; unset types go to the primary calendar
+  defaultCalendars: Partial<Record<EventType, string>>;
+  setDefaultCalendar: (type: EventType, calendarId: string | null) => void;
+  // Calendar a new event should be created on; the type is guessed from the title unless given
+  calendarForEvent: (title: string, type?: EventType) => string;
+  // Zone new events are anchored in, and the zone event times are shown and entered in (see config/timeZone)
+  homeTimeZone: string;
+  displayTimeZone: string;
   loading: boolean;
   error: string | null;
-  fetchEvents: (startDate: Date, endDate: Date) => Promise<void>;
+  // Resolves with the events on visible calendars starting in the range, served from the local store when it's current.
+  // `error` is set when the sync failed; `events` are then whatever the store had, possibly stale or empty.
+  fetchEvents: (startDate: Date, endDate: Date) => Promise<{ events: ParsedEvent[]; error: string | null }>;
   getEvents: (startDate: Date, endDate: Date) => ParsedEvent[];
-  invalidateCache: () => void; // Clear cache to force next fetch
+  // Mark the store out of date so the next fetch syncs; `resync` discards it and starts a full sync
+  invalidateCache: (options?: { resync?: boolean }) => void;
+  // Called with the previous and new versions of events an incremental sync changed. Returns an unsubscribe function.
+  onEventsChanged: (listener: (changed: ParsedEvent[]) => void) => () => void;
+}
+
+// Synced window and each calendar's token for the next incremental sync
+interface SyncState {
+  tokens: Record<string, string>;
+  windowStart: Date;
+  windowEnd: Date;
+  syncedAt: number;
+  // changeVersionRef when the sync started; the store is stale once they differ
+  version: number;
+}
+
+// How long a synced range is served from the store without asking the server for changes
+const STORE_FRESH_MS = 30 * 1000;
+// Full syncs cover this much around the requested range so nearby navigation needs no new window
+const SYNC_WINDOW_PADDING_DAYS = 45;
+
+const PREFERENCES_STORAGE_KEY = "nexus_calendar_preferences";
+
+const DEFAULT_CALENDAR_COLOR = '#4285f4';
+
+function loadPreferences(): CalendarPreferences {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return { hidden: parsed.hidden || [], defaults: parsed.defaults || {} };
+    }
+  } catch (error) {
+    console.error('[CalendarContext] Failed to load calendar preferences:', error);
+  }
+  return { hidden: [], defaults: {} };
+}
+
+function savePreferences(preferences: CalendarPreferences): void {
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
+
+function toCalendarSource(entry: GoogleCalendarListEntry, hidden: string[]): CalendarSource {
+  const id = entry.primary ? 'primary' : entry.id;
+  return {
+    id,
+    name: entry.summaryOverride || entry.summary || id,
+    color: entry.backgroundColor || DEFAULT_CALENDAR_COLOR,
+    primary: !!entry.primary,
+    writable: entry.accessRole === undefined || entry.accessRole === 'owner' || entry.accessRole === 'writer',
+    visible: !hidden.includes(id),
+  };
+}
+
+// Event ids are only unique within a calendar
+function storeKey(calendarId: string, eventId: string): string {
+  return `${calendarId}\n${eventId}`;
+}
+
+/**
+ * Guess an event's type from its title
+ */
+export function inferEventType(summary: string): EventType {
+  const lowerSummary = summary.toLowerCase();
+  if (lowerSummary.includes('class') || lowerSummary.includes('course') || lowerSummary.includes('lecture')) {
+    return "class";
+  } else if (lowerSummary.includes('study') || lowerSummary.includes('homework') || lowerSummary.includes('assignment')) {
+    return "study";
+  } else if (lowerSummary.includes('gym') || lowerSummary.includes('workout') || lowerSummary.includes('exercise')) {
+    return "workout";
+  } else if (lowerSummary.includes('coffee') || lowerSummary.includes('networking') || lowerSummary.includes('chat')) {
+    return "networking";
+  } else if (lowerSummary.includes('recruiting') || lowerSummary.includes('interview') || lowerSummary.includes('info session')) {
+    return "recruiting";
+  } else if (lowerSummary.includes('buffer') || lowerSummary.includes('travel')) {
+    return "buffer";
+  }
+  return "meeting";
 }
 
 const CalendarContext = createContext<CalendarContextType | undefined>(undefined);
@@ -50,25 +194,64 @@ export function useCalendar() {
   return context;
 }
 
+// All-day events over more than one date, or timed events a day or longer (like Google Calendar lays them out)
+function spansDays(start: Date, end: Date, allDay: boolean): boolean {
+  if (allDay) return differenceInCalendarDays(end, start) > 1;
+  return end.getTime() - start.getTime() >= 24 * 60 * 60 * 1000;
+}
+
+// Events running into the range count, so multi-day events show on every day they cover
+// All-day events are compared by date, as they cover the same days in every zone
+function overlapsRange(event: ParsedEvent, startDate: Date, endDate: Date, timeZone: string): boolean {
+  if (event.allDay) {
+    return format(event.startDate, 'yyyy-MM-dd') <= dateKeyInZone(endDate, timeZone)
+      && format(event.endDate, 'yyyy-MM-dd') > dateKeyInZone(startDate, timeZone);
+  }
+  return event.startDate <= endDate && (event.endDate > startDate || event.startDate >= startDate);
+}
+
+function eventStatus(start: Date, end: Date, now: Date): ParsedEvent["status"] {
+  if (end < now) return "completed";
+  if (start <= now && end >= now) return "current";
+  return "upcoming";
+}
+
 export function CalendarProvider({ children }: { children: ReactNode }) {
   const [events, setEvents] = useState<ParsedEvent[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { connected, callTool, connect, clearError: clearMcpError } = useMcpServer('google-calendar');
+  const [calendarList, setCalendarList] = useState<GoogleCalendarListEntry[]>([]);
+  const [preferences, setPreferences] = useState<CalendarPreferences>(loadPreferences);
+  const [homeTimeZone, setHomeTimeZone] = useState(getHomeTimeZone);
+  const [displayTimeZone, setDisplayTimeZone] = useState(getDisplayTimeZone);
+  const { connected, connect, clearError: clearMcpError, onResourceUpdated } = useMcpServer('google-calendar');
+  const calendarTools = useCalendarTools();
 
-  // Caching and throttling to prevent quota exceeded errors
-  const lastFetchRef = useRef<{ start: string; end: string; timestamp: number } | null>(null);
-  const fetchInProgressRef = useRef(false);
-  const lastInvalidationRef = useRef<number>(0); // Track when cache was last invalidated
-  const MIN_FETCH_INTERVAL = 2000; // Reduced to 2 seconds for better UX after writes
+  // Local event store, kept current by applying incremental sync deltas
+  const storeRef = useRef<Map<string, ParsedEvent>>(new Map());
+  const syncRef = useRef<SyncState | null>(null);
+  const syncInFlightRef = useRef<Promise<string | null> | null>(null);
+  const changeVersionRef = useRef(0); // Bumped by change notifications and invalidateCache
+  const lastRangeRef = useRef<{ startDate: Date; endDate: Date } | null>(null); // Range to refetch on server change notifications
+  const changeListenersRef = useRef<Set<(changed: ParsedEvent[]) => void>>(new Set());
+  // Calendars synced by the last full sync, by id
+  const calendarsRef = useRef<Map<string, CalendarSource>>(new Map());
+  const hiddenRef = useRef(preferences.hidden);
+  hiddenRef.current = preferences.hidden;
+  const displayTimeZoneRef = useRef(displayTimeZone);
+  displayTimeZoneRef.current = displayTimeZone;
 
-  const parseMcpEvent = (event: CalendarEvent): ParsedEvent | null => {
+  const parseMcpEvent = (event: CalendarEvent, calendarId: string): ParsedEvent | null => {
     try {
       const startTime = event.start?.dateTime || event.start?.date;
       if (!startTime) return null;
-      
-      const start = new Date(startTime);
-      const end = new Date(event.end?.dateTime || event.end?.date || startTime);
+
+      // All-day dates are calendar days, not UTC midnights
+      const allDay = !event.start.dateTime;
+      const start = allDay ? parseISO(startTime) : new Date(startTime);
+      const end = allDay
+        ? (event.end?.date ? parseISO(event.end.date) : addDays(start, 1))
+        : new Date(event.end?.dateTime || startTime);
       
       // Validate dates
       if (isNaN(start.getTime()) || isNaN(end.getTime())) {
@@ -77,50 +260,39 @@ export function CalendarProvider({ children }: { children: ReactNode }) {
       }
       
       const duration = Math.round((end.getTime() - start.getTime()) / (1000 * 60)); // minutes
-      
-      const now = new Date();
-      let status: "completed" | "current" | "upcoming" | "suggested" = "upcoming";
-      if (end < now) {
-        status = "completed";
-      } else if (start <= now && end >= now) {
-        status = "current";
-      }
+      const status = eventStatus(start, end, new Date());
       
       const summary = event.summary || 'Untitled Event';
-      const lowerSummary = summary.toLowerCase();
-      let type: "class" | "meeting" | "study" | "workout" | "networking" | "recruiting" | "buffer" = "meeting";
-      
-      if (lowerSummary.includes('class') || lowerSummary.includes('course') || lowerSummary.includes('lecture')) {
-        type = "class";
-      } else if (lowerSummary.includes('study') || lowerSummary.includes('homework') || lowerSummary.includes('assignment')) {
-        type = "study";
-      } else if (lowerSummary.includes('gym') || lowerSummary.includes('workout') || lowerSummary.includes('exercise')) {
-        type = "workout";
-      } else if (lowerSummary.includes('coffee') || lowerSummary.includes('networking') || lowerSummary.includes('chat')) {
-        type = "networking";
-      } else if (lowerSummary.includes('recruiting') || lowerSummary.includes('interview') || lowerSummary.includes('info session')) {
-        type = "recruiting";
-      } else if (lowerSummary.includes('buffer') || lowerSummary.includes('travel')) {
-        type = "buffer";
-      }
-      
-      const timeStr = start.toLocaleTimeString('en-US', { 
-        hour: '2-digit', 
-        minute: '2-digit', 
-        hour12: false 
-      });
+      const type = inferEventType(summary);
+      const calendar = calendarsRef.current.get(calendarId);
+      const kaisey = parseKaiseyMetadata(event.extendedProperties);
+      // Kaisey's own blocks are flexible unless locked; everything else is treated as fixed
+      const priority = event.transparency === 'transparent'
+        ? "optional" as const
+        : kaisey && !kaisey.locked ? "flexible" as const : "hard-block" as const;
       
       return {
         id: event.id,
-        time: timeStr,
+        time: formatTimeInZone(start, displayTimeZoneRef.current),
         duration,
         title: summary,
         type,
         status,
         location: event.location,
-        priority: "hard-block" as const,
+        priority,
         startDate: start,
         endDate: end,
+        allDay,
+        multiDay: spansDays(start, end, allDay),
+        busy: event.transparency !== 'transparent',
+        recurringEventId: event.recurringEventId,
+        timeZone: event.start.timeZone,
+        attendees: event.attendees,
+        responseStatus: selfResponseStatus(event.attendees),
+        kaisey,
+        calendarId,
+        calendarName: calendar?.name || calendarId,
+        color: calendar?.color || DEFAULT_CALENDAR_COLOR,
       };
     } catch (error) {
       console.error('Error parsing MCP event:', error);
@@ -128,11 +300,130 @@ export function CalendarProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  const fetchEvents = useCallback(async (startDate: Date, endDate: Date) => {
+  // Store contents on visible calendars, with statuses as of now (stored events may have been parsed a while ago)
+  // and times in the current display zone
+  const readStore = (startDate?: Date, endDate?: Date): ParsedEvent[] => {
+    const now = new Date();
+    return Array.from(storeRef.current.values())
+      .filter((event) => !hiddenRef.current.includes(event.calendarId))
+      .filter((event) => !startDate || !endDate || overlapsRange(event, startDate, endDate, displayTimeZoneRef.current))
+      .map((event) => ({
+        ...event,
+        time: formatTimeInZone(event.startDate, displayTimeZoneRef.current),
+        status: eventStatus(event.startDate, event.endDate, now),
+      }))
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  };
+
+  const publishStore = () => {
+    setEvents(readStore());
+  };
+
+  // Calendars whose events can be read; free/busy-only calendars have nothing to list
+  const loadCalendars = async (): Promise<CalendarSource[]> => {
+    const entries = (await calendarTools.listCalendars({ source: 'calendar-context', background: true }))
+      .filter((entry) => entry.accessRole !== 'freeBusyReader');
+    setCalendarList(entries);
+    const sources = entries.map((entry) => toCalendarSource(entry, hiddenRef.current));
+    calendarsRef.current = new Map(sources.map((calendar) => [calendar.id, calendar]));
+    return sources;
+  };
+
+  const fullSync = async (windowStart: Date, windowEnd: Date) => {
+    const version = changeVersionRef.current;
+    const calendars = await loadCalendars();
+    const results = await Promise.all(
+      calendars.map(async (calendar) => ({
+        calendarId: calendar.id,
+        result: await calendarTools.syncEvents({
+          calendarId: calendar.id,
+          timeMin: windowStart.toISOString(),
+          timeMax: windowEnd.toISOString(),
+        }, { source: 'calendar-context', background: true }),
+      }))
+    );
+
+    const store = new Map<string, ParsedEvent>();
+    const tokens: Record<string, string> = {};
+    results.forEach(({ calendarId, result }) => {
+      result.items
+        .filter((item) => item.status !== 'cancelled')
+        .map((item) => parseMcpEvent(item, calendarId))
+        .filter((e): e is ParsedEvent => e !== null)
+        .forEach((event) => store.set(storeKey(calendarId, event.id), event));
+      if (result.nextSyncToken) tokens[calendarId] = result.nextSyncToken;
+    });
+    storeRef.current = store;
+    syncRef.current = results.every(({ calendarId }) => tokens[calendarId])
+      ? { tokens, windowStart, windowEnd, syncedAt: Date.now(), version }
+      : null;
+    console.log('[CalendarContext] Full sync:', store.size, 'events from', calendars.length, 'calendars');
+  };
+
+  // Applies the server's changes to the store and returns the affected events (before and after)
+  const incrementalSync = async (sync: SyncState): Promise<ParsedEvent[]> => {
+    const version = changeVersionRef.current;
+    const results = await Promise.all(
+      Object.entries(sync.tokens).map(async ([calendarId, syncToken]) => ({
+        calendarId,
+        result: await calendarTools.syncEvents({ calendarId, syncToken }, { source: 'calendar-context', background: true }),
+      }))
+    );
+
+    if (results.some(({ result }) => result.fullSyncRequired || !result.nextSyncToken)) {
+      console.log('[CalendarContext] Sync token expired, running a full sync');
+      const previous = Array.from(storeRef.current.values());
+      await fullSync(sync.windowStart, sync.windowEnd);
+      // Unknown what changed - report everything on either side
+      return [...previous, ...storeRef.current.values()];
+    }
+
+    const store = storeRef.current;
+    const changed: ParsedEvent[] = [];
+    const tokens: Record<string, string> = {};
+    results.forEach(({ calendarId, result }) => {
+      const remove = (id: string) => {
+        const key = storeKey(calendarId, id);
+        const existing = store.get(key);
+        if (existing) {
+          changed.push(existing);
+          store.delete(key);
+        }
+      };
+      result.items.forEach((item) => {
+        if (item.status === 'cancelled') {
+          // A cancelled series takes its expanded instances with it
+          remove(item.id);
+          store.forEach((event) => {
+            if (event.calendarId === calendarId && event.recurringEventId === item.id) remove(event.id);
+          });
+          return;
+        }
+        const parsed = parseMcpEvent(item, calendarId);
+        if (parsed) {
+          const key = storeKey(calendarId, parsed.id);
+          const existing = store.get(key);
+          if (existing) changed.push(existing);
+          changed.push(parsed);
+          store.set(key, parsed);
+        } else {
+          remove(item.id);
+        }
+      });
+      tokens[calendarId] = result.nextSyncToken!;
+      if (result.items.length > 0) {
+        console.log('[CalendarContext] Applied', result.items.length, 'changes to', calendarId);
+      }
+    });
+    syncRef.current = { ...sync, tokens, syncedAt: Date.now(), version };
+    return changed;
+  };
+
+  const fetchEvents = useCallback(async (startDate: Date, endDate: Date): Promise<{ events: ParsedEvent[]; error: string | null }> => {
     // Validate dates
     if (!startDate || !endDate || isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
       console.error('[CalendarContext] Invalid date range provided');
-      return;
+      return { events: [], error: 'Invalid date range' };
     }
 
     if (!connected) {
@@ -140,109 +431,187 @@ export function CalendarProvider({ children }: { children: ReactNode }) {
       // Don't return - continue to fetch after connecting
     }
 
-    // Prevent concurrent fetches
-    if (fetchInProgressRef.current) {
-      console.log('[CalendarContext] Fetch already in progress, skipping');
-      return;
-    }
-
-    // Check if we recently fetched the same date range (throttling)
-    const startStr = startDate.toISOString();
-    const endStr = endDate.toISOString();
-    const now = Date.now();
-
-    // Check if cache was recently invalidated (within 1 second) - bypass throttle
-    const cacheWasInvalidated = now - lastInvalidationRef.current < 1000;
+    lastRangeRef.current = { startDate, endDate };
 
-    if (lastFetchRef.current && !cacheWasInvalidated) {
-      const { start, end, timestamp } = lastFetchRef.current;
-      if (start === startStr && end === endStr && now - timestamp < MIN_FETCH_INTERVAL) {
-        console.log('[CalendarContext] Using cached data, skipping fetch');
-        return;
-      }
+    // Concurrent callers (e.g. the chatbot's day/week/month refresh) share one sync
+    while (syncInFlightRef.current) {
+      await syncInFlightRef.current;
     }
 
-    if (cacheWasInvalidated) {
-      console.log('[CalendarContext] Cache was recently invalidated, bypassing throttle');
+    const sync = syncRef.current;
+    const covered = sync !== null && sync.windowStart <= startDate && endDate <= sync.windowEnd;
+    if (covered && sync && sync.version === changeVersionRef.current && Date.now() - sync.syncedAt < STORE_FRESH_MS) {
+      return { events: readStore(startDate, endDate), error: null };
     }
 
-    fetchInProgressRef.current = true;
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await callTool('list_events', {
-        calendarId: 'primary',
-        timeMin: startDate.toISOString(),
-        timeMax: endDate.toISOString(),
-        maxResults: 250, // Reduced from 2500 to be more reasonable
-      });
-
-      // Update last fetch info
-      lastFetchRef.current = { start: startStr, end: endStr, timestamp: now };
-
-      let calendarEvents: CalendarEvent[] = [];
-      if (Array.isArray(response)) {
-        const textContent = response.find((item: any) => item.type === 'text');
-        if (textContent?.text) {
-          try {
-            calendarEvents = JSON.parse(textContent.text);
-          } catch (e) {
-            console.error('Error parsing calendar events:', e);
+    const run = async (): Promise<string | null> => {
+      setLoading(true);
+      setError(null);
+      try {
+        let changed: ParsedEvent[] = [];
+        if (covered && sync) {
+          changed = await incrementalSync(sync);
+        } else {
+          // Keep the current window when the new range touches it, so going back needs no resync
+          let windowStart = addDays(startOfDay(startDate), -SYNC_WINDOW_PADDING_DAYS);
+          let windowEnd = addDays(endOfDay(endDate), SYNC_WINDOW_PADDING_DAYS);
+          if (sync && sync.windowStart <= windowEnd && windowStart <= sync.windowEnd) {
+            windowStart = sync.windowStart < windowStart ? sync.windowStart : windowStart;
+            windowEnd = sync.windowEnd > windowEnd ? sync.windowEnd : windowEnd;
           }
-        } else if (response.length > 0 && typeof response[0] === 'object' && 'id' in response[0]) {
-          calendarEvents = response;
+          await fullSync(windowStart, windowEnd);
+        }
+        publishStore();
+        if (changed.length > 0) {
+          changeListenersRef.current.forEach((listener) => listener(changed));
         }
-      }
 
-      const parsedEvents = calendarEvents
-        .map(parseMcpEvent)
-        .filter((e): e is ParsedEvent => e !== null);
-
-      // Replace events within the fetched date range (properly handles deletions)
-      // Events outside the fetched range are preserved
-      setEvents(prevEvents => {
-        // Keep events that are outside the fetched date range
-        const eventsOutsideRange = prevEvents.filter(event => {
-          return event.startDate < startDate || event.startDate > endDate;
-        });
-        // Combine with the freshly fetched events
-        return [...eventsOutsideRange, ...parsedEvents];
-      });
+        // Clear any stale MCP errors after successful fetch
+        clearMcpError();
+        return null;
+      } catch (err: any) {
+        const message = err.message || 'Failed to fetch calendar events';
+        setError(message);
+        return message;
+      } finally {
+        setLoading(false);
+      }
+    };
 
-      // Clear any stale MCP errors after successful fetch
-      clearMcpError();
-    } catch (err: any) {
-      setError(err.message || 'Failed to fetch calendar events');
+    const inFlight = run();
+    syncInFlightRef.current = inFlight;
+    let error: string | null;
+    try {
+      error = await inFlight;
     } finally {
-      setLoading(false);
-      fetchInProgressRef.current = false;
+      if (syncInFlightRef.current === inFlight) syncInFlightRef.current = null;
     }
-  }, [connected, callTool, connect, clearMcpError]);
+    return { events: readStore(startDate, endDate), error };
+    // Helpers only read refs and calendarTools
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connected, calendarTools, connect, clearMcpError]);
 
   const getEvents = (startDate: Date, endDate: Date): ParsedEvent[] => {
-    return events.filter(event => {
-      const eventDate = event.startDate;
-      return eventDate >= startDate && eventDate <= endDate;
+    return events.filter(event => overlapsRange(event, startDate, endDate, displayTimeZone));
+  };
+
+  // Mark the store out of date (call after creating/updating/deleting events)
+  // This does NOT trigger a fetch - the next fetchEvents call asks the server for changes
+  const invalidateCache = useCallback((options?: { resync?: boolean }) => {
+    changeVersionRef.current++;
+    if (options?.resync) {
+      console.log('[CalendarContext] Local store discarded - next fetch will run a full sync');
+      syncRef.current = null;
+      storeRef.current = new Map();
+    }
+  }, []);
+
+  const onEventsChanged = useCallback((listener: (changed: ParsedEvent[]) => void) => {
+    changeListenersRef.current.add(listener);
+    return () => {
+      changeListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const calendars = calendarList.map((entry) => toCalendarSource(entry, preferences.hidden));
+
+  const updatePreferences = (update: (previous: CalendarPreferences) => CalendarPreferences) => {
+    setPreferences((previous) => {
+      const next = update(previous);
+      savePreferences(next);
+      return next;
     });
   };
 
-  // Clear cache to force next fetch (call after creating/updating/deleting events)
-  // This does NOT trigger a fetch - components should call fetchEvents if needed
-  // However, it sets a timestamp so that the next fetchEvents call bypasses throttling
-  const invalidateCache = useCallback(() => {
-    console.log('[CalendarContext] Cache invalidated - next fetch will bypass throttle');
-    lastFetchRef.current = null;
-    lastInvalidationRef.current = Date.now(); // Allow immediate refetch
+  const setCalendarVisible = useCallback((calendarId: string, visible: boolean) => {
+    updatePreferences((previous) => ({
+      ...previous,
+      hidden: visible
+        ? previous.hidden.filter((id) => id !== calendarId)
+        : Array.from(new Set([...previous.hidden, calendarId])),
+    }));
   }, []);
 
+  const setDefaultCalendar = useCallback((type: EventType, calendarId: string | null) => {
+    updatePreferences((previous) => {
+      const defaults = { ...previous.defaults };
+      if (calendarId) {
+        defaults[type] = calendarId;
+      } else {
+        delete defaults[type];
+      }
+      return { ...previous, defaults };
+    });
+  }, []);
+
+  // Falls back to the primary calendar when the chosen one is gone or read-only
+  const calendarForEvent = useCallback((title: string, type?: EventType) => {
+    const calendarId = preferences.defaults[type || inferEventType(title)];
+    const calendar = calendarId ? calendarsRef.current.get(calendarId) : undefined;
+    return calendar?.writable ? calendar.id : 'primary';
+  }, [preferences.defaults]);
+
+  // Showing or hiding a calendar, or switching zones, only changes how stored events are published
+  useEffect(() => {
+    publishStore();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [preferences.hidden, displayTimeZone]);
+
+  useEffect(() => {
+    const handleTimeZoneUpdated = () => {
+      setHomeTimeZone(getHomeTimeZone());
+      setDisplayTimeZone(getDisplayTimeZone());
+    };
+    window.addEventListener('timeZoneSettingsUpdated', handleTimeZoneUpdated);
+    return () => window.removeEventListener('timeZoneSettingsUpdated', handleTimeZoneUpdated);
+  }, []);
+
+  // Sync whatever range was last shown
+  const refetchLastRangeRef = useRef<() => void>(() => {});
+  refetchLastRangeRef.current = () => {
+    const range = lastRangeRef.current;
+    if (!range) return;
+    invalidateCache();
+    fetchEvents(range.startDate, range.endDate);
+  };
+
+  // The calendar server sends resources/updated whenever events change (including our own writes),
+  // so views refresh without callers having to invalidate the cache.
+  // A sync already in flight may predate the change; fetchEvents waits for it and then syncs again.
+  const calendarIdsKey = calendars.map((calendar) => calendar.id).join('\n');
+  useEffect(() => {
+    const calendarIds = calendarIdsKey ? calendarIdsKey.split('\n') : ['primary'];
+    const unsubscribes = calendarIds.map((calendarId) =>
+      onResourceUpdated(calendarEventsUri(calendarId), () => {
+        console.log('[CalendarContext] Server reported changes to', calendarId, '- syncing');
+        refetchLastRangeRef.current();
+      })
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [onResourceUpdated, calendarIdsKey]);
+
+  // Another server (or demo mode) may hold a different calendar - its sync tokens mean nothing here
+  useEffect(() => {
+    const handleServersUpdated = () => invalidateCache({ resync: true });
+    window.addEventListener('mcpServersUpdated', handleServersUpdated);
+    return () => window.removeEventListener('mcpServersUpdated', handleServersUpdated);
+  }, [invalidateCache]);
+
   const value = {
     events,
+    calendars,
+    setCalendarVisible,
+    defaultCalendars: preferences.defaults,
+    setDefaultCalendar,
+    calendarForEvent,
+    homeTimeZone,
+    displayTimeZone,
     loading,
     error,
     fetchEvents,
     getEvents,
     invalidateCache,
+    onEventsChanged,
   };
 
   return (
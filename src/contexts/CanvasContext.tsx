@@ -0,0 +1,260 @@
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { useCanvasTools } from '@/hooks/useCanvasTools';
+import { useCalendar } from '@/contexts/CalendarContext';
+import { getAllMcpServerConfigs } from '@/config/mcpServers';
+import { getAcademicProfile, setAcademicProfile, type AcademicProfile } from '@/config/academicProfile';
+import type { CanvasAnnouncementItem, CanvasAssignmentItem, CanvasCourseItem, CanvasQuizItem, CanvasSubmission } from '@/services/canvasTools';
+import { formatTimeInZone, zonedDay } from '@/utils/timeZone';
+import { differenceInCalendarDays, format } from 'date-fns';
+
+// An assignment or quiz, in the shape AssignmentGrid and ScheduleAssignmentDialog show
+interface CourseAssignment {
+  // "assignment-<id>" or "quiz-<id>"; Canvas ids are only unique per type
+  id: string;
+  kind: 'assignment' | 'quiz';
+  title: string;
+  course: string;
+  courseCode: string;
+  // Display text in the display time zone, e.g. "Oct 22, 23:59"
+  dueDate: string;
+  dueAt: Date | null;
+  // From how soon it's due: within 2 days high, within a week medium
+  priority: "high" | "medium" | "low";
+  // Canvas only knows submitted or not: 0 or 100
+  progress: number;
+  // Time left until the due date, e.g. "Due in 3 days"
+  estimatedTime: string;
+  status: "not-started" | "in-progress" | "completed";
+  pointsPossible: number | null;
+  // Share of the final grade, 0-1; null when Canvas doesn't say (no points, or a weighted group without a weight)
+  gradeWeight: number | null;
+  // Canvas assignment group, e.g. "Problem Sets"
+  group: string | null;
+}
+
+interface CourseAnnouncement {
+  id: string;
+  title: string;
+  course: string;
+  postedAt: Date;
+  // Plain text, HTML stripped
+  message: string;
+}
+
+interface CanvasContextType {
+  // Assignments and quizzes due from a few days ago to a month out, and undated ones still open; soonest first
+  assignments: CourseAssignment[];
+  // Announcements from the last two weeks, newest first
+  announcements: CourseAnnouncement[];
+  loading: boolean;
+  error: string | null;
+  // True once the first load finished, successful or not (right away when no Canvas server is set up)
+  loaded: boolean;
+  refresh: () => Promise<void>;
+  // GND and grade goal; AssignmentGrid prioritizes by them (see utils/assignmentPriority)
+  academicProfile: AcademicProfile;
+  setAcademicProfile: (profile: AcademicProfile) => void;
+}
+
+const SUBMITTED_STATES = ['submitted', 'pending_review', 'graded'];
+// Assignments shown around today
+const PAST_DUE_DAYS = 3;
+const UPCOMING_DAYS = 30;
+const ANNOUNCEMENT_DAYS = 14;
+const HIGH_PRIORITY_MS = 48 * 60 * 60 * 1000;
+const MEDIUM_PRIORITY_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CanvasContext = createContext<CanvasContextType | undefined>(undefined);
+
+export function useCanvas() {
+  const context = useContext(CanvasContext);
+  if (!context) {
+    throw new Error('useCanvas must be used within a CanvasProvider');
+  }
+  return context;
+}
+
+// The canvas server is only registered when it has a URL (see config/mcpServers)
+function canvasConfigured(): boolean {
+  return getAllMcpServerConfigs().some((server) => server.name === 'canvas' && server.enabled && !!server.url);
+}
+
+function stripHtml(html: string | null): string {
+  if (!html) return '';
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+}
+
+function timeLeftLabel(dueAt: Date | null, completed: boolean, now: Date): string {
+  if (completed) return 'Completed';
+  if (!dueAt) return 'No due date';
+  const msLeft = dueAt.getTime() - now.getTime();
+  if (msLeft < 0) return 'Overdue';
+  if (msLeft < DAY_MS) return `Due in ${Math.max(1, Math.round(msLeft / (60 * 60 * 1000)))}h`;
+  const days = differenceInCalendarDays(dueAt, now);
+  return `Due in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+type GradedItem = CanvasAssignmentItem | CanvasQuizItem;
+
+// Canvas lists a graded quiz twice: as a quiz and as its own assignment
+function quizAssignmentIds(graded: GradedItem[]): Set<number> {
+  return new Set(graded.flatMap((item) => item.type === 'quiz' && item.assignment_id != null ? [item.assignment_id] : []));
+}
+
+// Weighted courses: the group's weight split by points within the group. Otherwise: points out of the course's total.
+// Each graded quiz counts once, through its quiz entry.
+function gradeWeights(graded: GradedItem[]): Map<GradedItem, number | null> {
+  const quizAssignments = quizAssignmentIds(graded);
+  const pointsByKey = new Map<string, number>();
+  const keyOf = (item: GradedItem) => item.group_weight != null
+    ? `group-${item.course_id}-${item.assignment_group_id}`
+    : `course-${item.course_id}`;
+  for (const item of graded) {
+    if (item.type === 'assignment' && quizAssignments.has(item.id)) continue;
+    const key = keyOf(item);
+    pointsByKey.set(key, (pointsByKey.get(key) || 0) + (item.points_possible || 0));
+  }
+
+  return new Map<GradedItem, number | null>(graded.map((item) => {
+    const total = pointsByKey.get(keyOf(item)) || 0;
+    if (!item.points_possible || !total) return [item, null];
+    const share = item.points_possible / total;
+    return [item, item.group_weight != null ? (item.group_weight / 100) * share : share];
+  }));
+}
+
+// A quiz has no submission of its own; a graded one is submitted through its assignment
+function toCourseAssignment(item: GradedItem, submission: CanvasSubmission | null, gradeWeight: number | null, timeZone: string, now: Date): CourseAssignment {
+  const dueAt = item.due_at ? new Date(item.due_at) : null;
+  const completed = SUBMITTED_STATES.includes(submission?.workflow_state || '');
+  const msLeft = dueAt ? dueAt.getTime() - now.getTime() : Infinity;
+  return {
+    id: `${item.type}-${item.id}`,
+    kind: item.type,
+    title: item.name,
+    course: item.course_name,
+    courseCode: item.course_code,
+    dueDate: dueAt ? `${format(zonedDay(dueAt, timeZone), 'MMM d')}, ${formatTimeInZone(dueAt, timeZone)}` : 'No due date',
+    dueAt,
+    priority: msLeft <= HIGH_PRIORITY_MS ? "high" : msLeft <= MEDIUM_PRIORITY_MS ? "medium" : "low",
+    progress: completed ? 100 : 0,
+    estimatedTime: timeLeftLabel(dueAt, completed, now),
+    status: completed ? "completed" : "not-started",
+    pointsPossible: item.points_possible,
+    gradeWeight,
+    group: item.assignment_group_name ?? null,
+  };
+}
+
+function toCourseAnnouncement(item: CanvasAnnouncementItem): CourseAnnouncement {
+  return {
+    id: `announcement-${item.id}`,
+    title: item.name,
+    course: item.course_name,
+    postedAt: new Date(item.posted_at || item.created_at),
+    message: stripHtml(item.message),
+  };
+}
+
+export function CanvasProvider({ children }: { children: ReactNode }) {
+  const [items, setItems] = useState<CanvasCourseItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [academicProfile, setAcademicProfileState] = useState<AcademicProfile>(getAcademicProfile);
+  const canvasTools = useCanvasTools();
+  const { displayTimeZone } = useCalendar();
+
+  // Connects on first use; a missing or unconfigured server shows up as `error`, not a toast
+  const refresh = useCallback(async () => {
+    if (!canvasConfigured()) {
+      setItems([]);
+      setError(null);
+      setLoaded(true);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const courseItems = await canvasTools.listUserCourseItems({ source: 'canvas-context', background: true });
+      setItems(courseItems);
+      console.log('[CanvasContext] Loaded', courseItems.length, 'course items');
+    } catch (err: any) {
+      console.error('[CanvasContext] Failed to load course items:', err);
+      setError(err.message || 'Failed to load Canvas assignments');
+    } finally {
+      setLoading(false);
+      setLoaded(true);
+    }
+  }, [canvasTools]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Settings may have added, removed or switched the Canvas server (or demo mode)
+  useEffect(() => {
+    const handleServersUpdated = () => refresh();
+    window.addEventListener('mcpServersUpdated', handleServersUpdated);
+    return () => window.removeEventListener('mcpServersUpdated', handleServersUpdated);
+  }, [refresh]);
+
+  // Saved from the profile section
+  useEffect(() => {
+    const handleProfileUpdated = () => setAcademicProfileState(getAcademicProfile());
+    window.addEventListener('academicProfileUpdated', handleProfileUpdated);
+    return () => window.removeEventListener('academicProfileUpdated', handleProfileUpdated);
+  }, []);
+
+  const { assignments, announcements } = useMemo(() => {
+    const now = new Date();
+    const from = now.getTime() - PAST_DUE_DAYS * DAY_MS;
+    const until = now.getTime() + UPCOMING_DAYS * DAY_MS;
+
+    // Weights come from every graded item of a course, not just the ones shown
+    const graded = items.filter((item): item is GradedItem => item.type === 'assignment' || item.type === 'quiz');
+    const weights = gradeWeights(graded);
+    const quizAssignments = quizAssignmentIds(graded);
+    const submissions = new Map(graded.flatMap((item) => item.type === 'assignment' ? [[item.id, item.submission] as const] : []));
+
+    // Graded quizzes show once, as quizzes
+    const coursework = graded
+      .filter((item) => !(item.type === 'assignment' && quizAssignments.has(item.id)))
+      .map((item) => {
+        const submission = item.type === 'assignment'
+          ? item.submission
+          : (item.assignment_id != null && submissions.get(item.assignment_id)) || null;
+        return toCourseAssignment(item, submission, weights.get(item) ?? null, displayTimeZone, now);
+      })
+      .filter((assignment) => assignment.dueAt
+        ? assignment.dueAt.getTime() >= from && assignment.dueAt.getTime() <= until
+        : assignment.status !== "completed")
+      .sort((a, b) => (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity));
+
+    const recent = items
+      .filter((item): item is CanvasAnnouncementItem => item.type === 'announcement')
+      .map(toCourseAnnouncement)
+      .filter((announcement) => now.getTime() - announcement.postedAt.getTime() <= ANNOUNCEMENT_DAYS * DAY_MS)
+      .sort((a, b) => b.postedAt.getTime() - a.postedAt.getTime());
+
+    return { assignments: coursework, announcements: recent };
+  }, [items, displayTimeZone]);
+
+  const value = {
+    assignments,
+    announcements,
+    loading,
+    error,
+    loaded,
+    refresh,
+    academicProfile,
+    setAcademicProfile,
+  };
+
+  return (
+    <CanvasContext.Provider value={value}>
+      {children}
+    </CanvasContext.Provider>
+  );
+}
@@ -1,22 +1,31 @@
 // MCP Context for React
 // Provides MCP client access throughout the application
 
-import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
-import { mcpClientService, McpTool, McpResource } from '@/services/mcpClient';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef, ReactNode } from 'react';
+import { mcpClientService, McpTool, McpResource, McpPrompt, McpPromptMessage, McpServerStatus, McpServerConfig, McpCallOptions, isAbortError, isTimeoutError } from '@/services/mcpClient';
+import { McpValidationError } from '@/services/mcpSchema';
+import { McpToolError, McpToolResult } from '@/services/mcpToolResult';
+import { mcpAuditLog, measureResultSize } from '@/services/mcpAuditLog';
 import { toast } from 'sonner';
 
 interface McpContextValue {
   servers: string[];
   tools: Map<string, McpTool[]>;
   resources: Map<string, McpResource[]>;
+  prompts: Map<string, McpPrompt[]>;
   connected: Map<string, boolean>;
+  statuses: Map<string, McpServerStatus>;
   loading: Map<string, boolean>;
   errors: Map<string, string | null>;
   connectServer: (serverName: string) => Promise<void>;
   disconnectServer: (serverName: string) => Promise<void>;
-  callTool: (serverName: string, toolName: string, args: Record<string, any>) => Promise<any>;
+  resetServer: (serverName: string) => Promise<void>;
+  callTool: (serverName: string, toolName: string, args: Record<string, any>, options?: McpCallOptions) => Promise<McpToolResult>;
   refreshTools: (serverName: string) => Promise<void>;
   refreshResources: (serverName: string) => Promise<void>;
+  refreshPrompts: (serverName: string) => Promise<void>;
+  getPrompt: (serverName: string, promptName: string, args?: Record<string, string>) => Promise<McpPromptMessage[]>;
+  subscribeResource: (serverName: string, uri: string, onUpdated: () => void) => () => void;
   clearError: (serverName: string) => void;
 }
 
@@ -24,26 +33,116 @@ const McpContext = createContext<McpContextValue | undefined>(undefined);
 
 interface McpProviderProps {
   children: ReactNode;
-  servers?: Array<{ name: string; url: string; headers?: Record<string, string> }>;
+  servers?: McpServerConfig[];
 }
 
 export function McpProvider({ children, servers = [] }: McpProviderProps) {
   const [tools, setTools] = useState<Map<string, McpTool[]>>(new Map());
   const [resources, setResources] = useState<Map<string, McpResource[]>>(new Map());
+  const [prompts, setPrompts] = useState<Map<string, McpPrompt[]>>(new Map());
   const [connected, setConnected] = useState<Map<string, boolean>>(new Map());
+  const [statuses, setStatuses] = useState<Map<string, McpServerStatus>>(new Map());
   const [loading, setLoading] = useState<Map<string, boolean>>(new Map());
   const [errors, setErrors] = useState<Map<string, string | null>>(new Map());
 
-  // Register servers on mount
+  const registeredServersRef = useRef<Map<string, McpServerConfig>>(new Map());
+  // resourceUpdated listeners keyed by server + URI; the server subscription lives while any remain
+  const resourceListenersRef = useRef<Map<string, Set<() => void>>>(new Map());
+
+  const forgetServer = useCallback((serverName: string) => {
+    const without = <T,>(prev: Map<string, T>) => {
+      const newMap = new Map(prev);
+      newMap.delete(serverName);
+      return newMap;
+    };
+    setConnected(without);
+    setStatuses(without);
+    setTools(without);
+    setResources(without);
+    setPrompts(without);
+    setErrors(without);
+  }, []);
+
+  // Keep the service registry in sync with the servers prop
+  // The Settings registry can add, remove or edit servers at runtime.
   useEffect(() => {
+    const previous = registeredServersRef.current;
+    const next = new Map(servers.map((server) => [server.name, server]));
+
+    previous.forEach((_, serverName) => {
+      if (!next.has(serverName)) {
+        mcpClientService.unregisterServer(serverName).catch((e) => {
+          console.warn(`[McpContext] Failed to unregister ${serverName}:`, e);
+        });
+        forgetServer(serverName);
+      }
+    });
+
     servers.forEach((server) => {
       mcpClientService.registerServer({
         name: server.name,
         url: server.url,
         headers: server.headers,
+        timeoutMs: server.timeoutMs,
+        retryPolicies: server.retryPolicies,
       });
+
+      // Edited while in use - reconnect with the new URL/headers
+      const before = previous.get(server.name);
+      if (before && JSON.stringify(before) !== JSON.stringify(server) && mcpClientService.getStatus(server.name)) {
+        mcpClientService.reset(server.name).catch((e) => {
+          console.warn(`[McpContext] Failed to reconnect ${server.name} after config change:`, e);
+        });
+      }
     });
-  }, [servers]);
+
+    registeredServersRef.current = next;
+  }, [servers, forgetServer]);
+
+  // Mirror the connection supervisor's health and catalog into React state
+  // Reconnects replay tools/resources, so this also covers server restarts
+  useEffect(() => {
+    return mcpClientService.subscribe((event) => {
+      switch (event.type) {
+        case 'status':
+          setStatuses((prev) => new Map(prev).set(event.serverName, event.status));
+          setConnected((prev) => new Map(prev).set(event.serverName, event.status.health === 'healthy'));
+          if (event.status.health === 'healthy') {
+            setErrors((prev) => new Map(prev).set(event.serverName, null));
+          }
+          break;
+        case 'tools':
+          setTools((prev) => new Map(prev).set(event.serverName, event.tools));
+          break;
+        case 'resources':
+          setResources((prev) => new Map(prev).set(event.serverName, event.resources));
+          break;
+        case 'prompts':
+          setPrompts((prev) => new Map(prev).set(event.serverName, event.prompts));
+          break;
+        case 'resourceUpdated':
+          resourceListenersRef.current.get(`${event.serverName}\n${event.uri}`)?.forEach((listener) => {
+            try {
+              listener();
+            } catch (e) {
+              console.error('[McpContext] Resource listener error:', e);
+            }
+          });
+          break;
+      }
+    });
+  }, []);
+
+  // End server sessions when the page goes away instead of leaving them to time out
+  useEffect(() => {
+    const handlePageHide = () => {
+      mcpClientService.disconnectAll();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
 
   const updateLoading = useCallback((serverName: string, isLoading: boolean) => {
     setLoading((prev) => new Map(prev).set(serverName, isLoading));
@@ -66,22 +165,8 @@ export function McpProvider({ children, servers = [] }: McpProviderProps) {
     updateError(serverName, null);
 
     try {
+      // Tools and resources arrive through the subscription once connected
       await mcpClientService.connect(serverName);
-      setConnected((prev) => new Map(prev).set(serverName, true));
-
-      // Refresh tools and resources after connection (inline to avoid dependency issues)
-      try {
-        const serverTools = await mcpClientService.listTools(serverName);
-        setTools((prev) => new Map(prev).set(serverName, serverTools));
-      } catch (e) {
-        console.error(`Failed to refresh tools for ${serverName}:`, e);
-      }
-      try {
-        const serverResources = await mcpClientService.listResources(serverName);
-        setResources((prev) => new Map(prev).set(serverName, serverResources));
-      } catch (e) {
-        console.error(`Failed to refresh resources for ${serverName}:`, e);
-      }
 
       toast.success(`Connected to ${serverName}`);
     } catch (error: any) {
@@ -98,23 +183,30 @@ export function McpProvider({ children, servers = [] }: McpProviderProps) {
     updateLoading(serverName, true);
     try {
       await mcpClientService.disconnect(serverName);
+      forgetServer(serverName);
       setConnected((prev) => new Map(prev).set(serverName, false));
-      setTools((prev) => {
-        const newMap = new Map(prev);
-        newMap.delete(serverName);
-        return newMap;
-      });
-      setResources((prev) => {
-        const newMap = new Map(prev);
-        newMap.delete(serverName);
-        return newMap;
-      });
       toast.success(`Disconnected from ${serverName}`);
     } catch (error: any) {
       updateError(serverName, error.message || 'Failed to disconnect');
     } finally {
       updateLoading(serverName, false);
     }
+  }, [updateLoading, updateError, forgetServer]);
+
+  const resetServer = useCallback(async (serverName: string) => {
+    updateLoading(serverName, true);
+    updateError(serverName, null);
+    try {
+      // Cached tools/resources are cleared and replayed through the subscription
+      await mcpClientService.reset(serverName);
+      toast.success(`Reconnected to ${serverName}`);
+    } catch (error: any) {
+      const errorMessage = error.message || 'Failed to reconnect';
+      updateError(serverName, errorMessage);
+      toast.error(`Failed to reconnect to ${serverName}: ${errorMessage}`);
+    } finally {
+      updateLoading(serverName, false);
+    }
   }, [updateLoading, updateError]);
 
   const refreshTools = useCallback(async (serverName: string) => {
@@ -135,15 +227,99 @@ export function McpProvider({ children, servers = [] }: McpProviderProps) {
     }
   }, []);
 
+  const refreshPrompts = useCallback(async (serverName: string) => {
+    try {
+      const serverPrompts = await mcpClientService.listPrompts(serverName);
+      setPrompts((prev) => new Map(prev).set(serverName, serverPrompts));
+    } catch (error: any) {
+      console.error(`Failed to refresh prompts for ${serverName}:`, error);
+    }
+  }, []);
+
+  const getPrompt = useCallback(async (
+    serverName: string,
+    promptName: string,
+    args: Record<string, string> = {}
+  ): Promise<McpPromptMessage[]> => {
+    try {
+      const result = await mcpClientService.getPrompt(serverName, promptName, args);
+      return result.messages;
+    } catch (error: any) {
+      const errorMessage = error.message || 'Failed to load prompt';
+      toast.error(`Failed to load prompt ${promptName}: ${errorMessage}`);
+      throw error;
+    }
+  }, []);
+
+  const subscribeResource = useCallback((serverName: string, uri: string, onUpdated: () => void) => {
+    const key = `${serverName}\n${uri}`;
+    const listeners = resourceListenersRef.current.get(key) ?? new Set<() => void>();
+    const isFirst = listeners.size === 0;
+    listeners.add(onUpdated);
+    resourceListenersRef.current.set(key, listeners);
+
+    if (isFirst) {
+      mcpClientService.subscribeResource(serverName, uri).catch((e) => {
+        console.warn(`[McpContext] Failed to subscribe to ${uri} on ${serverName}:`, e);
+      });
+    }
+
+    return () => {
+      listeners.delete(onUpdated);
+      if (listeners.size === 0) {
+        resourceListenersRef.current.delete(key);
+        mcpClientService.unsubscribeResource(serverName, uri).catch((e) => {
+          console.warn(`[McpContext] Failed to unsubscribe from ${uri} on ${serverName}:`, e);
+        });
+      }
+    };
+  }, []);
+
   const callTool = useCallback(async (
     serverName: string,
     toolName: string,
-    args: Record<string, any>
-  ): Promise<any> => {
+    args: Record<string, any>,
+    options?: McpCallOptions
+  ): Promise<McpToolResult> => {
+    const startedAt = performance.now();
+    const audit = { serverName, toolName, args, source: options?.source, background: options?.background };
     try {
-      const result = await mcpClientService.callTool(serverName, toolName, args);
+      const result = await mcpClientService.callTool(serverName, toolName, args, options);
+      mcpAuditLog.record({
+        ...audit,
+        durationMs: Math.round(performance.now() - startedAt),
+        resultSize: measureResultSize(result),
+        status: 'success',
+      });
       return result;
     } catch (error: any) {
+      const cancelled = isAbortError(error, options?.signal);
+      mcpAuditLog.record({
+        ...audit,
+        durationMs: Math.round(performance.now() - startedAt),
+        resultSize: 0,
+        status: cancelled ? 'cancelled' : 'error',
+        error: error?.message || String(error),
+      });
+
+      // The caller cancelled on purpose - nothing to report
+      if (cancelled) {
+        throw error;
+      }
+      // Rejected before sending - the message already lists the bad fields
+      if (error instanceof McpValidationError) {
+        toast.error(error.message);
+        throw error;
+      }
+      if (isTimeoutError(error)) {
+        toast.error(`${toolName} timed out. ${serverName} may be slow or unreachable.`);
+        throw error;
+      }
+      // The tool ran but reported failure (isError result)
+      if (error instanceof McpToolError) {
+        toast.error(`${toolName} failed: ${error.message}`);
+        throw error;
+      }
       const errorMessage = error.message || 'Tool call failed';
       toast.error(`Failed to call ${toolName}: ${errorMessage}`);
       throw error;
@@ -154,14 +330,20 @@ export function McpProvider({ children, servers = [] }: McpProviderProps) {
     servers: servers.map((s) => s.name),
     tools,
     resources,
+    prompts,
     connected,
+    statuses,
     loading,
     errors,
     connectServer,
     disconnectServer,
+    resetServer,
     callTool,
     refreshTools,
     refreshResources,
+    refreshPrompts,
+    getPrompt,
+    subscribeResource,
     clearError,
   };
 
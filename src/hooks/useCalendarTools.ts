@@ -0,0 +1,11 @@
+// Hook for the typed Google Calendar tool wrappers
+// Binds calendarTools to the google-calendar MCP server
+
+import { useMemo } from 'react';
+import { useMcpServer } from '@/hooks/useMcpServer';
+import { createCalendarTools } from '@/services/calendarTools';
+
+export function useCalendarTools() {
+  const { callTool } = useMcpServer('google-calendar');
+  return useMemo(() => createCalendarTools(callTool), [callTool]);
+}
@@ -0,0 +1,11 @@
+// Hook for the typed Canvas LMS tool wrappers
+// Binds canvasTools to the canvas MCP server
+
+import { useMemo } from 'react';
+import { useMcpServer } from '@/hooks/useMcpServer';
+import { createCanvasTools } from '@/services/canvasTools';
+
+export function useCanvasTools() {
+  const { callTool } = useMcpServer('canvas');
+  return useMemo(() => createCanvasTools(callTool), [callTool]);
+}
@@ -1,29 +1,136 @@
-import { useEffect } from 'react';
-import { authenticateUser, isAuthenticated } from '@/services/googleCalendar';
+// Hook for the signed-in state of this browser's Google Calendar account
+// The calendar MCP server keeps one token set per user (kaisey_uid cookie) and reports it on /health
 
-export function useGoogleCalendarAuth() {
-  useEffect(() => {
-    // Trigger authentication when the app loads
-    const initializeAuth = async () => {
-      try {
-        // Check if already authenticated
-        if (isAuthenticated()) {
-          return;
-        }
-
-        // Small delay to ensure Google scripts have time to load
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        
-        // Trigger authentication (this will show the popup if needed)
-        await authenticateUser();
-      } catch (error: any) {
-        // Silently handle errors - user can retry from TimelineView if needed
-        console.log('Google Calendar authentication initialization:', error.message);
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getCalendarServerBaseUrl, isDemoMode } from '@/config/mcpServers';
+
+// How often to check /health while the Google sign-in window is open
+const SIGN_IN_POLL_INTERVAL_MS = 2000;
+const SIGN_IN_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface UseGoogleCalendarAuthOptions {
+  // Called once sign-in completes, e.g. to reconnect the MCP session and reload events
+  onSignedIn?: () => void;
+}
+
+export function useGoogleCalendarAuth({ onSignedIn }: UseGoogleCalendarAuthOptions = {}) {
+  // null until the server has answered
+  const [authenticated, setAuthenticated] = useState<boolean | null>(() => (isDemoMode() ? true : null));
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const onSignedInRef = useRef(onSignedIn);
+  onSignedInRef.current = onSignedIn;
+
+  const refresh = useCallback(async (): Promise<boolean | null> => {
+    const baseUrl = getCalendarServerBaseUrl();
+    if (baseUrl === null) {
+      // Demo mode (nothing to sign in to) or no calendar server configured
+      const demo = isDemoMode();
+      setAuthenticated(demo ? true : null);
+      return demo ? true : null;
+    }
+    try {
+      const response = await fetch(`${baseUrl}/health`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Calendar server returned ${response.status}`);
       }
-    };
+      const health = await response.json();
+      const isSignedIn = !!health.authenticated;
+      setAuthenticated(isSignedIn);
+      setError(health.oauth2Initialized === false ? 'Google OAuth is not configured on the calendar server.' : null);
+      return isSignedIn;
+    } catch (e: any) {
+      console.log('[GoogleCalendarAuth] Could not check sign-in state:', e.message);
+      setError('Calendar server is unreachable.');
+      return null;
+    }
+  }, []);
 
-    initializeAuth();
+  const stopPolling = useCallback(() => {
+    if (pollTimerRef.current) {
+      clearInterval(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+    setSigningIn(false);
   }, []);
 
-  return {};
+  /**
+   * Open Google's consent screen in a popup and wait for the server to receive the tokens
+   */
+  const signIn = useCallback(async () => {
+    const baseUrl = getCalendarServerBaseUrl();
+    if (baseUrl === null) return;
+
+    // Open synchronously so the popup isn't blocked, then point it at Google once we have the URL
+    const popup = window.open('', 'kaisey-google-auth', 'width=500,height=650');
+    try {
+      const response = await fetch(`${baseUrl}/auth/url`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || 'Could not start Google sign-in');
+      }
+      if (popup) {
+        popup.location.href = data.url;
+      } else {
+        window.location.href = data.url;
+        return;
+      }
+    } catch (e: any) {
+      popup?.close();
+      setError(e.message);
+      return;
+    }
+
+    stopPolling();
+    setSigningIn(true);
+    const startedAt = Date.now();
+    pollTimerRef.current = setInterval(async () => {
+      const isSignedIn = await refresh();
+      if (isSignedIn) {
+        stopPolling();
+        onSignedInRef.current?.();
+      } else if (popup.closed || Date.now() - startedAt > SIGN_IN_TIMEOUT_MS) {
+        stopPolling();
+      }
+    }, SIGN_IN_POLL_INTERVAL_MS);
+  }, [refresh, stopPolling]);
+
+  /**
+   * Revoke Google access and forget this browser's tokens on the server
+   */
+  const signOut = useCallback(async () => {
+    const baseUrl = getCalendarServerBaseUrl();
+    if (baseUrl === null) return;
+    try {
+      await fetch(`${baseUrl}/auth/logout`, { method: 'POST', credentials: 'include' });
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+
+    // Signing in or out in another tab changes the server-side state
+    const handleFocus = () => refresh();
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('mcpServersUpdated', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('mcpServersUpdated', handleFocus);
+      if (pollTimerRef.current) {
+        clearInterval(pollTimerRef.current);
+      }
+    };
+  }, [refresh]);
+
+  return {
+    authenticated,
+    signingIn,
+    error,
+    signIn,
+    signOut,
+    refresh,
+  };
 }
@@ -2,26 +2,35 @@
 // Convenience hook that wraps useMcp for a single server
 
 import { useMcp } from '@/contexts/McpContext';
+import type { McpCallOptions } from '@/services/mcpClient';
 import { useCallback, useEffect } from 'react';
 
 export function useMcpServer(serverName: string) {
   const {
     tools,
     resources,
+    prompts,
     connected,
+    statuses,
     loading,
     errors,
     connectServer,
     disconnectServer,
+    resetServer,
     callTool,
     refreshTools,
     refreshResources,
+    refreshPrompts,
+    getPrompt,
+    subscribeResource,
     clearError,
   } = useMcp();
 
   const serverTools = tools.get(serverName) || [];
   const serverResources = resources.get(serverName) || [];
+  const serverPrompts = prompts.get(serverName) || [];
   const isConnected = connected.get(serverName) || false;
+  const status = statuses.get(serverName);
   const isLoading = loading.get(serverName) || false;
   const error = errors.get(serverName);
 
@@ -33,17 +42,37 @@ export function useMcpServer(serverName: string) {
     return disconnectServer(serverName);
   }, [serverName, disconnectServer]);
 
+  const reset = useCallback(() => {
+    return resetServer(serverName);
+  }, [serverName, resetServer]);
+
   const call = useCallback(
-    (toolName: string, args: Record<string, any>) => {
-      return callTool(serverName, toolName, args);
+    (toolName: string, args: Record<string, any>, options?: McpCallOptions) => {
+      return callTool(serverName, toolName, args, options);
     },
     [serverName, callTool]
   );
 
+  const renderPrompt = useCallback(
+    (promptName: string, args?: Record<string, string>) => {
+      return getPrompt(serverName, promptName, args);
+    },
+    [serverName, getPrompt]
+  );
+
+  // Returns an unsubscribe function, suitable as a useEffect cleanup
+  const onResourceUpdated = useCallback(
+    (uri: string, listener: () => void) => {
+      return subscribeResource(serverName, uri, listener);
+    },
+    [serverName, subscribeResource]
+  );
+
   const refresh = useCallback(() => {
     refreshTools(serverName);
     refreshResources(serverName);
-  }, [serverName, refreshTools, refreshResources]);
+    refreshPrompts(serverName);
+  }, [serverName, refreshTools, refreshResources, refreshPrompts]);
 
   const clear = useCallback(() => {
     clearError(serverName);
@@ -52,12 +81,19 @@ export function useMcpServer(serverName: string) {
   return {
     tools: serverTools,
     resources: serverResources,
+    prompts: serverPrompts,
     connected: isConnected,
+    // Undefined until the first connection attempt starts
+    health: status?.health,
+    status,
     loading: isLoading,
     error,
     connect,
     disconnect,
+    reset,
     callTool: call,
+    getPrompt: renderPrompt,
+    onResourceUpdated,
     refresh,
     clearError: clear,
   };
@@ -0,0 +1,358 @@
+// Availability Service
+// Finds ranked free windows across all of the user's calendars using the calendar server's freebusy tool
+
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { McpCallOptions } from './mcpClient';
+import {
+  localTimeZone,
+  toEventDateTime,
+  type CalendarTools,
+  type ConflictReport,
+  type CreateEventArgs,
+  type EventConflict,
+  type UpdateEventArgs,
+} from './calendarTools';
+import { endOfDayInZone, formatTimeInZone, startOfDayInZone, zonedDay, zonedParts, zonedTime } from '@/utils/timeZone';
+
+/**
+ * Part of the day to search, in hours of the request's time zone (end is exclusive)
+ */
+export interface DayPart {
+  label: string;
+  start: number;
+  end: number;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface FreeWindow {
+  start: Date;
+  end: Date;
+  // "HH:mm" start time, as the pickers and chat follow-ups expect
+  time: string;
+  // e.g. "3:00 PM (Afternoon)"; prefixed with the day when it isn't on the preferred day
+  label: string;
+  dayPart: string;
+}
+
+export interface AvailabilityRequest {
+  durationMinutes: number;
+  rangeStart: Date;
+  rangeEnd: Date;
+  // Searched in order of preference; derived from `activity` when omitted
+  dayParts?: DayPart[];
+  // Event title used to pick day-parts, e.g. "Gym" -> early morning and evening
+  activity?: string;
+  // Windows on this day (and close to this time) rank first; defaults to rangeStart
+  preferredStart?: Date;
+  // Busy time to disregard, e.g. the current slot of an event being moved
+  ignore?: TimeInterval[];
+  maxResults?: number;
+  // At most this many windows per day-part per day, so suggestions are spread out
+  perDayPartLimit?: number;
+  // Zone for day-parts, times and labels; defaults to the browser's
+  timeZone?: string;
+}
+
+export interface ConflictCheckRequest {
+  // The write to check: create_event arguments, or update_event arguments for a move
+  event: CreateEventArgs | UpdateEventArgs;
+  // Proposed times, for the fallback and for labelling alternatives
+  start: Date;
+  end: Date;
+  // Zone for alternative labels
+  timeZone: string;
+  // Loaded events to check against if the server can't be asked
+  loadedEvents: Array<{ id: string; title: string; startDate?: Date; endDate?: Date; duration: number; busy?: boolean; calendarId?: string }>;
+}
+
+export interface ConflictCheck {
+  conflicts: EventConflict[];
+  alternatives: FreeWindow[];
+}
+
+const SLOT_STEP_MINUTES = 30;
+const DEFAULT_MAX_RESULTS = 3;
+const DEFAULT_PER_DAY_PART_LIMIT = 2;
+
+// Preferred day-parts by activity, checked in order; the first matching pattern wins
+const ACTIVITY_DAY_PARTS: Array<{ pattern: RegExp; dayParts: DayPart[] }> = [
+  {
+    pattern: /dinner|supper|evening meal/i,
+    dayParts: [
+      { start: 18, end: 21, label: "Evening" },
+      { start: 19, end: 22, label: "Late Evening" },
+    ],
+  },
+  {
+    pattern: /lunch|midday meal/i,
+    dayParts: [
+      { start: 11, end: 14, label: "Midday" },
+      { start: 12, end: 15, label: "Afternoon" },
+    ],
+  },
+  {
+    pattern: /breakfast|morning meal/i,
+    dayParts: [
+      { start: 7, end: 10, label: "Morning" },
+      { start: 8, end: 11, label: "Late Morning" },
+    ],
+  },
+  {
+    pattern: /gym|workout|exercise|fitness|run|jog/i,
+    dayParts: [
+      { start: 6, end: 9, label: "Early Morning" },
+      { start: 17, end: 20, label: "Evening" },
+      { start: 12, end: 14, label: "Lunch Break" },
+    ],
+  },
+  {
+    pattern: /study|homework|assignment|reading|buffer/i,
+    dayParts: [
+      { start: 9, end: 12, label: "Morning" },
+      { start: 14, end: 17, label: "Afternoon" },
+      { start: 19, end: 22, label: "Evening" },
+    ],
+  },
+  {
+    pattern: /meeting|call|interview/i,
+    dayParts: [
+      { start: 9, end: 12, label: "Morning" },
+      { start: 13, end: 17, label: "Afternoon" },
+    ],
+  },
+  {
+    pattern: /coffee|tea|break/i,
+    dayParts: [
+      { start: 10, end: 11, label: "Mid-Morning" },
+      { start: 15, end: 16, label: "Afternoon" },
+    ],
+  },
+];
+
+// Business hours plus evening
+export const DEFAULT_DAY_PARTS: DayPart[] = [
+  { start: 9, end: 12, label: "Morning" },
+  { start: 13, end: 17, label: "Afternoon" },
+  { start: 18, end: 21, label: "Evening" },
+];
+
+/**
+ * Day-parts that suit an activity, based on keywords in its title
+ */
+export function dayPartsForActivity(activity: string): DayPart[] {
+  return ACTIVITY_DAY_PARTS.find(({ pattern }) => pattern.test(activity))?.dayParts || DEFAULT_DAY_PARTS;
+}
+
+/**
+ * Remove the ignored intervals from the busy list (splitting busy blocks where needed)
+ */
+function subtractIntervals(busy: TimeInterval[], ignore: TimeInterval[]): TimeInterval[] {
+  return ignore.reduce<TimeInterval[]>(
+    (remaining, gap) =>
+      remaining.flatMap((interval) => {
+        if (gap.end <= interval.start || gap.start >= interval.end) return [interval];
+        const pieces: TimeInterval[] = [];
+        if (interval.start < gap.start) pieces.push({ start: interval.start, end: gap.start });
+        if (gap.end < interval.end) pieces.push({ start: gap.end, end: interval.end });
+        return pieces;
+      }),
+    busy
+  );
+}
+
+/**
+ * Rank free windows against a busy list
+ * Windows on the preferred day come first, then by day-part preference, then by closeness to the preferred time.
+ * Windows that already started are skipped.
+ */
+export function findFreeWindows(busyIntervals: TimeInterval[], request: AvailabilityRequest): FreeWindow[] {
+  const dayParts = request.dayParts || dayPartsForActivity(request.activity || '');
+  const preferredStart = request.preferredStart || request.rangeStart;
+  const timeZone = request.timeZone || localTimeZone();
+  const preferred = zonedParts(preferredStart, timeZone);
+  const preferredDay = new Date(preferred.year, preferred.month - 1, preferred.day);
+  const timeLabel = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+  const dayLabel = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' });
+  const maxResults = request.maxResults ?? DEFAULT_MAX_RESULTS;
+  const perDayPartLimit = request.perDayPartLimit ?? DEFAULT_PER_DAY_PART_LIMIT;
+  const busy = subtractIntervals(busyIntervals, request.ignore || []);
+  const now = new Date();
+
+  const candidates: Array<FreeWindow & { rank: [number, number, number] }> = [];
+  const taken = new Set<string>();
+
+  for (let day = startOfDay(request.rangeStart); day <= request.rangeEnd; day = addDays(day, 1)) {
+    const dayDistance = Math.abs(differenceInCalendarDays(day, preferredDay));
+
+    dayParts.forEach((dayPart, dayPartIndex) => {
+      let foundInDayPart = 0;
+      for (let minutes = dayPart.start * 60; minutes + request.durationMinutes <= dayPart.end * 60; minutes += SLOT_STEP_MINUTES) {
+        if (foundInDayPart >= perDayPartLimit) break;
+
+        const start = zonedTime(day, 0, minutes, timeZone);
+        const end = new Date(start.getTime() + request.durationMinutes * 60 * 1000);
+        if (start < now || start < request.rangeStart || end > request.rangeEnd) continue;
+
+        // Overlapping day-parts (e.g. Evening/Late Evening) can produce the same start time
+        const key = start.toISOString();
+        if (taken.has(key)) continue;
+
+        const hasConflict = busy.some((interval) => start < interval.end && end > interval.start);
+        if (hasConflict) continue;
+
+        taken.add(key);
+        foundInDayPart++;
+        const displayTime = timeLabel.format(start);
+        candidates.push({
+          start,
+          end,
+          time: formatTimeInZone(start, timeZone),
+          label: dayDistance === 0
+            ? `${displayTime} (${dayPart.label})`
+            : `${dayLabel.format(start)} ${displayTime} (${dayPart.label})`,
+          dayPart: dayPart.label,
+          rank: [dayDistance, dayPartIndex, Math.abs(minutes - (preferred.hour * 60 + preferred.minute))],
+        });
+      }
+    });
+  }
+
+  return candidates
+    .sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1] || a.rank[2] - b.rank[2])
+    .slice(0, maxResults)
+    .map(({ rank, ...window }) => window);
+}
+
+/**
+ * Busy intervals from already-loaded events (visible calendars only), for when freebusy is unavailable
+ * Events marked free, like most all-day events, don't block time.
+ */
+export function busyFromEvents(
+  events: Array<{ id: string; startDate?: Date; endDate?: Date; duration: number; busy?: boolean }>,
+  excludeEventId?: string
+): TimeInterval[] {
+  return events
+    .filter((event) => event.startDate && event.busy !== false && event.id !== excludeEventId)
+    .map((event) => ({
+      start: event.startDate!,
+      end: event.endDate || new Date(event.startDate!.getTime() + event.duration * 60 * 1000),
+    }));
+}
+
+/**
+ * Busy intervals across all of the user's calendars, merged
+ */
+export async function fetchBusyIntervals(
+  calendarTools: CalendarTools,
+  rangeStart: Date,
+  rangeEnd: Date,
+  options?: McpCallOptions
+): Promise<TimeInterval[]> {
+  const result = await calendarTools.freebusy({
+    timeMin: rangeStart.toISOString(),
+    timeMax: rangeEnd.toISOString(),
+  }, options);
+  return Object.values(result.calendars || {}).flatMap((calendar) =>
+    (calendar.busy || []).map((interval) => ({ start: new Date(interval.start), end: new Date(interval.end) }))
+  );
+}
+
+/**
+ * Ranked free windows for a request, from freebusy across every calendar
+ * If freebusy fails (e.g. an older server without the tool), falls back to `fallbackBusy`, typically the loaded events.
+ */
+export async function findAvailability(
+  calendarTools: CalendarTools,
+  request: AvailabilityRequest,
+  fallbackBusy: TimeInterval[] = [],
+  options?: McpCallOptions
+): Promise<FreeWindow[]> {
+  let busy: TimeInterval[];
+  try {
+    busy = await fetchBusyIntervals(calendarTools, request.rangeStart, request.rangeEnd, options);
+  } catch (error) {
+    console.warn('[Availability] freebusy failed, using loaded events instead:', error);
+    busy = fallbackBusy;
+  }
+  return findFreeWindows(busy, request);
+}
+
+// Day-part name for an alternative the server suggested
+function dayPartLabel(hour: number): string {
+  return DEFAULT_DAY_PARTS.find((dayPart) => hour >= dayPart.start && hour < dayPart.end)?.label
+    || (hour < 12 ? 'Morning' : hour < 18 ? 'Afternoon' : 'Evening');
+}
+
+/**
+ * A server conflict report with its alternatives labelled in `timeZone`
+ */
+export function fromConflictReport(report: ConflictReport, timeZone: string): ConflictCheck {
+  const timeLabel = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+  return {
+    conflicts: report.conflicts,
+    alternatives: report.alternatives.map((alternative) => {
+      const start = new Date(alternative.start);
+      const dayPart = dayPartLabel(zonedParts(start, timeZone).hour);
+      return {
+        start,
+        end: new Date(alternative.end),
+        time: formatTimeInZone(start, timeZone),
+        label: `${timeLabel.format(start)} (${dayPart})`,
+        dayPart,
+      };
+    }),
+  };
+}
+
+/**
+ * Busy events a create or update would overlap on any of the user's calendars, with alternatives that day
+ * Asks the calendar server for a dry run of the write, so every write path gets the same answer. If that fails,
+ * falls back to the loaded events and findAvailability.
+ * For a single write, prefer createEventIfFree/updateEventIfFree, which check and write in one call.
+ */
+export async function checkConflicts(
+  calendarTools: CalendarTools,
+  request: ConflictCheckRequest,
+  options?: McpCallOptions
+): Promise<ConflictCheck> {
+  const eventId = 'eventId' in request.event ? request.event.eventId : undefined;
+  try {
+    const report = eventId
+      ? await calendarTools.checkUpdateConflicts(request.event as UpdateEventArgs, options)
+      : await calendarTools.checkCreateConflicts(request.event as CreateEventArgs, options);
+    return fromConflictReport(report, request.timeZone);
+  } catch (error) {
+    console.warn('[Availability] Conflict check failed, using loaded events instead:', error);
+  }
+
+  const { start, end, timeZone, loadedEvents } = request;
+  const conflicts = loadedEvents
+    .filter((event) => event.id !== eventId && event.busy !== false && event.startDate && event.endDate)
+    .filter((event) => start < event.endDate! && end > event.startDate!)
+    .map((event) => ({
+      calendarId: event.calendarId || 'primary',
+      eventId: event.id,
+      summary: event.title,
+      start: toEventDateTime(event.startDate!, timeZone),
+      end: toEventDateTime(event.endDate!, timeZone),
+    }));
+  if (conflicts.length === 0) {
+    return { conflicts, alternatives: [] };
+  }
+  const excluded = loadedEvents.find((event) => event.id === eventId);
+  const day = zonedDay(start, timeZone);
+  const alternatives = await findAvailability(calendarTools, {
+    durationMinutes: Math.round((end.getTime() - start.getTime()) / (60 * 1000)),
+    rangeStart: startOfDayInZone(day, timeZone),
+    rangeEnd: endOfDayInZone(day, timeZone),
+    timeZone,
+    activity: request.event.summary || excluded?.title,
+    preferredStart: start,
+    ignore: excluded?.startDate && excluded.endDate ? [{ start: excluded.startDate, end: excluded.endDate }] : undefined,
+  }, busyFromEvents(loadedEvents, eventId), options);
+  return { conflicts, alternatives };
+}
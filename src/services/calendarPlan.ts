@@ -0,0 +1,128 @@
+// Calendar Plan Service
+// Applies multi-event plans all or nothing, with the calendar server's apply_changes tool or step by step
+
+import type { McpCallOptions } from './mcpClient';
+import { McpToolError } from './mcpToolResult';
+import type {
+  CalendarChange,
+  CalendarPlanResult,
+  CalendarPlanStep,
+  CalendarTools,
+  CreateEventArgs,
+  GoogleCalendarEvent,
+} from './calendarTools';
+
+// The fields an undo writes back
+function snapshotFields(event: GoogleCalendarEvent): Omit<CreateEventArgs, 'calendarId'> {
+  return {
+    summary: event.summary || '',
+    description: event.description,
+    start: event.start,
+    end: event.end,
+    location: event.location,
+    attendees: event.attendees?.map(({ email, displayName, optional }) => ({ email, displayName, optional })),
+    transparency: event.transparency,
+    privateProperties: event.extendedProperties?.private,
+  };
+}
+
+/**
+ * Apply changes one tool call at a time, undoing the applied ones (newest first) if a later one fails
+ * Deleted events can only be restored as copies with a new id; apply_changes brings back the original.
+ */
+async function applyStepByStep(
+  calendarTools: CalendarTools,
+  changes: CalendarChange[],
+  options?: McpCallOptions
+): Promise<CalendarPlanResult> {
+  const steps: CalendarPlanStep[] = changes.map((change, index) => ({ index, op: change.op, status: 'skipped' }));
+  const undo: Array<() => Promise<unknown>> = [];
+  let failedAt = -1;
+
+  for (const [index, change] of changes.entries()) {
+    const step = steps[index];
+    try {
+      if (change.op === 'create') {
+        const { op, ...args } = change;
+        const created = await calendarTools.createEvent(args, options);
+        undo.push(() => calendarTools.deleteEvent({ calendarId: change.calendarId, eventId: created.id, sendUpdates: change.sendUpdates }, options));
+        Object.assign(step, { eventId: created.id, event: created });
+      } else if (change.op === 'update') {
+        const { op, ...args } = change;
+        const before = await calendarTools.getEvent({ calendarId: change.calendarId, eventId: change.eventId }, options);
+        const updated = await calendarTools.updateEvent(args, options);
+        undo.push(() => calendarTools.updateEvent({
+          calendarId: change.calendarId,
+          eventId: change.eventId,
+          sendUpdates: change.sendUpdates,
+          ...snapshotFields(before),
+          // Private properties are merged, so keys the change added have to be removed explicitly
+          privateProperties: {
+            ...Object.fromEntries(Object.keys(change.privateProperties || {}).map((key) => [key, null])),
+            ...before.extendedProperties?.private,
+          },
+        }, options));
+        Object.assign(step, { eventId: change.eventId, event: updated });
+      } else {
+        const { op, ...args } = change;
+        const before = await calendarTools.getEvent({ calendarId: change.calendarId, eventId: change.eventId }, options);
+        await calendarTools.deleteEvent(args, options);
+        undo.push(() => calendarTools.createEvent({ calendarId: change.calendarId, ...snapshotFields(before) }, options));
+        step.eventId = change.eventId;
+      }
+      step.status = 'applied';
+    } catch (error) {
+      Object.assign(step, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      failedAt = index;
+      break;
+    }
+  }
+
+  if (failedAt < 0) {
+    return { status: 'applied', steps };
+  }
+  let rollbackFailed = false;
+  for (let index = failedAt - 1; index >= 0; index--) {
+    try {
+      await undo[index]();
+      steps[index].status = 'rolledBack';
+      delete steps[index].event;
+    } catch (error) {
+      console.error(`[CalendarPlan] Could not undo change ${index + 1}:`, error);
+      Object.assign(steps[index], { status: 'rollbackFailed', error: error instanceof Error ? error.message : String(error) });
+      rollbackFailed = true;
+    }
+  }
+  return { status: rollbackFailed ? 'partial' : 'rolledBack', steps };
+}
+
+/**
+ * Apply a plan's changes in order, all or nothing
+ * Uses the server's apply_changes batch tool, falling back to step-by-step calls on servers without it.
+ * A failed plan doesn't throw: check `status`, and `steps` for what failed and what was undone.
+ */
+export async function applyCalendarPlan(
+  calendarTools: CalendarTools,
+  changes: CalendarChange[],
+  options?: McpCallOptions
+): Promise<CalendarPlanResult> {
+  if (changes.length === 0) {
+    return { status: 'applied', steps: [] };
+  }
+  try {
+    return await calendarTools.applyChanges({ changes }, options);
+  } catch (error) {
+    if (!(error instanceof McpToolError && /unknown tool/i.test(error.message))) {
+      throw error;
+    }
+    console.warn('[CalendarPlan] apply_changes not available, applying changes one by one');
+  }
+  return applyStepByStep(calendarTools, changes, options);
+}
+
+/**
+ * The step that stopped a plan, if it failed
+ */
+export function failedPlanStep(result: CalendarPlanResult): CalendarPlanStep | undefined {
+  return result.steps.find((step) => step.status === 'failed');
+}
@@ -0,0 +1,354 @@
+// Google Calendar Tools
+// Typed wrappers for the google-calendar MCP server's tools, mirroring its tools/list inputSchema
+
+import { format } from 'date-fns';
+import type { McpCallOptions } from './mcpClient';
+import { expectJson, McpToolResult } from './mcpToolResult';
+
+export type McpToolCaller = (
+  toolName: string,
+  args: Record<string, any>,
+  options?: McpCallOptions
+) => Promise<McpToolResult>;
+
+/**
+ * Google Calendar EventDateTime - timed events use dateTime, all-day events use date
+ */
+export interface EventDateTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+/**
+ * Google Calendar event resource, as returned by list_events/get_event/create_event/update_event
+ * Only the fields the app reads are typed.
+ */
+export interface GoogleCalendarEvent {
+  id: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  htmlLink?: string;
+  status?: string;
+  // RRULE/EXDATE lines; only on the series itself (list_events with singleEvents: false, or get_event on the series id)
+  recurrence?: string[];
+  // Set on instances of a recurring event: the series' event id and this instance's unmodified start
+  recurringEventId?: string;
+  originalStartTime?: EventDateTime;
+  attendees?: EventAttendee[];
+  organizer?: { email?: string; displayName?: string; self?: boolean };
+  transparency?: EventTransparency;
+  extendedProperties?: EventExtendedProperties;
+}
+
+/**
+ * Key/value metadata apps store on an event; private properties are only visible to the app that set them
+ */
+export interface EventExtendedProperties {
+  private?: Record<string, string>;
+  shared?: Record<string, string>;
+}
+
+/**
+ * Whether an event blocks time: opaque (busy, Google's default) or transparent (free)
+ * Google Calendar creates all-day events as transparent, so they don't show up in free/busy.
+ */
+export type EventTransparency = 'opaque' | 'transparent';
+
+export type AttendeeResponseStatus = 'needsAction' | 'accepted' | 'declined' | 'tentative';
+
+/**
+ * A guest of an event; `self` marks the signed-in user's own entry
+ */
+export interface EventAttendee {
+  email: string;
+  displayName?: string;
+  optional?: boolean;
+  responseStatus?: AttendeeResponseStatus;
+  self?: boolean;
+  organizer?: boolean;
+  comment?: string;
+}
+
+/**
+ * Who Google emails about a change: every guest, only guests outside the user's domain, or nobody
+ */
+export type SendUpdates = 'all' | 'externalOnly' | 'none';
+
+/**
+ * Which occurrences an edit or delete of a recurring event instance applies to
+ */
+export type RecurringEditScope = 'instance' | 'following' | 'series';
+
+export interface GoogleCalendarListEntry {
+  id: string;
+  summary?: string;
+  // The user's own name for a calendar they subscribed to
+  summaryOverride?: string;
+  primary?: boolean;
+  backgroundColor?: string;
+  foregroundColor?: string;
+  accessRole?: 'freeBusyReader' | 'reader' | 'writer' | 'owner';
+}
+
+export interface DeleteEventResult {
+  success: boolean;
+  deletedEventId: string;
+  scope?: RecurringEditScope;
+}
+
+export interface ListEventsArgs {
+  calendarId?: string;
+  timeMin?: string;
+  timeMax?: string;
+  maxResults?: number;
+  // Expand recurring events into instances (default true)
+  singleEvents?: boolean;
+  // Only events with this private property, as "key=value"; searches all time when timeMin is omitted
+  privateExtendedProperty?: string;
+}
+
+/**
+ * Full sync (no syncToken) of a window, or incremental sync of changes since a previous sync
+ */
+export interface SyncEventsArgs {
+  calendarId?: string;
+  syncToken?: string;
+  // Full sync window; ignored for incremental syncs, which cover all time
+  timeMin?: string;
+  timeMax?: string;
+  singleEvents?: boolean;
+}
+
+export interface SyncEventsResult {
+  // Changed events; deleted events and cancelled instances have status "cancelled"
+  items: GoogleCalendarEvent[];
+  nextSyncToken: string | null;
+  // The sync token expired - discard local state and run a full sync
+  fullSyncRequired: boolean;
+}
+
+export interface GetEventArgs {
+  calendarId?: string;
+  eventId: string;
+}
+
+export interface CreateEventArgs {
+  calendarId?: string;
+  summary: string;
+  description?: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  location?: string;
+  recurrence?: string[];
+  attendees?: Array<Pick<EventAttendee, 'email' | 'displayName' | 'optional'>>;
+  sendUpdates?: SendUpdates;
+  transparency?: EventTransparency;
+  // Stored in extendedProperties.private
+  privateProperties?: Record<string, string>;
+}
+
+export interface UpdateEventArgs {
+  calendarId?: string;
+  eventId: string;
+  summary?: string;
+  description?: string;
+  start?: EventDateTime;
+  end?: EventDateTime;
+  location?: string;
+  recurrence?: string[];
+  // Replaces the guest list; guests already invited keep their responses
+  attendees?: Array<Pick<EventAttendee, 'email' | 'displayName' | 'optional'>>;
+  sendUpdates?: SendUpdates;
+  transparency?: EventTransparency;
+  // Merged into extendedProperties.private; null removes a key
+  privateProperties?: Record<string, string | null>;
+  scope?: RecurringEditScope;
+}
+
+export interface DeleteEventArgs {
+  calendarId?: string;
+  eventId: string;
+  scope?: RecurringEditScope;
+  sendUpdates?: SendUpdates;
+}
+
+export interface RespondToEventArgs {
+  calendarId?: string;
+  eventId: string;
+  responseStatus: Exclude<AttendeeResponseStatus, 'needsAction'>;
+  comment?: string;
+  // Defaults to 'all', so the organizer hears about it
+  sendUpdates?: SendUpdates;
+}
+
+/**
+ * One change in a plan for apply_changes; recurring series edits aren't batched (use updateEvent with a scope)
+ */
+export type CalendarChange =
+  | ({ op: 'create' } & Omit<CreateEventArgs, 'recurrence'>)
+  | ({ op: 'update' } & Omit<UpdateEventArgs, 'recurrence' | 'scope'>)
+  | ({ op: 'delete' } & Omit<DeleteEventArgs, 'scope'>);
+
+export interface ApplyChangesArgs {
+  changes: CalendarChange[];
+}
+
+/**
+ * Outcome of one change: applied, failed (the plan stopped here), skipped (after a failure),
+ * rolledBack (undone after a later failure) or rollbackFailed (still applied - undoing it failed too)
+ */
+export type CalendarPlanStepStatus = 'applied' | 'failed' | 'skipped' | 'rolledBack' | 'rollbackFailed';
+
+export interface CalendarPlanStep {
+  index: number;
+  op: CalendarChange['op'];
+  status: CalendarPlanStepStatus;
+  eventId?: string;
+  // The created or updated event, while applied
+  event?: GoogleCalendarEvent;
+  error?: string;
+}
+
+export interface CalendarPlanResult {
+  // partial: a change failed and some earlier changes couldn't be undone
+  status: 'applied' | 'rolledBack' | 'partial';
+  steps: CalendarPlanStep[];
+}
+
+export interface FreeBusyArgs {
+  timeMin: string;
+  timeMax: string;
+  // Defaults to every calendar in the user's list
+  calendarIds?: string[];
+  timeZone?: string;
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export interface FreeBusyResult {
+  timeMin: string;
+  timeMax: string;
+  calendars: Record<string, { busy: BusyInterval[]; errors?: Array<{ domain: string; reason: string }> }>;
+}
+
+/**
+ * A busy event, on any of the user's calendars, that a create or update would overlap
+ */
+export interface EventConflict {
+  calendarId: string;
+  eventId: string;
+  summary?: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  // Kaisey's tier and lock, on events Kaisey created
+  tier?: number;
+  locked?: boolean;
+}
+
+/**
+ * create_event/update_event result for a dry run (or a checkConflicts write that was refused)
+ */
+export interface ConflictReport {
+  dryRun: boolean;
+  written: false;
+  conflicts: EventConflict[];
+  // Free slots of the same length that day (7am-10pm in the event's zone), nearest to the requested time first
+  alternatives: Array<{ start: string; end: string }>;
+}
+
+/**
+ * A write with checkConflicts that was refused because the slot is taken (nothing was written)
+ */
+export function isConflictReport(result: GoogleCalendarEvent | ConflictReport): result is ConflictReport {
+  return (result as ConflictReport).written === false;
+}
+
+/**
+ * MCP resource URI for a calendar's events; the server sends resources/updated for it on changes
+ */
+export function calendarEventsUri(calendarId = 'primary'): string {
+  return `calendar://events/${calendarId}`;
+}
+
+/**
+ * Build an EventDateTime for a timed event
+ * The zone decides how Google shows the event and expands a recurring series (e.g. across DST), so always
+ * pass one: the event's own zone when editing, the user's home zone for new events.
+ */
+export function toEventDateTime(date: Date, timeZone: string): EventDateTime {
+  return { dateTime: date.toISOString(), timeZone };
+}
+
+/**
+ * Build an EventDateTime for an all-day event from a calendar day
+ * All-day dates have no zone; an event's end date is the day after its last day.
+ */
+export function toEventDate(day: Date): EventDateTime {
+  return { date: format(day, 'yyyy-MM-dd') };
+}
+
+/**
+ * The browser's IANA time zone, e.g. "America/New_York"
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function withPrimaryCalendar<T extends { calendarId?: string }>(args: T): T & { calendarId: string } {
+  return { ...args, calendarId: args.calendarId || 'primary' };
+}
+
+/**
+ * Bind the calendar tools to a server's callTool (see useCalendarTools)
+ * Results are decoded from the tools' JSON text; tool failures throw McpToolError.
+ */
+export function createCalendarTools(callTool: McpToolCaller) {
+  const callJson = async <T>(toolName: string, args: Record<string, any>, options?: McpCallOptions): Promise<T> =>
+    expectJson<T>(toolName, await callTool(toolName, args, options));
+
+  return {
+    listCalendars: (options?: McpCallOptions) =>
+      callJson<GoogleCalendarListEntry[]>('list_calendars', {}, options),
+    listEvents: (args: ListEventsArgs = {}, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent[]>('list_events', withPrimaryCalendar(args), options),
+    syncEvents: ({ syncToken, timeMin, timeMax, ...args }: SyncEventsArgs, options?: McpCallOptions) =>
+      callJson<SyncEventsResult>(
+        'list_events',
+        withPrimaryCalendar(syncToken ? { ...args, syncToken } : { ...args, timeMin, timeMax, returnSyncToken: true }),
+        options
+      ),
+    getEvent: (args: GetEventArgs, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent>('get_event', withPrimaryCalendar(args), options),
+    createEvent: (args: CreateEventArgs, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent>('create_event', withPrimaryCalendar(args), options),
+    updateEvent: (args: UpdateEventArgs, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent>('update_event', withPrimaryCalendar(args), options),
+    // Dry runs: what the write would overlap and where else it fits, without writing anything
+    checkCreateConflicts: (args: CreateEventArgs, options?: McpCallOptions) =>
+      callJson<ConflictReport>('create_event', { ...withPrimaryCalendar(args), dryRun: true }, options),
+    checkUpdateConflicts: (args: UpdateEventArgs, options?: McpCallOptions) =>
+      callJson<ConflictReport>('update_event', { ...withPrimaryCalendar(args), dryRun: true }, options),
+    // Check and write in one call, so nothing can take the slot in between; refused with a ConflictReport if it's busy
+    createEventIfFree: (args: CreateEventArgs, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent | ConflictReport>('create_event', { ...withPrimaryCalendar(args), checkConflicts: true }, options),
+    updateEventIfFree: (args: UpdateEventArgs, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent | ConflictReport>('update_event', { ...withPrimaryCalendar(args), checkConflicts: true }, options),
+    deleteEvent: (args: DeleteEventArgs, options?: McpCallOptions) =>
+      callJson<DeleteEventResult>('delete_event', withPrimaryCalendar(args), options),
+    respondToEvent: (args: RespondToEventArgs, options?: McpCallOptions) =>
+      callJson<GoogleCalendarEvent>('respond_to_event', withPrimaryCalendar(args), options),
+    freebusy: (args: FreeBusyArgs, options?: McpCallOptions) =>
+      callJson<FreeBusyResult>('freebusy', args, options),
+    applyChanges: (args: ApplyChangesArgs, options?: McpCallOptions) =>
+      callJson<CalendarPlanResult>('apply_changes', { changes: args.changes.map(withPrimaryCalendar) }, options),
+  };
+}
+
+export type CalendarTools = ReturnType<typeof createCalendarTools>;
@@ -0,0 +1,90 @@
+// Canvas LMS Tools
+// Typed wrappers for the canvas MCP server's tools (Canvas_MCPTest/mcp-canvas-server.js)
+
+import type { McpCallOptions } from './mcpClient';
+import { expectJson } from './mcpToolResult';
+import type { McpToolCaller } from './calendarTools';
+
+interface CanvasCourseFields {
+  id: number;
+  name: string;
+  course_id: number;
+  course_name: string;
+  course_code: string;
+}
+
+// How an assignment or quiz counts toward the final grade
+interface CanvasGradingFields {
+  assignment_group_id?: number | null;
+  assignment_group_name?: string | null;
+  // Percent of the final grade for the whole group; null when the course grades by points alone
+  group_weight?: number | null;
+  points_possible: number | null;
+}
+
+export interface CanvasSubmission {
+  // "unsubmitted", "submitted", "pending_review" or "graded"
+  workflow_state: string;
+  submitted_at: string | null;
+  body: string | null;
+}
+
+export interface CanvasAssignmentItem extends CanvasCourseFields, CanvasGradingFields {
+  type: 'assignment';
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  submission: CanvasSubmission | null;
+}
+
+export interface CanvasQuizItem extends CanvasCourseFields, CanvasGradingFields {
+  type: 'quiz';
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  // The same quiz's entry among the assignments; null for ungraded quizzes
+  assignment_id?: number | null;
+  question_count: number | null;
+  allowed_attempts: number | null;
+}
+
+export interface CanvasAnnouncementItem extends CanvasCourseFields {
+  type: 'announcement';
+  posted_at: string | null;
+  created_at: string;
+  // HTML
+  message: string | null;
+}
+
+export interface CanvasCalendarEventItem {
+  type: 'calendar_event';
+  id: number;
+  name: string;
+  start_at: string;
+  end_at: string;
+  location_name: string | null;
+  // e.g. "course_12345"
+  context_code: string;
+  description: string | null;
+}
+
+/**
+ * One entry of list_user_course_items, by `type`
+ */
+export type CanvasCourseItem = CanvasAssignmentItem | CanvasQuizItem | CanvasAnnouncementItem | CanvasCalendarEventItem;
+
+/**
+ * Bind the Canvas tools to a server's callTool (see useCanvasTools)
+ */
+export function createCanvasTools(callTool: McpToolCaller) {
+  const callJson = async <T>(toolName: string, args: Record<string, any>, options?: McpCallOptions): Promise<T> =>
+    expectJson<T>(toolName, await callTool(toolName, args, options));
+
+  return {
+    // Assignments, quizzes and announcements of active courses, and upcoming Canvas calendar events
+    listUserCourseItems: (options?: McpCallOptions) =>
+      callJson<CanvasCourseItem[]>('list_user_course_items', {}, options),
+  };
+}
+
+export type CanvasTools = ReturnType<typeof createCanvasTools>;
@@ -0,0 +1,131 @@
+// MCP Audit Log
+// Records every tool call made through McpContext.callTool, persisted in localStorage
+
+export type McpAuditStatus = "success" | "error" | "cancelled";
+
+export interface McpAuditEntry {
+  id: string;
+  timestamp: number;
+  serverName: string;
+  toolName: string;
+  args: Record<string, any>;
+  // Who made the call, e.g. "chatbot-auto" for writes the AI executed without approval
+  source?: string;
+  // Routine read the app made on its own, e.g. a calendar sync
+  background?: boolean;
+  durationMs: number;
+  // Length of the JSON-serialized result, 0 on failure
+  resultSize: number;
+  status: McpAuditStatus;
+  error?: string;
+}
+
+export type McpAuditListener = (entries: McpAuditEntry[]) => void;
+
+const STORAGE_KEY = "nexus_mcp_audit_log";
+// Oldest entries are dropped once the log is full
+const MAX_ENTRIES = 200;
+// Background syncs run on every change notification; capped separately so they don't push out the writes
+const MAX_BACKGROUND_ENTRIES = 30;
+// Long error messages (e.g. HTML error pages) are truncated before storing
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Size of a tool result as stored/transferred, without failing on odd values
+ */
+export function measureResultSize(result: unknown): number {
+  try {
+    return JSON.stringify(result ?? null).length;
+  } catch {
+    return 0;
+  }
+}
+
+export class McpAuditLog {
+  private entries: McpAuditEntry[] = [];
+  private listeners: Set<McpAuditListener> = new Set();
+
+  constructor() {
+    this.entries = this.load();
+  }
+
+  private load(): McpAuditEntry[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.slice(-MAX_ENTRIES) : [];
+    } catch (error) {
+      console.error('[McpAuditLog] Error loading audit log:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      // Quota exceeded - keep the newest half in memory and try once more
+      console.warn('[McpAuditLog] Error saving audit log, trimming:', error);
+      this.entries = this.entries.slice(-Math.floor(MAX_ENTRIES / 2));
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+      } catch {
+        // Still in memory for this session
+      }
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getEntries();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  /**
+   * Append a call record, dropping the oldest entries beyond the limits
+   */
+  record(entry: Omit<McpAuditEntry, "id" | "timestamp">): McpAuditEntry {
+    const full: McpAuditEntry = {
+      ...entry,
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: Date.now(),
+      error: entry.error?.substring(0, MAX_ERROR_LENGTH),
+    };
+    let entries = [...this.entries, full];
+    const background = entries.filter((e) => e.background);
+    if (background.length > MAX_BACKGROUND_ENTRIES) {
+      const dropped = new Set(background.slice(0, background.length - MAX_BACKGROUND_ENTRIES));
+      entries = entries.filter((e) => !dropped.has(e));
+    }
+    this.entries = entries.slice(-MAX_ENTRIES);
+    this.save();
+    this.notify();
+    return full;
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  getEntries(): McpAuditEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+    localStorage.removeItem(STORAGE_KEY);
+    this.notify();
+  }
+
+  /**
+   * Subscribe to log changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: McpAuditListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Singleton instance
+export const mcpAuditLog = new McpAuditLog();
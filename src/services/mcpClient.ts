@@ -2,12 +2,47 @@
 // Handles connections to MCP servers for the web application
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StreamableHTTPClientTransport, StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpFieldError, McpValidationError, validateToolArguments } from "./mcpSchema";
+import { decodeToolResult, McpToolResult } from "./mcpToolResult";
+
+/**
+ * Retry policy for a tool that is safe to call more than once
+ * Only timeouts and connection errors are retried; JSON-RPC errors are returned as-is.
+ */
+export interface McpRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
 
 export interface McpServerConfig {
   name: string;
   url: string;
   headers?: Record<string, string>;
+  // Default timeout for tool calls on this server
+  timeoutMs?: number;
+  // Retry policies keyed by tool name; tools without one are never retried
+  retryPolicies?: Record<string, McpRetryPolicy>;
+}
+
+export interface McpCallOptions {
+  // Cancels the call, e.g. when the user presses stop
+  signal?: AbortSignal;
+  // Overrides the server's default timeout
+  timeoutMs?: number;
+  // Who is making the call, recorded in the audit log (e.g. "chatbot-auto")
+  source?: string;
+  // A read the app repeats on its own (e.g. calendar syncs); the audit log keeps fewer of these
+  background?: boolean;
 }
 
 export interface McpTool {
@@ -23,9 +58,168 @@ export interface McpResource {
   mimeType?: string;
 }
 
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
+/**
+ * Connection health of a registered server
+ * - connecting: initial connection in progress
+ * - healthy: connected and answering health checks
+ * - degraded: connection lost, reconnecting with backoff
+ * - down: several reconnect attempts failed, still retrying at the max delay
+ */
+export type McpServerHealth = "connecting" | "healthy" | "degraded" | "down";
+
+export interface McpServerStatus {
+  health: McpServerHealth;
+  error: string | null;
+  reconnectAttempt: number;
+  nextRetryAt: number | null;
+}
+
+export type McpClientEvent =
+  | { type: "status"; serverName: string; status: McpServerStatus }
+  | { type: "tools"; serverName: string; tools: McpTool[] }
+  | { type: "resources"; serverName: string; resources: McpResource[] }
+  | { type: "prompts"; serverName: string; prompts: McpPrompt[] }
+  | { type: "resourceUpdated"; serverName: string; uri: string };
+
+export type McpClientListener = (event: McpClientEvent) => void;
+
+// Reconnect backoff: 1s, 2s, 4s, ... capped at 30s
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Consecutive failed reconnects before a server is reported as down
+const DOWN_AFTER_ATTEMPTS = 3;
+// Healthy connections are pinged so broken transports are noticed between calls
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+// Tool calls on servers without their own timeoutMs
+const DEFAULT_TOOL_TIMEOUT_MS = 30000;
+
+/**
+ * Whether an error means the transport is broken (server restarted, network gone)
+ * rather than the server answering with a JSON-RPC error
+ */
+function isConnectionError(error: unknown): boolean {
+  // fetch() rejects with a TypeError when the server can't be reached
+  if (error instanceof TypeError) return true;
+  // Non-2xx HTTP responses, including 404 for a session the server no longer knows
+  if (error instanceof StreamableHTTPError) return true;
+  return false;
+}
+
+/**
+ * Whether an error is the SDK giving up on a request that got no response in time
+ */
+export function isTimeoutError(error: unknown): boolean {
+  // Servers may use -32001 for their own errors, so also require the SDK's timeout data
+  return error instanceof McpError && error.code === ErrorCode.RequestTimeout && error.data?.timeout !== undefined;
+}
+
+/**
+ * Whether a call failed because its AbortSignal fired
+ */
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Wait before a retry, giving up early if the call is cancelled
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Resolve a configured server URL to an absolute URL
+ */
+function resolveServerUrl(rawUrl: string): URL {
+  // Handle relative URLs by using the current origin as base
+  // This is required because URL constructor needs an absolute URL
+  try {
+    if (rawUrl.startsWith('/')) {
+      // Relative URL - prepend current origin
+      return new URL(rawUrl, window.location.origin);
+    } else if (rawUrl.startsWith('http://') || rawUrl.startsWith('https://')) {
+      // Absolute URL - use directly
+      return new URL(rawUrl);
+    } else {
+      // Assume relative URL without leading slash
+      return new URL('/' + rawUrl, window.location.origin);
+    }
+  } catch (e) {
+    throw new Error(`Invalid MCP server URL: ${rawUrl}. Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Transport for a server config: HTTP, or an in-memory mock server for demo-mode mock:// URLs
+ * The mocks are loaded on demand so they stay out of the main bundle.
+ */
+async function createTransport(config: McpServerConfig): Promise<Transport> {
+  if (config.url.startsWith("mock://")) {
+    const { connectMockServer } = await import("./mocks");
+    return connectMockServer(config.url);
+  }
+  return new StreamableHTTPClientTransport(resolveServerUrl(config.url), {
+    requestInit: {
+      headers: config.headers || {},
+    },
+  });
+}
+
+export interface McpConnectionTestResult {
+  ok: boolean;
+  serverInfo?: { name: string; version: string };
+  tools: McpTool[];
+  latencyMs: number;
+  error?: string;
+}
+
 export class McpClientService {
   private clients: Map<string, Client> = new Map();
+  private transports: Map<string, Transport> = new Map();
   private servers: Map<string, McpServerConfig> = new Map();
+  private pendingConnections: Map<string, Promise<Client>> = new Map();
+  private statuses: Map<string, McpServerStatus> = new Map();
+  private reconnectTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private healthCheckTimers: Map<string, ReturnType<typeof setInterval>> = new Map();
+  private listeners: Set<McpClientListener> = new Set();
+  // inputSchema per tool from the latest tools/list, used to validate calls before sending
+  private toolSchemas: Map<string, Map<string, any>> = new Map();
+  // Resource URIs subscribed per server, re-sent after every reconnect
+  private resourceSubscriptions: Map<string, Set<string>> = new Map();
 
   /**
    * Register an MCP server configuration
@@ -34,57 +228,336 @@ export class McpClientService {
     this.servers.set(config.name, config);
   }
 
+  /**
+   * Remove a server from the registry, ending its session first
+   */
+  async unregisterServer(serverName: string): Promise<void> {
+    await this.disconnect(serverName);
+    this.servers.delete(serverName);
+    this.resourceSubscriptions.delete(serverName);
+    this.emit({ type: "tools", serverName, tools: [] });
+    this.emit({ type: "resources", serverName, resources: [] });
+    this.emit({ type: "prompts", serverName, prompts: [] });
+  }
+
+  /**
+   * Run initialize + tools/list against a config without registering it
+   * Used by the Settings "test connection" action; the session is ended afterwards.
+   */
+  async testConnection(config: McpServerConfig): Promise<McpConnectionTestResult> {
+    const startedAt = performance.now();
+    const client = new Client({
+      name: "nexus-web-app",
+      version: "1.0.0",
+    });
+    let transport: Transport | null = null;
+
+    try {
+      transport = await createTransport(config);
+      await client.connect(transport, { timeout: config.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS });
+      const tools = await this.fetchTools(client);
+      const serverInfo = client.getServerVersion();
+      return {
+        ok: true,
+        serverInfo: serverInfo ? { name: serverInfo.name, version: serverInfo.version } : undefined,
+        tools,
+        latencyMs: Math.round(performance.now() - startedAt),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        tools: [],
+        latencyMs: Math.round(performance.now() - startedAt),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      if (transport instanceof StreamableHTTPClientTransport) {
+        await transport.terminateSession().catch(() => undefined);
+      }
+      await client.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Subscribe to status and catalog changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: McpClientListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the current connection status of a server
+   */
+  getStatus(serverName: string): McpServerStatus | undefined {
+    return this.statuses.get(serverName);
+  }
+
+  private emit(event: McpClientEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error('[McpClient] Listener error:', e);
+      }
+    });
+  }
+
+  private setStatus(serverName: string, status: McpServerStatus): void {
+    this.statuses.set(serverName, status);
+    this.emit({ type: "status", serverName, status });
+  }
+
   /**
    * Connect to an MCP server
+   * Concurrent callers share the same in-flight connection attempt.
    */
   async connect(serverName: string): Promise<Client> {
     if (this.clients.has(serverName)) {
       return this.clients.get(serverName)!;
     }
 
+    const pending = this.pendingConnections.get(serverName);
+    if (pending) {
+      return pending;
+    }
+
     const config = this.servers.get(serverName);
     if (!config) {
       throw new Error(`Server ${serverName} not registered`);
     }
 
+    // A caller needs the server now - don't wait for the backoff timer
+    this.clearReconnectTimer(serverName);
+
+    const attempt = this.establish(serverName, config);
+    this.pendingConnections.set(serverName, attempt);
+    try {
+      return await attempt;
+    } finally {
+      this.pendingConnections.delete(serverName);
+    }
+  }
+
+  private async establish(serverName: string, config: McpServerConfig): Promise<Client> {
+    const previous = this.statuses.get(serverName);
+    const isReconnect = !!previous && previous.health !== "connecting" && previous.health !== "healthy";
+    if (!isReconnect) {
+      this.setStatus(serverName, { health: "connecting", error: null, reconnectAttempt: 0, nextRetryAt: null });
+    }
+
     const client = new Client({
       name: "nexus-web-app",
       version: "1.0.0",
     });
 
-    // Handle relative URLs by using the current origin as base
-    // This is required because URL constructor needs an absolute URL
-    let url: URL;
+    let transport: Transport;
     try {
-      if (config.url.startsWith('/')) {
-        // Relative URL - prepend current origin
-        url = new URL(config.url, window.location.origin);
-      } else if (config.url.startsWith('http://') || config.url.startsWith('https://')) {
-        // Absolute URL - use directly
-        url = new URL(config.url);
-      } else {
-        // Assume relative URL without leading slash
-        url = new URL('/' + config.url, window.location.origin);
-      }
-    } catch (e) {
-      throw new Error(`Invalid MCP server URL: ${config.url}. Error: ${e instanceof Error ? e.message : 'Unknown error'}`);
+      transport = await createTransport(config);
+    } catch (error) {
+      // A bad URL (or unknown mock server) won't fix itself - report it without scheduling reconnects
+      this.setStatus(serverName, { health: "down", error: (error as Error).message, reconnectAttempt: 0, nextRetryAt: null });
+      throw error;
+    }
+
+    this.attachNotificationHandlers(serverName, client);
+
+    try {
+      await client.connect(transport);
+    } catch (error) {
+      // Release whatever the failed handshake left open before retrying
+      client.close().catch(() => undefined);
+      this.handleConnectionLoss(serverName, error);
+      throw error;
     }
 
-    const transport = new StreamableHTTPClientTransport(
-      url,
-      {
-        requestInit: {
-          headers: config.headers || {},
-        },
+    // The transport closed underneath us (e.g. session terminated by the server)
+    client.onclose = () => {
+      if (this.clients.get(serverName) === client) {
+        this.handleConnectionLoss(serverName, new Error('Connection closed'));
       }
-    );
+    };
 
-    await client.connect(transport);
     this.clients.set(serverName, client);
+    this.transports.set(serverName, transport);
+    this.setStatus(serverName, { health: "healthy", error: null, reconnectAttempt: 0, nextRetryAt: null });
+    this.startHealthCheck(serverName, client);
+
+    // Replay the catalog so subscribers see tools/resources from the new session
+    await this.syncCatalog(serverName, client);
+    await this.resubscribeResources(serverName, client);
 
     return client;
   }
 
+  /**
+   * React to server notifications: refresh catalogs on list_changed, forward resource updates
+   */
+  private attachNotificationHandlers(serverName: string, client: Client): void {
+    const isCurrent = () => this.clients.get(serverName) === client;
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      if (!isCurrent()) return;
+      try {
+        const tools = await this.fetchTools(client);
+        this.cacheToolSchemas(serverName, tools);
+        this.emit({ type: "tools", serverName, tools });
+      } catch (e) {
+        console.warn(`[McpClient] Failed to refresh tools for ${serverName}:`, e);
+      }
+    });
+
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      if (!isCurrent()) return;
+      try {
+        const resources = await this.fetchResources(client);
+        this.emit({ type: "resources", serverName, resources });
+      } catch (e) {
+        console.warn(`[McpClient] Failed to refresh resources for ${serverName}:`, e);
+      }
+    });
+
+    client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+      if (!isCurrent()) return;
+      try {
+        const prompts = await this.fetchPrompts(client);
+        this.emit({ type: "prompts", serverName, prompts });
+      } catch (e) {
+        console.warn(`[McpClient] Failed to refresh prompts for ${serverName}:`, e);
+      }
+    });
+
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      if (!isCurrent()) return;
+      this.emit({ type: "resourceUpdated", serverName, uri: notification.params.uri });
+    });
+  }
+
+  private async resubscribeResources(serverName: string, client: Client): Promise<void> {
+    const uris = this.resourceSubscriptions.get(serverName);
+    if (!uris || uris.size === 0 || !client.getServerCapabilities()?.resources?.subscribe) {
+      return;
+    }
+    for (const uri of uris) {
+      try {
+        await client.subscribeResource({ uri });
+      } catch (e) {
+        console.warn(`[McpClient] Failed to resubscribe to ${uri} on ${serverName}:`, e);
+      }
+    }
+  }
+
+  /**
+   * Fetch tools and resources from a freshly connected client and publish them
+   */
+  private async syncCatalog(serverName: string, client: Client): Promise<void> {
+    try {
+      const tools = await this.fetchTools(client);
+      this.cacheToolSchemas(serverName, tools);
+      this.emit({ type: "tools", serverName, tools });
+    } catch (e) {
+      console.error(`[McpClient] Failed to list tools for ${serverName}:`, e);
+    }
+    try {
+      const resources = await this.fetchResources(client);
+      this.emit({ type: "resources", serverName, resources });
+    } catch (e) {
+      // Not every server implements resources/list
+      console.warn(`[McpClient] Failed to list resources for ${serverName}:`, e);
+    }
+    try {
+      const prompts = await this.fetchPrompts(client);
+      this.emit({ type: "prompts", serverName, prompts });
+    } catch (e) {
+      console.warn(`[McpClient] Failed to list prompts for ${serverName}:`, e);
+    }
+  }
+
+  /**
+   * Drop a broken client and schedule a reconnect with exponential backoff
+   */
+  private handleConnectionLoss(serverName: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[McpClient] Connection to ${serverName} lost:`, message);
+
+    // The session is unusable; close locally without trying to reach the server
+    const client = this.clients.get(serverName);
+    this.clients.delete(serverName);
+    this.transports.delete(serverName);
+    this.stopHealthCheck(serverName);
+    client?.close().catch(() => undefined);
+
+    if (!this.servers.has(serverName) || this.reconnectTimers.has(serverName)) {
+      return;
+    }
+
+    const attempt = (this.statuses.get(serverName)?.reconnectAttempt ?? 0) + 1;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+
+    this.setStatus(serverName, {
+      health: attempt > DOWN_AFTER_ATTEMPTS ? "down" : "degraded",
+      error: message,
+      reconnectAttempt: attempt,
+      nextRetryAt: Date.now() + delay,
+    });
+
+    const timer = setTimeout(() => {
+      this.reconnectTimers.delete(serverName);
+      this.connect(serverName).catch(() => {
+        // Failure already rescheduled by handleConnectionLoss
+      });
+    }, delay);
+    this.reconnectTimers.set(serverName, timer);
+  }
+
+  private clearReconnectTimer(serverName: string): void {
+    const timer = this.reconnectTimers.get(serverName);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(serverName);
+    }
+  }
+
+  private startHealthCheck(serverName: string, client: Client): void {
+    this.stopHealthCheck(serverName);
+    const timer = setInterval(async () => {
+      if (this.clients.get(serverName) !== client) return;
+      try {
+        await client.ping({ timeout: HEALTH_CHECK_TIMEOUT_MS });
+      } catch (error) {
+        if (this.clients.get(serverName) === client) {
+          this.handleConnectionLoss(serverName, error);
+        }
+      }
+    }, HEALTH_CHECK_INTERVAL_MS);
+    this.healthCheckTimers.set(serverName, timer);
+  }
+
+  private stopHealthCheck(serverName: string): void {
+    const timer = this.healthCheckTimers.get(serverName);
+    if (timer) {
+      clearInterval(timer);
+      this.healthCheckTimers.delete(serverName);
+    }
+  }
+
+  /**
+   * Run a request against a server's client, reporting broken transports to the supervisor
+   */
+  private async withClient<T>(serverName: string, fn: (client: Client) => Promise<T>): Promise<T> {
+    const client = await this.getClient(serverName);
+    try {
+      return await fn(client);
+    } catch (error) {
+      if (isConnectionError(error) && this.clients.get(serverName) === client) {
+        this.handleConnectionLoss(serverName, error);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get a connected client (connects if not already connected)
    */
@@ -95,11 +568,7 @@ export class McpClientService {
     return this.connect(serverName);
   }
 
-  /**
-   * List available tools from a server
-   */
-  async listTools(serverName: string): Promise<McpTool[]> {
-    const client = await this.getClient(serverName);
+  private async fetchTools(client: Client): Promise<McpTool[]> {
     const response = await client.listTools();
     return response.tools.map((tool) => ({
       name: tool.name,
@@ -108,64 +577,248 @@ export class McpClientService {
     }));
   }
 
+  private async fetchResources(client: Client): Promise<McpResource[]> {
+    const response = await client.listResources();
+    return response.resources.map((resource) => ({
+      uri: resource.uri,
+      name: resource.name,
+      description: resource.description,
+      mimeType: resource.mimeType,
+    }));
+  }
+
+  private cacheToolSchemas(serverName: string, tools: McpTool[]): void {
+    this.toolSchemas.set(
+      serverName,
+      new Map(tools.filter((tool) => tool.inputSchema).map((tool) => [tool.name, tool.inputSchema]))
+    );
+  }
+
+  private async fetchPrompts(client: Client): Promise<McpPrompt[]> {
+    // Servers without the prompts capability would answer "method not found"
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+    const response = await client.listPrompts();
+    return response.prompts.map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    }));
+  }
+
+  /**
+   * List available tools from a server
+   */
+  async listTools(serverName: string): Promise<McpTool[]> {
+    const tools = await this.withClient(serverName, (client) => this.fetchTools(client));
+    this.cacheToolSchemas(serverName, tools);
+    return tools;
+  }
+
+  /**
+   * Check arguments against a tool's inputSchema without calling it
+   * Returns no errors for tools whose schema hasn't been fetched.
+   */
+  validateToolCall(serverName: string, toolName: string, args: Record<string, any>): McpFieldError[] {
+    const schema = this.toolSchemas.get(serverName)?.get(toolName);
+    return schema ? validateToolArguments(schema, args) : [];
+  }
+
   /**
    * Call a tool on a server
+   * Arguments are validated against the tool's inputSchema first (McpValidationError).
+   * Times out after the server's default (or options.timeoutMs) and retries only
+   * tools that have a retry policy in the server config.
+   * Results are decoded; isError results throw McpToolError.
    */
   async callTool(
     serverName: string,
     toolName: string,
-    args: Record<string, any>
-  ): Promise<any> {
-    const client = await this.getClient(serverName);
-    const response = await client.callTool({
-      name: toolName,
-      arguments: args,
-    });
-    return response.content;
+    args: Record<string, any>,
+    options: McpCallOptions = {}
+  ): Promise<McpToolResult> {
+    const config = this.servers.get(serverName);
+    const timeout = options.timeoutMs ?? config?.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const retryPolicy = config?.retryPolicies?.[toolName];
+    const maxAttempts = retryPolicy ? Math.max(1, retryPolicy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.withClient(serverName, async (client) => {
+          // Checked after connecting so the schemas from tools/list are available
+          const fieldErrors = this.validateToolCall(serverName, toolName, args);
+          if (fieldErrors.length > 0) {
+            throw new McpValidationError(toolName, fieldErrors);
+          }
+          const response = await client.callTool(
+            {
+              name: toolName,
+              arguments: args,
+            },
+            undefined,
+            { signal: options.signal, timeout }
+          );
+          return decodeToolResult(toolName, response);
+        });
+      } catch (error) {
+        const retryable = isTimeoutError(error) || isConnectionError(error);
+        if (!retryPolicy || attempt >= maxAttempts || !retryable || isAbortError(error, options.signal)) {
+          throw error;
+        }
+        const retryDelay = retryPolicy.baseDelayMs * 2 ** (attempt - 1);
+        console.warn(`[McpClient] ${toolName} on ${serverName} failed (attempt ${attempt}/${maxAttempts}), retrying in ${retryDelay}ms`);
+        await delay(retryDelay, options.signal);
+      }
+    }
   }
 
   /**
    * List available resources from a server
    */
   async listResources(serverName: string): Promise<McpResource[]> {
-    const client = await this.getClient(serverName);
-    const response = await client.listResources();
-    return response.resources.map((resource) => ({
-      uri: resource.uri,
-      name: resource.name,
-      description: resource.description,
-      mimeType: resource.mimeType,
-    }));
+    return this.withClient(serverName, (client) => this.fetchResources(client));
+  }
+
+  /**
+   * List prompt templates from a server
+   */
+  async listPrompts(serverName: string): Promise<McpPrompt[]> {
+    return this.withClient(serverName, (client) => this.fetchPrompts(client));
+  }
+
+  /**
+   * Render a prompt template into messages
+   * Non-text content (images, embedded resources) is skipped.
+   */
+  async getPrompt(
+    serverName: string,
+    promptName: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: McpPromptMessage[] }> {
+    return this.withClient(serverName, async (client) => {
+      const response = await client.getPrompt({ name: promptName, arguments: args });
+      const messages = response.messages
+        .filter((message) => message.content.type === "text")
+        .map((message) => ({
+          role: message.role,
+          text: (message.content as { type: "text"; text: string }).text,
+        }));
+      return { description: response.description, messages };
+    });
+  }
+
+  /**
+   * Ask a server to send resourceUpdated events for a URI
+   * Kept across reconnects; a no-op on servers without subscription support.
+   */
+  async subscribeResource(serverName: string, uri: string): Promise<void> {
+    const uris = this.resourceSubscriptions.get(serverName) ?? new Set<string>();
+    uris.add(uri);
+    this.resourceSubscriptions.set(serverName, uris);
+
+    // Not connected yet - establish() subscribes once the session is up
+    const client = this.clients.get(serverName);
+    if (!client || !client.getServerCapabilities()?.resources?.subscribe) {
+      return;
+    }
+    await this.withClient(serverName, (c) => c.subscribeResource({ uri }));
+  }
+
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    this.resourceSubscriptions.get(serverName)?.delete(uri);
+
+    const client = this.clients.get(serverName);
+    if (!client || !client.getServerCapabilities()?.resources?.subscribe) {
+      return;
+    }
+    await this.withClient(serverName, (c) => c.unsubscribeResource({ uri }));
   }
 
   /**
    * Read a resource from a server
    */
   async readResource(serverName: string, uri: string): Promise<any> {
-    const client = await this.getClient(serverName);
-    const response = await client.readResource({ uri });
-    return response.contents;
+    return this.withClient(serverName, async (client) => {
+      const response = await client.readResource({ uri });
+      return response.contents;
+    });
   }
 
   /**
-   * Disconnect from a server
+   * Close a server's transport and end its session on the server
+   * The client is removed from the maps first so its onclose doesn't trigger a reconnect.
    */
-  async disconnect(serverName: string): Promise<void> {
+  private async teardown(serverName: string): Promise<void> {
+    this.clearReconnectTimer(serverName);
+    this.stopHealthCheck(serverName);
+
+    // Let an in-flight handshake finish so its session can be terminated too
+    const pending = this.pendingConnections.get(serverName);
+    if (pending) {
+      await pending.catch(() => undefined);
+      this.clearReconnectTimer(serverName);
+    }
+
     const client = this.clients.get(serverName);
+    const transport = this.transports.get(serverName);
+    this.clients.delete(serverName);
+    this.transports.delete(serverName);
+    this.stopHealthCheck(serverName);
+
+    if (transport instanceof StreamableHTTPClientTransport) {
+      try {
+        // DELETE with the Mcp-Session-Id header; servers without sessions answer 405
+        await transport.terminateSession();
+      } catch (e) {
+        console.warn(`[McpClient] Failed to terminate session for ${serverName}:`, e);
+      }
+    }
     if (client) {
-      // Note: Client doesn't have explicit disconnect, but we can remove from map
-      this.clients.delete(serverName);
+      try {
+        await client.close();
+      } catch (e) {
+        console.warn(`[McpClient] Failed to close client for ${serverName}:`, e);
+      }
     }
   }
 
+  /**
+   * Disconnect from a server
+   */
+  async disconnect(serverName: string): Promise<void> {
+    await this.teardown(serverName);
+    this.statuses.delete(serverName);
+    this.toolSchemas.delete(serverName);
+  }
+
   /**
    * Disconnect from all servers
    */
   async disconnectAll(): Promise<void> {
-    for (const serverName of this.clients.keys()) {
+    const serverNames = new Set([...this.clients.keys(), ...this.pendingConnections.keys(), ...this.statuses.keys()]);
+    for (const serverName of serverNames) {
       await this.disconnect(serverName);
     }
   }
+
+  /**
+   * Drop the current session and cached catalog, then run a fresh initialize handshake
+   * Use after the server's credentials change (e.g. switching Google accounts).
+   */
+  async reset(serverName: string): Promise<Client> {
+    if (!this.servers.has(serverName)) {
+      throw new Error(`Server ${serverName} not registered`);
+    }
+    await this.teardown(serverName);
+    this.statuses.delete(serverName);
+    this.toolSchemas.delete(serverName);
+    this.emit({ type: "tools", serverName, tools: [] });
+    this.emit({ type: "resources", serverName, resources: [] });
+    this.emit({ type: "prompts", serverName, prompts: [] });
+    return this.connect(serverName);
+  }
 }
 
 // Singleton instance
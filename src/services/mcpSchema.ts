@@ -0,0 +1,136 @@
+// MCP Tool Schema Validation
+// Checks tool arguments against the JSON Schema a server publishes in tools/list
+
+export interface McpFieldError {
+  // Dotted path to the offending field, e.g. "start.dateTime"; empty for the root
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown by McpClientService.callTool when arguments don't match the tool's inputSchema
+ * The request is never sent, so it is safe to fix the arguments and call again.
+ */
+export class McpValidationError extends Error {
+  readonly toolName: string;
+  readonly fieldErrors: McpFieldError[];
+
+  constructor(toolName: string, fieldErrors: McpFieldError[]) {
+    const summary = fieldErrors
+      .map((e) => (e.path ? `${e.path} ${e.message}` : e.message))
+      .join('; ');
+    super(`Invalid arguments for ${toolName}: ${summary}`);
+    this.name = 'McpValidationError';
+    this.toolName = toolName;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    default:
+      // Unknown types are the server's business
+      return true;
+  }
+}
+
+function validateNode(schema: any, value: unknown, path: string, errors: McpFieldError[]): void {
+  if (!schema || typeof schema !== 'object') return;
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push({ path, message: `must be ${types.join(' or ')}` });
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      errors.push({ path, message: 'must be an ISO 8601 date-time' });
+    }
+    if (schema.format === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      errors.push({ path, message: 'must be a YYYY-MM-DD date' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined) {
+        validateNode(propertySchema, obj[key], joinPath(path, key), errors);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateNode(schema.items, item, joinPath(path, index), errors));
+  }
+
+  // anyOf: report the branch that came closest so the message points at a real field
+  if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) {
+    let closest: McpFieldError[] | null = null;
+    for (const branch of schema.anyOf) {
+      const branchErrors: McpFieldError[] = [];
+      validateNode(branch, value, path, branchErrors);
+      if (branchErrors.length === 0) {
+        closest = null;
+        break;
+      }
+      if (!closest || branchErrors.length < closest.length) {
+        closest = branchErrors;
+      }
+    }
+    if (closest) {
+      errors.push(...closest);
+    }
+  }
+}
+
+/**
+ * Validate tool arguments against an inputSchema
+ * Supports the subset of JSON Schema our servers use: type, properties, required,
+ * enum, items, anyOf, minimum/maximum and the date/date-time formats.
+ */
+export function validateToolArguments(schema: any, args: Record<string, any>): McpFieldError[] {
+  const errors: McpFieldError[] = [];
+  validateNode(schema, args, '', errors);
+  return errors;
+}
@@ -0,0 +1,124 @@
+// MCP Tool Result Decoder
+// Turns a tools/call result into text, JSON, images and embedded resources - or an McpToolError for isError results
+
+export interface McpImageContent {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface McpEmbeddedResource {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // base64
+}
+
+export interface McpToolResult<T = unknown> {
+  // All text content, joined with newlines
+  text: string;
+  // structuredContent if the server sent it, otherwise the text parsed as JSON (undefined if it isn't JSON)
+  data: T | undefined;
+  images: McpImageContent[];
+  // Embedded resources and resource links
+  resources: McpEmbeddedResource[];
+}
+
+/**
+ * A tool ran but reported failure (isError: true), or returned something other than what the caller expected
+ */
+export class McpToolError extends Error {
+  toolName: string;
+  // Parsed error payload, e.g. { error, code } from the calendar server
+  details?: unknown;
+
+  constructor(toolName: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'McpToolError';
+    this.toolName = toolName;
+    this.details = details;
+  }
+}
+
+function parseJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Best human-readable message from an error result: { error } / { message } JSON or the plain text
+ */
+function errorMessage(text: string, details: unknown): string {
+  if (details && typeof details === 'object') {
+    const { error, message } = details as { error?: unknown; message?: unknown };
+    if (typeof error === 'string') return error;
+    if (typeof message === 'string') return message;
+  }
+  return text.trim() || 'The tool reported an error';
+}
+
+/**
+ * Decode a tools/call result. Throws McpToolError when the server flagged the result with isError.
+ */
+export function decodeToolResult<T = unknown>(toolName: string, result: any): McpToolResult<T> {
+  const content: any[] = Array.isArray(result) ? result : Array.isArray(result?.content) ? result.content : [];
+
+  const texts: string[] = [];
+  const images: McpImageContent[] = [];
+  const resources: McpEmbeddedResource[] = [];
+
+  content.forEach((item) => {
+    switch (item?.type) {
+      case 'text':
+        if (typeof item.text === 'string') texts.push(item.text);
+        break;
+      case 'image':
+        images.push({ data: item.data, mimeType: item.mimeType });
+        break;
+      case 'resource':
+        if (item.resource?.uri) {
+          resources.push({
+            uri: item.resource.uri,
+            mimeType: item.resource.mimeType,
+            text: item.resource.text,
+            blob: item.resource.blob,
+          });
+        }
+        break;
+      case 'resource_link':
+        resources.push({ uri: item.uri, mimeType: item.mimeType });
+        break;
+      default:
+        // Audio and unknown content types are not used by the app
+        break;
+    }
+  });
+
+  const text = texts.join('\n');
+  const data = (result?.structuredContent ?? (texts.length === 1 ? parseJson(text) : undefined)) as T | undefined;
+
+  if (result?.isError) {
+    const details = data ?? parseJson(text);
+    throw new McpToolError(toolName, errorMessage(text, details), details);
+  }
+
+  return { text, data, images, resources };
+}
+
+/**
+ * The JSON payload of a decoded result, for tools that always return JSON
+ */
+export function expectJson<T>(toolName: string, result: McpToolResult): T {
+  if (result.data === undefined) {
+    throw new McpToolError(
+      toolName,
+      `${toolName} returned ${result.text ? 'a non-JSON response' : 'an empty response'}`,
+      result.text.substring(0, 200) || undefined
+    );
+  }
+  return result.data as T;
+}
@@ -0,0 +1,427 @@
+// Mock MCP Fixtures
+// Seedable calendar and Canvas data for the demo-mode mock servers, generated around the current week
+
+import { addDays, startOfWeek } from 'date-fns';
+import { getToday } from '@/utils/dateUtils';
+import { localTimeZone, toEventDate, type EventAttendee, type GoogleCalendarEvent, type GoogleCalendarListEntry } from '@/services/calendarTools';
+import { buildRRule, weekdayOf } from '@/utils/recurrence';
+
+export interface MockFixtureOptions {
+  // Same seed, same data (relative to weekStart)
+  seed?: number;
+  // Monday of the week to generate around; defaults to the current week
+  weekStart?: Date;
+}
+
+export interface CanvasCourse {
+  id: number;
+  name: string;
+  course_code: string;
+  enrollment_term_id: number;
+  // Final grade weights assignment groups by group_weight; otherwise by points
+  apply_assignment_group_weights: boolean;
+}
+
+export interface CanvasAssignmentGroup {
+  id: number;
+  name: string;
+  course_id: number;
+  // Percent of the final grade
+  group_weight: number;
+}
+
+export interface CanvasAssignment {
+  id: number;
+  name: string;
+  course_id: number;
+  assignment_group_id: number;
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  points_possible: number;
+  submission: { workflow_state: string; submitted_at: string | null; body: string | null } | null;
+}
+
+export interface CanvasQuiz {
+  id: number;
+  title: string;
+  course_id: number;
+  assignment_group_id: number;
+  // Canvas also lists a graded quiz as an assignment, with this id
+  assignment_id: number;
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  points_possible: number;
+  question_count: number;
+  allowed_attempts: number;
+}
+
+export interface CanvasAnnouncement {
+  id: number;
+  title: string;
+  course_id: number;
+  posted_at: string;
+  created_at: string;
+  message: string;
+}
+
+export interface CanvasCalendarEvent {
+  id: number;
+  title: string;
+  start_at: string;
+  end_at: string;
+  location_name: string | null;
+  context_code: string;
+  description: string | null;
+}
+
+export interface CanvasFixtures {
+  profile: { id: number; name: string; short_name: string; primary_email: string; time_zone: string };
+  courses: CanvasCourse[];
+  assignmentGroups: CanvasAssignmentGroup[];
+  assignments: CanvasAssignment[];
+  quizzes: CanvasQuiz[];
+  announcements: CanvasAnnouncement[];
+  calendarEvents: CanvasCalendarEvent[];
+}
+
+export const DEFAULT_FIXTURE_SEED = 42;
+
+/**
+ * Small deterministic PRNG (mulberry32) so a seed always produces the same fixtures
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function at(day: Date, hours: number, minutes = 0): Date {
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+function resolveWeekStart(options: MockFixtureOptions): Date {
+  return startOfWeek(options.weekStart || getToday(), { weekStartsOn: 1 });
+}
+
+// Day offsets from Monday: Mon/Wed and Tue/Thu class sections
+const CLASS_SCHEDULE = [
+  { title: 'Corporate Finance Class', days: [0, 2], hour: 8, minutes: 30, location: 'Hamilton 201' },
+  { title: 'Marketing Analytics Class', days: [0, 2], hour: 13, minutes: 0, location: 'Aldrich 110' },
+  { title: 'Business Strategy Class', days: [1, 3], hour: 10, minutes: 0, location: 'Hamilton 104' },
+  { title: 'Operations Management Class', days: [1, 3], hour: 14, minutes: 30, location: 'Aldrich 008' },
+];
+
+// Class series run for the whole term
+const TERM_WEEKS = 12;
+
+const RECRUITING_EVENTS = [
+  'McKinsey Info Session',
+  'Bain Coffee Chat',
+  'Goldman Sachs Recruiting Dinner',
+  'Google PM Interview Prep',
+  'BCG Case Interview Practice',
+];
+
+// Calendars in the demo user's list: classes and clubs are kept apart from the personal calendar,
+// and Kaisey Plans starts empty as a place to put generated study blocks
+export const MOCK_CALENDARS: GoogleCalendarListEntry[] = [
+  { id: 'primary', summary: 'Demo Student', primary: true, backgroundColor: '#4285f4', foregroundColor: '#ffffff', accessRole: 'owner' },
+  { id: 'classes@group.calendar.google.com', summary: 'MBA Classes', backgroundColor: '#0b8043', foregroundColor: '#ffffff', accessRole: 'writer' },
+  { id: 'clubs@group.calendar.google.com', summary: 'Clubs', backgroundColor: '#f4511e', foregroundColor: '#ffffff', accessRole: 'writer' },
+  { id: 'kaisey-plans@group.calendar.google.com', summary: 'Kaisey Plans', backgroundColor: '#8e24aa', foregroundColor: '#ffffff', accessRole: 'owner' },
+];
+
+const [, CLASSES_CALENDAR, CLUBS_CALENDAR] = MOCK_CALENDARS;
+
+// The signed-in user of the mock calendar
+export const DEMO_USER = { email: 'demo.student@example.edu', displayName: 'Demo Student' };
+
+// Operations project team, also the Finance study group
+const CLASSMATES = [
+  { email: 'priya.raman@example.edu', displayName: 'Priya Raman' },
+  { email: 'marcus.lee@example.edu', displayName: 'Marcus Lee' },
+  { email: 'elena.garcia@example.edu', displayName: 'Elena Garcia' },
+];
+
+const NETWORKING_EVENTS = ['Coffee with alumni mentor', 'Tech Club Networking Mixer', 'Chat with second-year about internships'];
+
+/**
+ * Two weeks of Google Calendar events (this week and next) for the mock calendar server, by calendar id
+ * Classes and club meetings are weekly recurring series, like a real course calendar; everything else is one-off.
+ */
+export function createCalendarFixtures(options: MockFixtureOptions = {}): Record<string, GoogleCalendarEvent[]> {
+  const random = createRandom(options.seed ?? DEFAULT_FIXTURE_SEED);
+  const weekStart = resolveWeekStart(options);
+  const events: Array<{ calendarId: string; event: GoogleCalendarEvent }> = [];
+
+  const timeZone = localTimeZone();
+  const nextId = () => `mock${(events.length + 1).toString().padStart(4, '0')}${Math.floor(random() * 1e6).toString(36)}`;
+  const add = (
+    summary: string,
+    start: Date,
+    durationMinutes: number,
+    extra: Partial<GoogleCalendarEvent> = {},
+    calendarId = 'primary'
+  ) => {
+    const id = nextId();
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    events.push({
+      calendarId,
+      event: {
+        id,
+        summary,
+        start: { dateTime: start.toISOString(), timeZone },
+        end: { dateTime: end.toISOString(), timeZone },
+        htmlLink: `https://calendar.google.com/calendar/event?eid=${id}`,
+        status: 'confirmed',
+        ...extra,
+      },
+    });
+  };
+
+  // All-day events span whole days (end date exclusive) and are free unless marked busy, as Google creates them
+  const addAllDay = (
+    summary: string,
+    firstDay: Date,
+    days: number,
+    extra: Partial<GoogleCalendarEvent> = {},
+    calendarId = 'primary'
+  ) => {
+    const id = nextId();
+    events.push({
+      calendarId,
+      event: {
+        id,
+        summary,
+        start: toEventDate(firstDay),
+        end: toEventDate(addDays(firstDay, days)),
+        transparency: 'transparent',
+        htmlLink: `https://calendar.google.com/calendar/event?eid=${id}`,
+        status: 'confirmed',
+        ...extra,
+      },
+    });
+  };
+
+  CLASS_SCHEDULE.forEach((course) => {
+    const firstClass = at(addDays(weekStart, course.days[0]), course.hour, course.minutes);
+    add(course.title, firstClass, 80, {
+      location: course.location,
+      recurrence: [
+        buildRRule({
+          freq: 'WEEKLY',
+          byDay: course.days.map((dayOffset) => weekdayOf(addDays(weekStart, dayOffset))),
+          count: course.days.length * TERM_WEEKS,
+        }),
+      ],
+    }, CLASSES_CALENDAR.id);
+  });
+
+  add('Consulting Club Meeting', at(weekStart, 18, 0), 60, {
+    location: 'Student Center 2nd floor',
+    recurrence: [buildRRule({ freq: 'WEEKLY', byDay: [weekdayOf(weekStart)], count: TERM_WEEKS })],
+  }, CLUBS_CALENDAR.id);
+
+  addAllDay('Midterm exam week', addDays(weekStart, 7), 5, {}, CLASSES_CALENDAR.id);
+  // Away on the trek, so it blocks time
+  addAllDay('Career Trek - New York', addDays(weekStart, 4), 3, {
+    location: 'New York, NY',
+    transparency: 'opaque',
+  }, CLUBS_CALENDAR.id);
+
+  const self: EventAttendee = { ...DEMO_USER, self: true };
+  const [priya, marcus, elena] = CLASSMATES;
+
+  for (let week = 0; week < 2; week++) {
+    const monday = addDays(weekStart, week * 7);
+    // Marcus runs the study group; next week's invitation hasn't been answered yet
+    const studyGroupGuests: EventAttendee[] = [
+      { ...marcus, organizer: true, responseStatus: 'accepted' },
+      { ...self, responseStatus: week === 0 ? 'accepted' : 'needsAction' },
+      { ...priya, responseStatus: 'accepted' },
+      { ...elena, responseStatus: week === 0 ? 'tentative' : 'needsAction' },
+    ];
+    // The user organizes the project meeting; one teammate can't make it this week
+    const teamMeetingGuests: EventAttendee[] = [
+      { ...self, organizer: true, responseStatus: 'accepted' },
+      { ...priya, responseStatus: 'accepted' },
+      { ...marcus, responseStatus: week === 0 ? 'declined' : 'accepted' },
+      { ...elena, responseStatus: week === 0 ? 'accepted' : 'needsAction' },
+    ];
+
+    // Morning workouts on three random weekdays
+    [0, 1, 2, 3, 4]
+      .filter(() => random() < 0.6)
+      .slice(0, 3)
+      .forEach((dayOffset) => add('Gym', at(addDays(monday, dayOffset), 6, 30 + (random() < 0.5 ? 0 : 30)), 60));
+
+    add('Study group - Finance', at(addDays(monday, 1), 19, 0), 90, {
+      location: 'Library room 3B',
+      organizer: { email: marcus.email, displayName: marcus.displayName },
+      attendees: studyGroupGuests,
+    });
+    add(pick(random, RECRUITING_EVENTS), at(addDays(monday, 2 + Math.floor(random() * 2)), 17, 30), 60 + (random() < 0.5 ? 30 : 0));
+    add(pick(random, NETWORKING_EVENTS), at(addDays(monday, Math.floor(random() * 5)), 12, 0), 45);
+    add('Team meeting - Operations project', at(addDays(monday, 4), 11, 0), 60, {
+      organizer: { ...DEMO_USER, self: true },
+      attendees: teamMeetingGuests,
+    });
+  }
+
+  const byCalendar: Record<string, GoogleCalendarEvent[]> = Object.fromEntries(MOCK_CALENDARS.map((calendar) => [calendar.id, []]));
+  events
+    .sort((a, b) => (a.event.start.dateTime || a.event.start.date || '').localeCompare(b.event.start.dateTime || b.event.start.date || ''))
+    .forEach(({ calendarId, event }) => byCalendar[calendarId].push(event));
+  return byCalendar;
+}
+
+const CANVAS_COURSES: Array<Omit<CanvasCourse, 'enrollment_term_id'>> = [
+  { id: 10101, name: 'Corporate Finance', course_code: 'FIN-601', apply_assignment_group_weights: true },
+  { id: 10102, name: 'Business Strategy', course_code: 'STR-610', apply_assignment_group_weights: true },
+  { id: 10103, name: 'Marketing Analytics', course_code: 'MKT-620', apply_assignment_group_weights: true },
+  // Graded by points, so small assignments count for little
+  { id: 10104, name: 'Business Ethics', course_code: 'ETH-605', apply_assignment_group_weights: false },
+  { id: 10105, name: 'Operations Management', course_code: 'OPS-630', apply_assignment_group_weights: true },
+];
+
+// Per course; participation and the final exam have no items yet, as early in a term
+const ASSIGNMENT_GROUPS: Array<{ name: string; group_weight: number }> = [
+  { name: 'Assignments', group_weight: 50 },
+  { name: 'Quizzes', group_weight: 10 },
+  { name: 'Participation', group_weight: 15 },
+  { name: 'Final Exam', group_weight: 25 },
+];
+
+const ASSIGNMENT_NAMES: Record<number, string[]> = {
+  10101: ['Valuation Case Study', 'DCF Problem Set', 'Capital Structure Memo'],
+  10102: ['Industry Analysis Paper', 'Five Forces Write-up'],
+  10103: ['Marketing Mix Analysis', 'Customer Segmentation Project'],
+  10104: ['Ethics Discussion Post', 'Stakeholder Reflection'],
+  10105: ['Operations Group Project', 'Process Flow Problem Set'],
+};
+
+/**
+ * Canvas courses, assignments, quizzes, announcements and calendar events for the mock Canvas server
+ */
+export function createCanvasFixtures(options: MockFixtureOptions = {}): CanvasFixtures {
+  const random = createRandom((options.seed ?? DEFAULT_FIXTURE_SEED) + 1);
+  const weekStart = resolveWeekStart(options);
+  let nextId = 50000;
+
+  const courses: CanvasCourse[] = CANVAS_COURSES.map((course) => ({ ...course, enrollment_term_id: 1 }));
+  const assignmentGroups: CanvasAssignmentGroup[] = [];
+  const assignments: CanvasAssignment[] = [];
+  const quizzes: CanvasQuiz[] = [];
+  const announcements: CanvasAnnouncement[] = [];
+  const calendarEvents: CanvasCalendarEvent[] = [];
+
+  courses.forEach((course) => {
+    const [assignmentGroup, quizGroup] = ASSIGNMENT_GROUPS.map((group) => {
+      const created = { id: nextId++, course_id: course.id, ...group };
+      assignmentGroups.push(created);
+      return created;
+    });
+
+    (ASSIGNMENT_NAMES[course.id] || []).forEach((name) => {
+      // Due 23:59 somewhere between last week and two weeks out
+      const dueAt = at(addDays(weekStart, Math.floor(random() * 21) - 7), 23, 59);
+      const submitted = dueAt < getToday() && random() < 0.8;
+      assignments.push({
+        id: nextId++,
+        name,
+        course_id: course.id,
+        assignment_group_id: assignmentGroup.id,
+        due_at: dueAt.toISOString(),
+        unlock_at: addDays(dueAt, -14).toISOString(),
+        lock_at: null,
+        points_possible: pick(random, [10, 20, 50, 100]),
+        submission: {
+          workflow_state: submitted ? 'submitted' : 'unsubmitted',
+          submitted_at: submitted ? addDays(dueAt, -1).toISOString() : null,
+          body: null,
+        },
+      });
+    });
+
+    if (random() < 0.6) {
+      const dueAt = at(addDays(weekStart, Math.floor(random() * 10)), 9, 0);
+      const title = `${course.name.split(' ')[0]} Concepts Quiz`;
+      // Like Canvas, the graded quiz is an assignment too
+      const quizAssignment: CanvasAssignment = {
+        id: nextId++,
+        name: title,
+        course_id: course.id,
+        assignment_group_id: quizGroup.id,
+        due_at: dueAt.toISOString(),
+        unlock_at: addDays(dueAt, -3).toISOString(),
+        lock_at: addDays(dueAt, 1).toISOString(),
+        points_possible: 20,
+        submission: { workflow_state: 'unsubmitted', submitted_at: null, body: null },
+      };
+      assignments.push(quizAssignment);
+      quizzes.push({
+        id: nextId++,
+        title,
+        course_id: course.id,
+        assignment_group_id: quizGroup.id,
+        assignment_id: quizAssignment.id,
+        due_at: quizAssignment.due_at,
+        unlock_at: quizAssignment.unlock_at,
+        lock_at: quizAssignment.lock_at,
+        points_possible: quizAssignment.points_possible,
+        question_count: 10 + Math.floor(random() * 10),
+        allowed_attempts: 1,
+      });
+    }
+
+    const postedAt = at(addDays(weekStart, -Math.floor(random() * 5)), 9, 0).toISOString();
+    announcements.push({
+      id: nextId++,
+      title: `${course.course_code}: Reminder for this week`,
+      course_id: course.id,
+      posted_at: postedAt,
+      created_at: postedAt,
+      message: `<p>Please complete the readings before our next session of ${course.name}.</p>`,
+    });
+  });
+
+  const reviewDay = addDays(weekStart, 4);
+  calendarEvents.push({
+    id: nextId++,
+    title: 'Corporate Finance Midterm Review',
+    start_at: at(reviewDay, 16, 0).toISOString(),
+    end_at: at(reviewDay, 17, 30).toISOString(),
+    location_name: 'Hamilton 201',
+    context_code: 'course_10101',
+    description: 'Optional review session before the midterm',
+  });
+
+  return {
+    profile: {
+      id: 9001,
+      name: 'Demo Student',
+      short_name: 'Demo',
+      primary_email: 'demo.student@example.edu',
+      time_zone: 'America/New_York',
+    },
+    courses,
+    assignmentGroups,
+    assignments,
+    quizzes,
+    announcements,
+    calendarEvents,
+  };
+}
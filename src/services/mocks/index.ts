@@ -0,0 +1,56 @@
+// Mock MCP Servers
+// In-memory servers for demo mode, reached through mock://<name> URLs instead of HTTP
+
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { createCanvasFixtures, CanvasFixtures, MockFixtureOptions } from './fixtures';
+import { createMockCalendarServer, MockCalendarStore } from './mockCalendarServer';
+import { createMockCanvasServer } from './mockCanvasServer';
+
+export const MOCK_URL_PREFIX = 'mock://';
+
+// Data lives for the page's lifetime and is shared by every session, like a real account
+let calendarStore: MockCalendarStore | null = null;
+let canvasFixtures: CanvasFixtures | null = null;
+
+const MOCK_SERVERS: Record<string, () => Server> = {
+  'google-calendar': () => {
+    if (!calendarStore) calendarStore = new MockCalendarStore();
+    return createMockCalendarServer(calendarStore);
+  },
+  canvas: () => {
+    if (!canvasFixtures) canvasFixtures = createCanvasFixtures();
+    return createMockCanvasServer(canvasFixtures);
+  },
+};
+
+export function isMockServerUrl(url: string): boolean {
+  return url.startsWith(MOCK_URL_PREFIX);
+}
+
+/**
+ * Start a fresh mock server session and return the client side of its in-memory transport
+ */
+export async function connectMockServer(url: string): Promise<Transport> {
+  const name = url.slice(MOCK_URL_PREFIX.length);
+  const createServer = MOCK_SERVERS[name];
+  if (!createServer) {
+    throw new Error(`No mock MCP server named "${name}". Available: ${Object.keys(MOCK_SERVERS).join(', ')}`);
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  return clientTransport;
+}
+
+/**
+ * Regenerate all mock data, e.g. with a different seed
+ */
+export function resetMockData(options: MockFixtureOptions = {}): void {
+  if (calendarStore) {
+    calendarStore.reset(options);
+  } else {
+    calendarStore = new MockCalendarStore(options);
+  }
+  canvasFixtures = createCanvasFixtures(options);
+}
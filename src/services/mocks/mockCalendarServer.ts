@@ -0,0 +1,905 @@
+// Mock Google Calendar MCP Server
+// In-memory stand-in for server/mcp-calendar-server.js with the same tools, backed by fixture data
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { format, parseISO } from 'date-fns';
+import {
+  AttendeeResponseStatus,
+  CalendarChange,
+  calendarEventsUri,
+  CalendarPlanResult,
+  CalendarPlanStep,
+  ConflictReport,
+  EventAttendee,
+  EventDateTime,
+  EventExtendedProperties,
+  GoogleCalendarEvent,
+  RecurringEditScope,
+  SyncEventsArgs,
+  SyncEventsResult,
+} from '@/services/calendarTools';
+import { buildRRule, expandRecurrence, parseRRule, RecurrenceRule } from '@/utils/recurrence';
+import { parseKaiseyMetadata } from '@/utils/kaiseyMetadata';
+import { dateKeyInZone, zonedParts } from '@/utils/timeZone';
+import { createCalendarFixtures, DEMO_USER, MOCK_CALENDARS, MockFixtureOptions } from './fixtures';
+
+// Same shapes as the real server's tools/list so argument validation behaves identically
+const eventDateTimeSchema = {
+  type: 'object',
+  properties: {
+    dateTime: { type: 'string', format: 'date-time', description: 'Start/end time (ISO 8601)' },
+    date: { type: 'string', format: 'date', description: 'All-day date (YYYY-MM-DD)' },
+    timeZone: { type: 'string', description: 'IANA time zone, e.g. America/New_York' },
+  },
+  anyOf: [{ required: ['dateTime'] }, { required: ['date'] }],
+};
+
+const calendarIdSchema = { type: 'string', description: 'Calendar ID (default: primary)', default: 'primary' };
+
+const recurrenceSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'RRULE/EXDATE/RDATE lines, e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR"]. Recurring events need a timeZone on start/end.',
+};
+
+const attendeesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', description: 'Guest email address' },
+      displayName: { type: 'string' },
+      optional: { type: 'boolean', description: 'Optional guest', default: false },
+    },
+    required: ['email'],
+  },
+  description: 'Guests to invite. On update this replaces the guest list; guests already on the event keep their responses.',
+};
+
+const transparencySchema = {
+  type: 'string',
+  enum: ['opaque', 'transparent'],
+  description: 'Whether the event blocks time: opaque (busy, the default) or transparent (free)',
+};
+
+const privatePropertiesSchema = {
+  type: 'object',
+  additionalProperties: { type: ['string', 'null'] },
+  description: 'Private key/value metadata only this app sees. On update, keys are merged into the existing ones; null removes a key.',
+};
+
+const dryRunSchema = {
+  type: 'boolean',
+  description: 'Write nothing; return the busy events across all calendars this would overlap (with their Kaisey tier) and free alternatives',
+  default: false,
+};
+
+const checkConflictsSchema = {
+  type: 'boolean',
+  description: 'Only write if nothing busy overlaps; otherwise return the conflicts and alternatives instead (written: false)',
+  default: false,
+};
+
+const sendUpdatesSchema = {
+  type: 'string',
+  enum: ['all', 'externalOnly', 'none'],
+  description: 'Who Google emails about the change: every guest, only guests outside your domain, or nobody (default)',
+  default: 'none',
+};
+
+const recurringScopeSchema = {
+  type: 'string',
+  enum: ['instance', 'following', 'series'],
+  description: 'For an instance of a recurring event: just this one (default), this and all following, or the whole series',
+  default: 'instance',
+};
+
+// Conflict alternatives: 30-minute steps up to 12 hours either side of the requested start, 7am-10pm
+const SLOT_STEP_MS = 30 * 60 * 1000;
+const ALTERNATIVES_WINDOW_MS = 12 * 60 * 60 * 1000;
+const DAY_START_MINUTES = 7 * 60;
+const DAY_END_MINUTES = 22 * 60;
+const MAX_ALTERNATIVES = 3;
+
+// Sync tokens kept before the oldest expire (clients then get fullSyncRequired, like a 410 from Google)
+const MAX_SYNC_SNAPSHOTS = 50;
+
+interface SyncSnapshot {
+  calendarId: string;
+  timeMin?: string;
+  timeMax?: string;
+  singleEvents: boolean;
+  // What the client holds after this sync: event id -> serialized event
+  events: Map<string, string>;
+}
+
+const TOOLS = [
+  {
+    name: 'list_calendars',
+    description: 'List all calendars available to the user',
+    inputSchema: { type: 'object' as const, properties: {} },
+  },
+  {
+    name: 'list_events',
+    description: 'List events from a calendar',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: calendarIdSchema,
+        timeMin: { type: 'string', format: 'date-time', description: 'Start time (ISO 8601)' },
+        timeMax: { type: 'string', format: 'date-time', description: 'End time (ISO 8601)' },
+        maxResults: { type: 'number', description: 'Maximum number of events', minimum: 1, maximum: 2500, default: 250 },
+        singleEvents: {
+          type: 'boolean',
+          description: 'Expand recurring events into instances (each with recurringEventId). When false, series are returned once with their recurrence rules.',
+          default: true,
+        },
+        privateExtendedProperty: {
+          type: 'string',
+          description: 'Only events with this private property, as "key=value". Without timeMin, searches all time instead of from now.',
+        },
+        returnSyncToken: {
+          type: 'boolean',
+          description: 'Full sync: return every matching event (all pages) as { items, nextSyncToken } for later incremental syncs',
+          default: false,
+        },
+        syncToken: {
+          type: 'string',
+          description: 'Incremental sync: return only events changed since this token as { items, nextSyncToken }; deleted events have status "cancelled". timeMin/timeMax are ignored. If the token has expired, fullSyncRequired is true.',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_event',
+    description: 'Get a specific event by ID',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { calendarId: calendarIdSchema, eventId: { type: 'string', description: 'Event ID' } },
+      required: ['eventId'],
+    },
+  },
+  {
+    name: 'create_event',
+    description: 'Create a new calendar event, optionally recurring',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: calendarIdSchema,
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        start: eventDateTimeSchema,
+        end: eventDateTimeSchema,
+        location: { type: 'string' },
+        recurrence: recurrenceSchema,
+        attendees: attendeesSchema,
+        transparency: transparencySchema,
+        privateProperties: privatePropertiesSchema,
+        dryRun: dryRunSchema,
+        checkConflicts: checkConflictsSchema,
+        sendUpdates: {
+          ...sendUpdatesSchema,
+          description: 'Who Google emails invitations to: every guest, only guests outside your domain, or nobody (default)',
+        },
+      },
+      required: ['summary', 'start', 'end'],
+    },
+  },
+  {
+    name: 'update_event',
+    description: 'Update an existing calendar event. For a recurring event instance, scope picks which occurrences change.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: calendarIdSchema,
+        eventId: { type: 'string', description: 'Event ID to update' },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        start: eventDateTimeSchema,
+        end: eventDateTimeSchema,
+        location: { type: 'string' },
+        recurrence: { ...recurrenceSchema, description: 'New recurrence rules (series and following scopes only)' },
+        attendees: attendeesSchema,
+        transparency: transparencySchema,
+        privateProperties: privatePropertiesSchema,
+        dryRun: dryRunSchema,
+        checkConflicts: checkConflictsSchema,
+        sendUpdates: sendUpdatesSchema,
+        scope: recurringScopeSchema,
+      },
+      required: ['eventId'],
+    },
+  },
+  {
+    name: 'respond_to_event',
+    description: 'Accept, decline or tentatively accept an event you were invited to. For a recurring event instance, only that occurrence is answered; pass the series id to answer all of them.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: calendarIdSchema,
+        eventId: { type: 'string', description: 'Event ID to respond to' },
+        responseStatus: { type: 'string', enum: ['accepted', 'declined', 'tentative'] },
+        comment: { type: 'string', description: 'Optional note to the organizer' },
+        sendUpdates: {
+          ...sendUpdatesSchema,
+          description: 'Who Google emails about the response (default: all, i.e. the organizer is told)',
+          default: 'all',
+        },
+      },
+      required: ['eventId', 'responseStatus'],
+    },
+  },
+  {
+    name: 'freebusy',
+    description: "Busy intervals across the user's calendars (all calendars unless calendarIds is given)",
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        timeMin: { type: 'string', format: 'date-time', description: 'Start of the window (ISO 8601)' },
+        timeMax: { type: 'string', format: 'date-time', description: 'End of the window (ISO 8601)' },
+        calendarIds: { type: 'array', items: { type: 'string' }, description: "Calendars to check (default: every calendar in the user's list)" },
+        timeZone: { type: 'string', description: 'IANA time zone for the response (default: UTC)' },
+      },
+      required: ['timeMin', 'timeMax'],
+    },
+  },
+  {
+    name: 'delete_event',
+    description: 'Delete a calendar event. For a recurring event instance, scope picks which occurrences are removed.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        calendarId: calendarIdSchema,
+        eventId: { type: 'string', description: 'Event ID to delete' },
+        scope: recurringScopeSchema,
+        sendUpdates: {
+          ...sendUpdatesSchema,
+          description: 'Who Google emails a cancellation to: every guest, only guests outside your domain, or nobody (default)',
+        },
+      },
+      required: ['eventId'],
+    },
+  },
+  {
+    name: 'apply_changes',
+    description: 'Apply several event changes in order, all or nothing. If one fails, the changes already made are undone. Returns the outcome of each step.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        changes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: ['create', 'update', 'delete'] },
+              calendarId: calendarIdSchema,
+              eventId: { type: 'string', description: 'Event to update or delete' },
+              summary: { type: 'string' },
+              description: { type: 'string' },
+              start: eventDateTimeSchema,
+              end: eventDateTimeSchema,
+              location: { type: 'string' },
+              attendees: attendeesSchema,
+              transparency: transparencySchema,
+              privateProperties: privatePropertiesSchema,
+              sendUpdates: sendUpdatesSchema,
+            },
+            required: ['op'],
+          },
+          minItems: 1,
+          description: 'Creates, updates and deletes, applied in this order',
+        },
+      },
+      required: ['changes'],
+    },
+  },
+];
+
+// All-day dates are local days, like Google resolves them in the calendar's zone
+function eventTime(value: { dateTime?: string; date?: string }): number {
+  if (!value.dateTime && value.date) return parseISO(value.date).getTime();
+  return new Date(value.dateTime || 0).getTime();
+}
+
+// Google's instance id format: <series id>_<original start in UTC, basic ISO>
+function instanceId(seriesId: string, start: Date): string {
+  return `${seriesId}_${start.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`;
+}
+
+function toSameKind(template: EventDateTime, date: Date): EventDateTime {
+  return template.date
+    ? { date: format(date, 'yyyy-MM-dd') }
+    : { dateTime: date.toISOString(), ...(template.timeZone && { timeZone: template.timeZone }) };
+}
+
+function shiftDateTime(value: EventDateTime, deltaMs: number): EventDateTime {
+  return toSameKind(value, new Date(eventTime(value) + deltaMs));
+}
+
+// Rewrite the RRULE line of a recurrence, keeping EXDATE/RDATE lines
+function rewriteRule(recurrence: string[], rewrite: (rule: RecurrenceRule) => RecurrenceRule): string[] {
+  return recurrence.map((line) => {
+    const rule = /^RRULE:/i.test(line) ? parseRRule(line) : null;
+    return rule ? buildRRule(rewrite(rule)) : line;
+  });
+}
+
+// A replacement guest list, keeping what's known about guests who were already invited
+function mergeAttendees(existing: EventAttendee[] = [], requested: EventAttendee[]): EventAttendee[] {
+  const byEmail = new Map(existing.map((attendee) => [attendee.email.toLowerCase(), attendee]));
+  return requested.map((attendee) => ({
+    responseStatus: 'needsAction' as const,
+    ...byEmail.get(attendee.email.toLowerCase()),
+    ...attendee,
+  }));
+}
+
+// Extended properties with private keys added or replaced, and keys set to null removed
+function mergePrivateProperties(
+  extendedProperties: EventExtendedProperties | undefined,
+  requested: Record<string, string | null> = {}
+): EventExtendedProperties {
+  const merged = { ...extendedProperties?.private, ...requested };
+  return {
+    ...extendedProperties,
+    private: Object.fromEntries(Object.entries(merged).filter((entry): entry is [string, string] => entry[1] !== null)),
+  };
+}
+
+// Free slots as long as the proposal on the same day, nearest to the requested start first
+function suggestAlternatives(busy: Array<[number, number]>, startMs: number, endMs: number, timeZone: string) {
+  const durationMs = endMs - startMs;
+  const day = dateKeyInZone(new Date(startMs), timeZone);
+  const minutesOfDay = (ms: number) => {
+    const { hour, minute } = zonedParts(new Date(ms), timeZone);
+    return hour * 60 + minute;
+  };
+  const alternatives: Array<{ start: string; end: string }> = [];
+
+  for (let offsetMs = SLOT_STEP_MS; offsetMs <= ALTERNATIVES_WINDOW_MS; offsetMs += SLOT_STEP_MS) {
+    for (const candidateStart of [startMs + offsetMs, startMs - offsetMs]) {
+      const candidateEnd = candidateStart + durationMs;
+      if (candidateStart < Date.now()) continue;
+      if (dateKeyInZone(new Date(candidateStart), timeZone) !== day || minutesOfDay(candidateStart) < DAY_START_MINUTES) continue;
+      if (dateKeyInZone(new Date(candidateEnd), timeZone) !== day || minutesOfDay(candidateEnd) > DAY_END_MINUTES) continue;
+      if (busy.some(([busyStart, busyEnd]) => candidateStart < busyEnd && candidateEnd > busyStart)) continue;
+      alternatives.push({ start: new Date(candidateStart).toISOString(), end: new Date(candidateEnd).toISOString() });
+      if (alternatives.length === MAX_ALTERNATIVES) return alternatives;
+    }
+  }
+  return alternatives;
+}
+
+/**
+ * Event storage shared by every mock calendar session, so changes survive reconnects
+ * Recurring series are stored once and expanded on read; edited or cancelled instances are stored
+ * under their instance ids, like Google's exceptions.
+ */
+export class MockCalendarStore {
+  // Calendar id -> event id -> event
+  private calendars: Map<string, Map<string, GoogleCalendarEvent>> = new Map();
+  private listeners: Set<(calendarId: string) => void> = new Set();
+  private nextId = 1;
+  private syncSnapshots: Map<string, SyncSnapshot> = new Map();
+  private nextSyncTokenId = 1;
+
+  constructor(options: MockFixtureOptions = {}) {
+    this.reset(options);
+  }
+
+  /**
+   * Replace all events with freshly generated fixtures
+   */
+  reset(options: MockFixtureOptions = {}): void {
+    const fixtures = createCalendarFixtures(options);
+    this.calendars = new Map(
+      MOCK_CALENDARS.map((calendar) => [calendar.id, new Map((fixtures[calendar.id] || []).map((event) => [event.id, event]))])
+    );
+    // Regenerated data can't be expressed as a delta
+    this.syncSnapshots.clear();
+    MOCK_CALENDARS.forEach((calendar) => this.notify(calendar.id));
+  }
+
+  listCalendars() {
+    return MOCK_CALENDARS;
+  }
+
+  /**
+   * Listen for event changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (calendarId: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(calendarId: string): void {
+    this.listeners.forEach((listener) => listener(calendarId));
+  }
+
+  private eventsOf(calendarId: string): Map<string, GoogleCalendarEvent> {
+    const events = this.calendars.get(calendarId);
+    if (!events) {
+      throw new Error(`Calendar not found: ${calendarId}`);
+    }
+    return events;
+  }
+
+  private makeInstance(series: GoogleCalendarEvent, start: Date): GoogleCalendarEvent {
+    const { recurrence, ...fields } = series;
+    const durationMs = eventTime(series.end) - eventTime(series.start);
+    return {
+      ...fields,
+      id: instanceId(series.id, start),
+      recurringEventId: series.id,
+      originalStartTime: toSameKind(series.start, start),
+      start: toSameKind(series.start, start),
+      end: toSameKind(series.end, new Date(start.getTime() + durationMs)),
+    };
+  }
+
+  private occurrences(series: GoogleCalendarEvent, min: number, max: number): Date[] {
+    const durationMs = eventTime(series.end) - eventTime(series.start);
+    return expandRecurrence(new Date(eventTime(series.start)), series.recurrence, new Date(min), new Date(max), durationMs);
+  }
+
+  list(calendarId: string, timeMin?: string, timeMax?: string, maxResults = 250, singleEvents = true, privateProperty?: string): GoogleCalendarEvent[] {
+    const events = this.eventsOf(calendarId);
+    const [propertyKey, ...propertyValue] = privateProperty?.split('=') || [];
+    const hasProperty = (event: GoogleCalendarEvent) =>
+      !privateProperty || event.extendedProperties?.private?.[propertyKey] === propertyValue.join('=');
+    if (privateProperty && !timeMin) {
+      // All time, like Google; series are returned once rather than expanded without an end
+      return Array.from(events.values())
+        .filter((event) => event.status !== 'cancelled' && hasProperty(event))
+        .slice(0, maxResults);
+    }
+    // Same defaults as the real server: from now on, overlapping the window
+    const min = new Date(timeMin || new Date().toISOString()).getTime();
+    // Far enough out for open-ended series
+    const max = timeMax ? new Date(timeMax).getTime() : min + 366 * 24 * 60 * 60 * 1000;
+    const overlaps = (event: GoogleCalendarEvent) => eventTime(event.end) > min && eventTime(event.start) < max;
+    const stored = Array.from(events.values()).filter((event) => event.status !== 'cancelled' && hasProperty(event));
+
+    if (!singleEvents) {
+      return stored
+        .filter((event) => (event.recurrence ? this.occurrences(event, min, max).length > 0 : overlaps(event)))
+        .slice(0, maxResults);
+    }
+
+    const instances = stored.flatMap((event) => {
+      if (!event.recurrence) return overlaps(event) ? [event] : [];
+      // Stored exceptions (edited or cancelled instances) replace the generated ones
+      return this.occurrences(event, min, max)
+        .filter((start) => !events.has(instanceId(event.id, start)))
+        .map((start) => this.makeInstance(event, start));
+    });
+    return instances.sort((a, b) => eventTime(a.start) - eventTime(b.start)).slice(0, maxResults);
+  }
+
+  /**
+   * Full sync of a window, or the changes since a previous sync within that same window
+   * Changes are found by diffing against what the token's sync returned.
+   */
+  sync(calendarId: string, args: SyncEventsArgs): SyncEventsResult {
+    let snapshot: SyncSnapshot;
+    if (args.syncToken) {
+      const previous = this.syncSnapshots.get(args.syncToken);
+      if (!previous || previous.calendarId !== calendarId) {
+        return { items: [], nextSyncToken: null, fullSyncRequired: true };
+      }
+      snapshot = { ...previous, events: new Map() };
+    } else {
+      snapshot = { calendarId, timeMin: args.timeMin, timeMax: args.timeMax, singleEvents: args.singleEvents !== false, events: new Map() };
+    }
+
+    const current = this.list(calendarId, snapshot.timeMin, snapshot.timeMax, Number.MAX_SAFE_INTEGER, snapshot.singleEvents);
+    current.forEach((event) => snapshot.events.set(event.id, JSON.stringify(event)));
+
+    let items = current;
+    if (args.syncToken) {
+      const previous = this.syncSnapshots.get(args.syncToken)!.events;
+      const removed = Array.from(previous.keys())
+        .filter((id) => !snapshot.events.has(id))
+        .map((id) => ({ id, status: 'cancelled' }) as GoogleCalendarEvent);
+      items = [...current.filter((event) => previous.get(event.id) !== snapshot.events.get(event.id)), ...removed];
+    }
+
+    const nextSyncToken = `mocksync${this.nextSyncTokenId++}`;
+    this.syncSnapshots.set(nextSyncToken, snapshot);
+    if (this.syncSnapshots.size > MAX_SYNC_SNAPSHOTS) {
+      this.syncSnapshots.delete(this.syncSnapshots.keys().next().value!);
+    }
+    return { items, nextSyncToken, fullSyncRequired: false };
+  }
+
+  get(calendarId: string, eventId: string): GoogleCalendarEvent {
+    const events = this.eventsOf(calendarId);
+    const event = events.get(eventId);
+    if (event && event.status !== 'cancelled') {
+      return event;
+    }
+    // An instance that hasn't been edited yet
+    const match = eventId.match(/^(.+)_(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    const series = match ? events.get(match[1]) : undefined;
+    if (!event && match && series?.recurrence && series.status !== 'cancelled') {
+      const [, , year, month, day, hours, minutes, seconds] = match;
+      const start = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`).getTime();
+      const occurrence = this.occurrences(series, start, start + 1).find((date) => date.getTime() === start);
+      if (occurrence) {
+        return this.makeInstance(series, occurrence);
+      }
+    }
+    throw new Error('Not Found');
+  }
+
+  create(calendarId: string, fields: Omit<GoogleCalendarEvent, 'id'>): GoogleCalendarEvent {
+    const events = this.eventsOf(calendarId);
+    const id = `mocknew${this.nextId++}${Date.now().toString(36)}`;
+    const event: GoogleCalendarEvent = {
+      ...fields,
+      id,
+      htmlLink: `https://calendar.google.com/calendar/event?eid=${id}`,
+      status: 'confirmed',
+      organizer: fields.organizer || { ...DEMO_USER, self: true },
+      ...(fields.extendedProperties && { extendedProperties: mergePrivateProperties(undefined, fields.extendedProperties.private) }),
+      // Like Google, the organizer is listed among the guests once there are any
+      ...(fields.attendees?.length && {
+        attendees: mergeAttendees(
+          [{ ...DEMO_USER, self: true, organizer: true, responseStatus: 'accepted' }],
+          [{ ...DEMO_USER }, ...fields.attendees.filter((attendee) => attendee.email.toLowerCase() !== DEMO_USER.email)]
+        ),
+      }),
+    };
+    events.set(id, event);
+    this.notify(calendarId);
+    return event;
+  }
+
+  update(
+    calendarId: string,
+    eventId: string,
+    fields: Partial<GoogleCalendarEvent>,
+    scope: RecurringEditScope = 'instance'
+  ): GoogleCalendarEvent {
+    const existing = this.get(calendarId, eventId);
+    const events = this.eventsOf(calendarId);
+    const { recurrence, ...updates } = fields;
+    if (updates.attendees) {
+      updates.attendees = mergeAttendees(existing.attendees, updates.attendees);
+    }
+    if (updates.extendedProperties) {
+      updates.extendedProperties = mergePrivateProperties(existing.extendedProperties, updates.extendedProperties.private);
+    }
+
+    if (!existing.recurringEventId || scope === 'instance') {
+      // Rules can only change on a series itself (or turn a single event into one)
+      const event = {
+        ...existing,
+        ...updates,
+        ...(!existing.recurringEventId && recurrence && { recurrence }),
+        id: eventId,
+      };
+      events.set(eventId, event);
+      this.notify(calendarId);
+      return event;
+    }
+
+    const series = this.get(calendarId, existing.recurringEventId);
+    const originalStart = eventTime(existing.originalStartTime || existing.start);
+
+    if (scope === 'series' || originalStart === eventTime(series.start)) {
+      // The series moves by as much as this occurrence does
+      const deltaMs = updates.start ? eventTime(updates.start) - eventTime(existing.start) : 0;
+      const durationMs = updates.end
+        ? eventTime(updates.end) - eventTime(updates.start || existing.start)
+        : eventTime(existing.end) - eventTime(existing.start);
+      const start = shiftDateTime(series.start, deltaMs);
+      const event = {
+        ...series,
+        ...updates,
+        start,
+        end: shiftDateTime(start, durationMs),
+        ...(recurrence && { recurrence }),
+      };
+      events.set(series.id, event);
+      this.notify(calendarId);
+      return event;
+    }
+
+    // This and following: end the series before this occurrence and start a new one from it
+    const before = expandRecurrence(new Date(eventTime(series.start)), series.recurrence, new Date(0), new Date(originalStart)).length;
+    events.set(series.id, {
+      ...series,
+      recurrence: rewriteRule(series.recurrence || [], ({ count, ...rule }) => ({ ...rule, until: new Date(originalStart - 1000) })),
+    });
+    const { id, htmlLink, status, ...seriesFields } = series;
+    return this.create(calendarId, {
+      ...seriesFields,
+      ...updates,
+      start: updates.start || existing.start,
+      end: updates.end || shiftDateTime(updates.start || existing.start, eventTime(existing.end) - eventTime(existing.start)),
+      recurrence: recurrence || rewriteRule(series.recurrence || [], (rule) => (rule.count ? { ...rule, count: Math.max(1, rule.count - before) } : rule)),
+    });
+  }
+
+  /**
+   * Set the demo user's own response to an invitation (one occurrence for recurring instances)
+   */
+  respond(calendarId: string, eventId: string, responseStatus: AttendeeResponseStatus, comment?: string): GoogleCalendarEvent {
+    const existing = this.get(calendarId, eventId);
+    if (!existing.attendees?.some((attendee) => attendee.self)) {
+      throw new Error('You are not a guest of this event');
+    }
+    const attendees = existing.attendees.map((attendee) =>
+      attendee.self ? { ...attendee, responseStatus, ...(comment !== undefined && { comment }) } : attendee
+    );
+    return this.update(calendarId, eventId, { attendees }, 'instance');
+  }
+
+  delete(calendarId: string, eventId: string, scope: RecurringEditScope = 'instance'): void {
+    const existing = this.get(calendarId, eventId);
+    const events = this.eventsOf(calendarId);
+
+    if (!existing.recurringEventId) {
+      events.delete(eventId);
+      // Drop the series' stored exceptions too
+      Array.from(events.values())
+        .filter((event) => event.recurringEventId === eventId)
+        .forEach((event) => events.delete(event.id));
+    } else if (scope === 'instance') {
+      events.set(eventId, { ...existing, status: 'cancelled' });
+    } else {
+      const series = this.get(calendarId, existing.recurringEventId);
+      const originalStart = eventTime(existing.originalStartTime || existing.start);
+      if (scope === 'series' || originalStart === eventTime(series.start)) {
+        this.delete(calendarId, series.id);
+        return;
+      }
+      events.set(series.id, {
+        ...series,
+        recurrence: rewriteRule(series.recurrence || [], ({ count, ...rule }) => ({ ...rule, until: new Date(originalStart - 1000) })),
+      });
+    }
+    this.notify(calendarId);
+  }
+
+  /**
+   * Busy events on any calendar that a create or update would overlap, plus free alternatives that day
+   */
+  conflictReport(args: Record<string, any>, existing?: GoogleCalendarEvent): ConflictReport {
+    const start: EventDateTime | undefined = args.start || existing?.start;
+    const end: EventDateTime | undefined = args.end || existing?.end;
+    if (!start || !end) {
+      throw new Error('A conflict check needs start and end times');
+    }
+    const startMs = eventTime(start);
+    const endMs = eventTime(end);
+    const timeMin = new Date(startMs - ALTERNATIVES_WINDOW_MS).toISOString();
+    const timeMax = new Date(endMs + ALTERNATIVES_WINDOW_MS).toISOString();
+    // Events marked free or declined don't block time, and an event doesn't conflict with itself when it's moved
+    const busy = MOCK_CALENDARS.flatMap((calendar) =>
+      this.list(calendar.id, timeMin, timeMax, Number.MAX_SAFE_INTEGER).map((event) => ({ calendarId: calendar.id, event }))
+    ).filter(({ event }) =>
+      event.transparency !== 'transparent' &&
+      event.id !== existing?.id &&
+      !event.attendees?.some((attendee) => attendee.self && attendee.responseStatus === 'declined')
+    );
+
+    const conflicts = busy
+      .filter(({ event }) => eventTime(event.start) < endMs && eventTime(event.end) > startMs)
+      .map(({ calendarId, event }) => {
+        const kaisey = parseKaiseyMetadata(event.extendedProperties);
+        return {
+          calendarId,
+          eventId: event.id,
+          summary: event.summary,
+          start: event.start,
+          end: event.end,
+          ...(kaisey?.tier && { tier: kaisey.tier }),
+          ...(kaisey && { locked: kaisey.locked }),
+        };
+      });
+    const busyTimes = busy.map(({ event }): [number, number] => [eventTime(event.start), eventTime(event.end)]);
+    return {
+      dryRun: Boolean(args.dryRun),
+      written: false,
+      conflicts,
+      alternatives: suggestAlternatives(busyTimes, startMs, endMs, start.timeZone || existing?.start.timeZone || 'UTC'),
+    };
+  }
+
+  /**
+   * Apply a plan's changes in order, all or nothing: if one fails, every calendar goes back to how it was
+   */
+  applyChanges(changes: CalendarChange[]): CalendarPlanResult {
+    const before = new Map(Array.from(this.calendars, ([calendarId, events]) => [calendarId, new Map(events)] as const));
+    const steps: CalendarPlanStep[] = changes.map((change, index) => ({ index, op: change.op, status: 'skipped' }));
+    let failedAt = -1;
+
+    for (const [index, change] of changes.entries()) {
+      const calendarId = change.calendarId || 'primary';
+      try {
+        if (change.op === 'create') {
+          if (!change.summary || !change.start || !change.end) {
+            throw new Error(`Change ${index + 1}: create needs summary, start and end`);
+          }
+          const created = this.create(calendarId, pickEventFields(change) as Omit<GoogleCalendarEvent, 'id'>);
+          Object.assign(steps[index], { eventId: created.id, event: created });
+        } else if (change.op === 'update') {
+          Object.assign(steps[index], { eventId: change.eventId, event: this.update(calendarId, change.eventId, pickEventFields(change)) });
+        } else {
+          this.delete(calendarId, change.eventId);
+          steps[index].eventId = change.eventId;
+        }
+        steps[index].status = 'applied';
+      } catch (error) {
+        Object.assign(steps[index], { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        failedAt = index;
+        break;
+      }
+    }
+
+    if (failedAt < 0) {
+      return { status: 'applied', steps };
+    }
+    this.calendars = before;
+    steps.slice(0, failedAt).forEach((step) => {
+      step.status = 'rolledBack';
+      delete step.event;
+    });
+    new Set(changes.map((change) => change.calendarId || 'primary')).forEach((calendarId) => this.notify(calendarId));
+    return { status: 'rolledBack', steps };
+  }
+}
+
+function jsonResult(value: unknown) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify(value, null, 2) }] };
+}
+
+// Only fields the real server copies from the arguments
+function pickEventFields(args: Record<string, any>): Partial<GoogleCalendarEvent> {
+  const keys: Array<keyof GoogleCalendarEvent> = ['summary', 'description', 'start', 'end', 'location', 'recurrence', 'attendees', 'transparency'];
+  const fields: Partial<GoogleCalendarEvent> = Object.fromEntries(
+    keys.filter((key) => args[key] !== undefined).map((key) => [key, args[key]])
+  );
+  // Merged into the event's own extended properties by create/update
+  if (args.privateProperties !== undefined) {
+    fields.extendedProperties = { private: args.privateProperties };
+  }
+  return fields;
+}
+
+/**
+ * One MCP server session over the shared store; connect it to an in-memory transport
+ */
+export function createMockCalendarServer(store: MockCalendarStore): Server {
+  const server = new Server(
+    { name: 'google-calendar-mcp-mock', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: { subscribe: true, listChanged: true } } }
+  );
+  const subscriptions = new Set<string>();
+
+  const unsubscribeStore = store.subscribe((calendarId) => {
+    const uri = calendarEventsUri(calendarId);
+    if (subscriptions.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+  });
+  server.onclose = unsubscribeStore;
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: calendarEventsUri('primary'),
+        name: 'Primary calendar events',
+        description: 'Events in the primary calendar for the next 7 days',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const now = new Date();
+    const weekAhead = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    const calendarId = request.params.uri.replace('calendar://events/', '');
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(store.list(calendarId, now.toISOString(), weekAhead.toISOString()), null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name } = request.params;
+    const args: Record<string, any> = request.params.arguments || {};
+    const calendarId = args.calendarId || 'primary';
+
+    // Failures are isError results, like the real server
+    try {
+      switch (name) {
+        case 'list_calendars':
+          return jsonResult(store.listCalendars());
+        case 'list_events':
+          if (args.syncToken || args.returnSyncToken) {
+            return jsonResult(store.sync(calendarId, args));
+          }
+          return jsonResult(store.list(calendarId, args.timeMin, args.timeMax, args.maxResults || 250, args.singleEvents !== false, args.privateExtendedProperty));
+        case 'get_event':
+          return jsonResult(store.get(calendarId, args.eventId));
+        case 'create_event': {
+          if (args.dryRun || args.checkConflicts) {
+            const report = store.conflictReport(args);
+            if (args.dryRun || report.conflicts.length > 0) return jsonResult(report);
+          }
+          return jsonResult(store.create(calendarId, pickEventFields(args) as Omit<GoogleCalendarEvent, 'id'>));
+        }
+        case 'update_event': {
+          if (args.dryRun || args.checkConflicts) {
+            const report = store.conflictReport(args, store.get(calendarId, args.eventId));
+            if (args.dryRun || report.conflicts.length > 0) return jsonResult(report);
+          }
+          return jsonResult(store.update(calendarId, args.eventId, pickEventFields(args), args.scope));
+        }
+        case 'respond_to_event':
+          return jsonResult(store.respond(calendarId, args.eventId, args.responseStatus, args.comment));
+        case 'freebusy': {
+          const calendarIds: string[] = args.calendarIds?.length ? args.calendarIds : store.listCalendars().map((calendar) => calendar.id);
+          const calendars = Object.fromEntries(
+            calendarIds.map((id) => [
+              id,
+              {
+                busy: store.list(id, args.timeMin, args.timeMax, 2500)
+                  .filter((event) => event.transparency !== 'transparent')
+                  .map((event) => ({
+                    start: new Date(eventTime(event.start)).toISOString(),
+                    end: new Date(eventTime(event.end)).toISOString(),
+                  })),
+              },
+            ])
+          );
+          return jsonResult({ timeMin: args.timeMin, timeMax: args.timeMax, calendars });
+        }
+        case 'apply_changes':
+          return jsonResult(store.applyChanges(args.changes));
+        case 'delete_event':
+          store.delete(calendarId, args.eventId, args.scope);
+          return jsonResult({ success: true, deletedEventId: args.eventId, scope: args.scope || 'instance' });
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return {
+        ...jsonResult({ error: error instanceof Error ? error.message : String(error) }),
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,260 @@
+// Mock Canvas LMS MCP Server
+// In-memory stand-in for Canvas_MCPTest/mcp-canvas-server.js with the same tools and result shapes
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { CanvasFixtures } from './fixtures';
+
+const includeSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Additional information to include',
+};
+
+const courseIdSchema = { type: 'string', description: 'Course ID' };
+
+const TOOLS = [
+  {
+    name: 'list_courses',
+    description: 'List all courses for the authenticated user',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        enrollment_type: {
+          type: 'string',
+          description: 'Filter by enrollment type (student, teacher, ta, observer, designer)',
+          enum: ['student', 'teacher', 'ta', 'observer', 'designer'],
+        },
+        enrollment_role: { type: 'string', description: 'Filter by enrollment role' },
+        include: includeSchema,
+      },
+    },
+  },
+  {
+    name: 'list_assignments',
+    description: 'List assignments for a course',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        courseId: courseIdSchema,
+        include: includeSchema,
+        search_term: { type: 'string', description: 'Search term to filter assignments' },
+        override_assignment_dates: { type: 'boolean', description: 'Apply assignment overrides' },
+      },
+      required: ['courseId'],
+    },
+  },
+  {
+    name: 'get_assignment',
+    description: 'Get a specific assignment by ID',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        courseId: courseIdSchema,
+        assignmentId: { type: 'string', description: 'Assignment ID' },
+        include: includeSchema,
+      },
+      required: ['courseId', 'assignmentId'],
+    },
+  },
+  {
+    name: 'list_user_assignments',
+    description: 'List all assignments across all courses for the user',
+    inputSchema: { type: 'object' as const, properties: { include: includeSchema } },
+  },
+  {
+    name: 'list_user_course_items',
+    description: 'List all assignments, quizzes, announcements, and calendar events across all courses for the user',
+    inputSchema: { type: 'object' as const, properties: { include: includeSchema } },
+  },
+  {
+    name: 'list_announcements',
+    description: 'List announcements for a course',
+    inputSchema: { type: 'object' as const, properties: { courseId: courseIdSchema }, required: ['courseId'] },
+  },
+  {
+    name: 'list_quizzes',
+    description: 'List quizzes for a course',
+    inputSchema: { type: 'object' as const, properties: { courseId: courseIdSchema }, required: ['courseId'] },
+  },
+  {
+    name: 'list_calendar_events',
+    description: 'List calendar events for the user',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        start_date: { type: 'string', description: 'Start date (ISO format)' },
+        end_date: { type: 'string', description: 'End date (ISO format)' },
+      },
+    },
+  },
+  {
+    name: 'get_user_profile',
+    description: "Get the authenticated user's profile information",
+    inputSchema: { type: 'object' as const, properties: {} },
+  },
+];
+
+function jsonResult(value: unknown) {
+  return { content: [{ type: 'text' as const, text: JSON.stringify(value) }] };
+}
+
+/**
+ * One MCP server session over the Canvas fixtures; connect it to an in-memory transport
+ */
+export function createMockCanvasServer(fixtures: CanvasFixtures): Server {
+  const server = new Server(
+    { name: 'canvas-lms-mcp-mock', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  const findCourse = (courseId: unknown) => {
+    const course = fixtures.courses.find((c) => String(c.id) === String(courseId));
+    if (!course) {
+      throw new Error(`Canvas API error: 404 - course ${courseId} not found`);
+    }
+    return course;
+  };
+
+  const courseFields = (courseId: number) => {
+    const course = findCourse(courseId);
+    return { course_id: course.id, course_name: course.name, course_code: course.course_code };
+  };
+
+  // Assignment group and its share of the final grade; null weight when the course grades by points
+  const groupFields = (courseId: number, groupId: number) => {
+    const group = fixtures.assignmentGroups.find((g) => g.id === groupId);
+    return {
+      assignment_group_id: groupId,
+      assignment_group_name: group?.name ?? null,
+      group_weight: group && findCourse(courseId).apply_assignment_group_weights ? group.group_weight : null,
+    };
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name } = request.params;
+    const args: Record<string, any> = request.params.arguments || {};
+
+    try {
+      switch (name) {
+        case 'list_courses':
+          return jsonResult(fixtures.courses);
+
+        case 'list_assignments': {
+          const course = findCourse(args.courseId);
+          const term = (args.search_term || '').toLowerCase();
+          return jsonResult(
+            fixtures.assignments.filter((a) => a.course_id === course.id && a.name.toLowerCase().includes(term))
+          );
+        }
+
+        case 'get_assignment': {
+          const course = findCourse(args.courseId);
+          const assignment = fixtures.assignments.find(
+            (a) => a.course_id === course.id && String(a.id) === String(args.assignmentId)
+          );
+          if (!assignment) {
+            throw new Error(`Canvas API error: 404 - assignment ${args.assignmentId} not found`);
+          }
+          return jsonResult(assignment);
+        }
+
+        case 'list_user_assignments':
+          return jsonResult(
+            fixtures.assignments.map((a) => ({
+              id: a.id,
+              name: a.name,
+              due_at: a.due_at,
+              ...courseFields(a.course_id),
+              submission: a.submission,
+            }))
+          );
+
+        case 'list_user_course_items':
+          return jsonResult([
+            ...fixtures.assignments.map((a) => ({
+              type: 'assignment',
+              id: a.id,
+              name: a.name,
+              due_at: a.due_at,
+              unlock_at: a.unlock_at,
+              lock_at: a.lock_at,
+              ...courseFields(a.course_id),
+              ...groupFields(a.course_id, a.assignment_group_id),
+              points_possible: a.points_possible,
+              submission: a.submission,
+            })),
+            ...fixtures.announcements.map((a) => ({
+              type: 'announcement',
+              id: a.id,
+              name: a.title,
+              posted_at: a.posted_at,
+              created_at: a.created_at,
+              ...courseFields(a.course_id),
+              message: a.message,
+            })),
+            ...fixtures.quizzes.map((q) => ({
+              type: 'quiz',
+              id: q.id,
+              name: q.title,
+              due_at: q.due_at,
+              unlock_at: q.unlock_at,
+              lock_at: q.lock_at,
+              ...courseFields(q.course_id),
+              ...groupFields(q.course_id, q.assignment_group_id),
+              assignment_id: q.assignment_id,
+              points_possible: q.points_possible,
+              question_count: q.question_count,
+              allowed_attempts: q.allowed_attempts,
+            })),
+            ...fixtures.calendarEvents.map((e) => ({
+              type: 'calendar_event',
+              id: e.id,
+              name: e.title,
+              start_at: e.start_at,
+              end_at: e.end_at,
+              location_name: e.location_name,
+              context_code: e.context_code,
+              description: e.description,
+            })),
+          ]);
+
+        case 'list_announcements': {
+          const course = findCourse(args.courseId);
+          return jsonResult(fixtures.announcements.filter((a) => a.course_id === course.id));
+        }
+
+        case 'list_quizzes': {
+          const course = findCourse(args.courseId);
+          return jsonResult(fixtures.quizzes.filter((q) => q.course_id === course.id));
+        }
+
+        case 'list_calendar_events': {
+          const start = args.start_date ? new Date(args.start_date).getTime() : -Infinity;
+          const end = args.end_date ? new Date(args.end_date).getTime() : Infinity;
+          return jsonResult(
+            fixtures.calendarEvents.filter((e) => {
+              const startAt = new Date(e.start_at).getTime();
+              return startAt >= start && startAt <= end;
+            })
+          );
+        }
+
+        case 'get_user_profile':
+          return jsonResult(fixtures.profile);
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return {
+        ...jsonResult({ error: error instanceof Error ? error.message : String(error) }),
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
@@ -2,19 +2,30 @@ import { getOpenAIApiKey, OPENAI_CHAT_MODEL } from "@/config/apiKey";
 import { getToday } from "./dateUtils";
 import { startOfDay, endOfDay, format } from "date-fns";
 import { searchRelevantChunks, formatChunksForPrompt } from "./ragService";
+import { describeKaiseyMetadata, EventTier, KaiseyMetadata } from "./kaiseyMetadata";
+import type { PriorityType } from "@/app/components/PriorityRanking";
+
+export interface AIRecommendationStep {
+  type: "add" | "move" | "delete" | "reschedule";
+  eventId?: string;
+  eventTitle?: string;
+  newTime?: string;
+  duration?: number;
+  title?: string;
+  // Playbook tier and priority category of an added event, stored with it
+  tier?: EventTier;
+  category?: PriorityType;
+}
 
 export interface AIRecommendation {
   id: string;
   type: "buffer" | "urgency" | "shift" | "optimization" | "alert";
   title: string;
   description: string;
-  action: {
-    type: "add" | "move" | "delete" | "reschedule";
-    eventId?: string;
-    eventTitle?: string;
-    newTime?: string;
-    duration?: number;
-    title?: string;
+  // A single change, or a "plan" of several applied all or nothing
+  action: Omit<AIRecommendationStep, "type"> & {
+    type: AIRecommendationStep["type"] | "plan";
+    steps?: AIRecommendationStep[];
   };
   priority: "high" | "medium" | "low";
 }
@@ -27,6 +38,9 @@ interface CalendarEvent {
   type: string;
   startDate: Date;
   endDate: Date;
+  allDay?: boolean;
+  busy?: boolean;
+  kaisey?: KaiseyMetadata;
 }
 
 export interface UserPriority {
@@ -47,8 +61,19 @@ export async function generateAIRecommendations(
     dueDate: string;
     priority: string;
     progress: number;
+    kind?: "assignment" | "quiz";
+    priorityReason?: string;
+    deepWork?: boolean;
   }>,
-  userPriorities?: UserPriority[]
+  userPriorities?: UserPriority[],
+  announcements?: Array<{
+    title: string;
+    course: string;
+    postedAt: Date;
+    message: string;
+  }>,
+  // e.g. "GND on, goal Pass: cap academics at ~10 h/week..." (see utils/assignmentPriority)
+  academicStrategy?: string
 ): Promise<AIRecommendation[]> {
   const apiKey = getOpenAIApiKey();
   if (!apiKey) {
@@ -61,18 +86,35 @@ export async function generateAIRecommendations(
     const todayStr = format(today, "EEEE, MMMM d, yyyy");
     
     // Format events for AI context
+    // All-day events (exam weeks, treks) have no time; ones marked free don't take up the day
     const eventsContext = events
-      .map((e) => `- ${e.title} (${e.time}, ${e.duration}min, ${e.type})`)
+      .map((e) => {
+        const kaiseyText = describeKaiseyMetadata(e.kaisey);
+        const note = kaiseyText ? `, ${kaiseyText}` : "";
+        return e.allDay
+          ? `- ${e.title} (all day, ${e.busy === false ? "free" : "busy"}, ${e.type}${note})`
+          : `- ${e.title} (${e.time}, ${e.duration}min, ${e.type}${note})`;
+      })
       .join("\n");
 
-    const assignmentsContext = assignments
+    const assignmentsContext = !assignments
+      ? "No assignments data available"
+      : assignments.length > 0
       ? assignments
           .map(
             (a) =>
-              `- ${a.title} (${a.course}): Due ${a.dueDate}, ${a.progress}% complete, Priority: ${a.priority}`
+              `- ${a.kind === "quiz" ? "Quiz: " : ""}${a.title} (${a.course}): Due ${a.dueDate}, ${a.progress}% complete, Priority: ${a.priority}${a.priorityReason ? ` (${a.priorityReason})` : ""}${a.deepWork ? ", needs deep work" : ""}`
           )
           .join("\n")
-      : "No assignments data available";
+      : "No open assignments";
+
+    // Recent course announcements (e.g. a moved deadline or extra reading), trimmed to keep the prompt short
+    const announcementsContext = announcements && announcements.length > 0
+      ? announcements
+          .slice(0, 5)
+          .map((a) => `- ${a.course}, ${format(a.postedAt, "MMM d")}: ${a.title} - ${a.message.slice(0, 200)}`)
+          .join("\n")
+      : "No recent announcements";
 
     // Format user priorities for AI context
     const prioritiesContext = userPriorities && userPriorities.length > 0
@@ -134,8 +176,20 @@ ${prioritiesContext}
 **Today's Schedule:**
 ${eventsContext || "No events scheduled"}
 
-**Assignments:**
+Events noted "added by Kaisey" are blocks you scheduled earlier; prefer moving or removing those over the user's own events. Never move or delete an event noted "locked".
+
+**Assignments (from Canvas):**
 ${assignmentsContext}
+
+When adding a study block for an assignment, include the assignment's exact title in the event title.
+
+**Academic Strategy:**
+${academicStrategy || "Not set"}
+
+Follow this strategy when suggesting study time: keep study blocks within the weekly hours, and make blocks for assignments that need deep work 90 minutes long.
+
+**Recent Course Announcements:**
+${announcementsContext}
 ${playbookKnowledge}
 
 **Your Task:**
@@ -171,12 +225,18 @@ Analyze the schedule and generate 2-5 actionable recommendations. Be contextuall
       "eventTitle": "Event name if moving/deleting",
       "newTime": "HH:MM format if rescheduling (24-hour format)",
       "duration": minutes if adding,
-      "title": "Event title if adding"
+      "title": "Event title if adding",
+      "tier": 1-4 playbook tier of the event if adding,
+      "category": "recruiting" | "socials" | "sleep" | "clubs" | "homework" (the priority it serves) if adding
     },
     "priority": "high" | "medium" | "low"
   }
 ]
 
+**Multi-change plans:** When a recommendation only works as a whole (e.g. Bunker Mode: cancel Tier 3 & 4 socials AND block sleep, or rebalancing the day by moving several events), use
+"action": { "type": "plan", "steps": [ { "type": "delete", "eventId": "...", "eventTitle": "..." }, { "type": "add", "title": "Sleep", "newTime": "22:00", "duration": 480 } ] }
+Steps use the same fields as single actions and are applied together or not at all.
+
 Be specific with times, event names, and actions. Reference the current time and day context. Return ONLY valid JSON array, no other text.`;
 
     const response = await fetch("https://api.openai.com/v1/chat/completions", {
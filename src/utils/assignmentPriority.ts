@@ -0,0 +1,130 @@
+// Assignment Priority utility
+// MBA Playbook academic strategy: weighs Canvas assignments by their share of the grade, the GND setting and the grade goal
+
+import { GRADE_GOAL_LABELS, type AcademicProfile } from "@/config/academicProfile";
+import type { PriorityItem } from "@/app/components/PriorityRanking";
+
+// Under this share of the final grade an assignment is minor; at or over it, major
+const MAJOR_GRADE_WEIGHT = 0.1;
+// Recruiting at one of these ranks or better counts as ranked high
+const RECRUITING_HIGH_RANK = 2;
+// Pass mode caps academics; otherwise it's a floor, plus a deep-work block per major assignment due this week
+const PASS_WEEKLY_HOURS = 10;
+const HONORS_WEEKLY_HOURS = 20;
+const DEEP_WORK_HOURS = 1.5;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+type Priority = "high" | "medium" | "low";
+
+// The fields prioritization reads (CanvasContext's assignments have them)
+interface GradedAssignment {
+  priority: Priority;
+  dueAt: Date | null;
+  gradeWeight: number | null;
+  status: "not-started" | "in-progress" | "completed";
+}
+
+export type PrioritizedAssignment<T extends GradedAssignment> = T & {
+  // Why it has this priority, shown under the assignment
+  priorityReason: string;
+  // Worth 90-minute deep-work blocks (major assignments when aiming above a pass)
+  deepWork: boolean;
+};
+
+/**
+ * Pass mode: GND is on and passing is the goal. Anything else plans for grades.
+ */
+export function isPassMode(profile: AcademicProfile): boolean {
+  return profile.gradeNonDisclosure && profile.gradeGoal === "pass";
+}
+
+/**
+ * e.g. "8%", or "<1%" for tiny items
+ */
+export function formatGradeWeight(weight: number): string {
+  const percent = weight * 100;
+  return percent < 1 ? "<1%" : `${Math.round(percent)}%`;
+}
+
+/**
+ * Adjust the due-date priority of each assignment by its grade weight and the academic profile.
+ * Pass mode with recruiting ranked high drops minor assignments to low; otherwise major assignments
+ * are at least medium and get deep-work blocks.
+ */
+export function prioritizeAssignments<T extends GradedAssignment>(
+  assignments: T[],
+  profile: AcademicProfile,
+  priorities: PriorityItem[]
+): PrioritizedAssignment<T>[] {
+  const passMode = isPassMode(profile);
+  const recruitingRank = priorities.findIndex((priority) => priority.id === "recruiting") + 1;
+  const recruitingHigh = recruitingRank > 0 && recruitingRank <= RECRUITING_HIGH_RANK;
+
+  return assignments.map((assignment) => {
+    if (assignment.status === "completed") {
+      return { ...assignment, priorityReason: "Submitted", deepWork: false };
+    }
+    if (assignment.gradeWeight == null) {
+      return { ...assignment, priorityReason: "Grade weight unknown, prioritized by due date", deepWork: false };
+    }
+
+    const weight = formatGradeWeight(assignment.gradeWeight);
+    const major = assignment.gradeWeight >= MAJOR_GRADE_WEIGHT;
+
+    if (passMode) {
+      if (!major && recruitingHigh) {
+        return {
+          ...assignment,
+          priority: "low" as const,
+          priorityReason: `${weight} of grade: under GND a pass is enough, and recruiting is ranked #${recruitingRank}`,
+          deepWork: false,
+        };
+      }
+      return {
+        ...assignment,
+        priorityReason: major
+          ? `${weight} of grade: enough to matter for passing, prioritized by due date`
+          : `${weight} of grade, prioritized by due date`,
+        deepWork: false,
+      };
+    }
+
+    if (major) {
+      return {
+        ...assignment,
+        priority: assignment.priority === "low" ? "medium" as const : assignment.priority,
+        priorityReason: `${weight} of grade: a major assignment for your ${profile.gradeNonDisclosure ? "grade goal" : "transcript"}, plan 90-minute deep-work blocks`,
+        deepWork: true,
+      };
+    }
+    return { ...assignment, priorityReason: `${weight} of grade, prioritized by due date`, deepWork: false };
+  });
+}
+
+/**
+ * Recommended hours of academic work this week: at most 10 in pass mode, otherwise 20 or more
+ */
+export function weeklyAcademicHours(
+  assignments: PrioritizedAssignment<GradedAssignment>[],
+  profile: AcademicProfile,
+  now: Date = new Date()
+): number {
+  if (isPassMode(profile)) return PASS_WEEKLY_HOURS;
+  // Past-due work isn't planned into this week
+  const majorThisWeek = assignments.filter((assignment) => {
+    if (!assignment.deepWork || !assignment.dueAt) return false;
+    const msLeft = assignment.dueAt.getTime() - now.getTime();
+    return msLeft >= 0 && msLeft <= WEEK_MS;
+  }).length;
+  return HONORS_WEEKLY_HOURS + majorThisWeek * DEEP_WORK_HOURS;
+}
+
+/**
+ * One-line summary of the strategy for the AI prompt
+ */
+export function describeAcademicStrategy(profile: AcademicProfile, weeklyHours: number): string {
+  if (isPassMode(profile)) {
+    return `GND on, goal Pass: cap academics at ~${weeklyHours} h/week and deprioritize assignments under ${formatGradeWeight(MAJOR_GRADE_WEIGHT)} of the grade when recruiting ranks high`;
+  }
+  return `GND ${profile.gradeNonDisclosure ? "on" : "off"}, goal ${GRADE_GOAL_LABELS[profile.gradeGoal]}: plan ~${weeklyHours} h/week of academics with 90-minute deep-work blocks for every major assignment`;
+}
@@ -0,0 +1,89 @@
+// Attendee utility
+// Labels, response summaries and contact lookup for Google Calendar event guests
+
+import type { AttendeeResponseStatus, EventAttendee } from "@/services/calendarTools";
+
+export const RESPONSE_LABELS: Record<AttendeeResponseStatus, string> = {
+  accepted: "Going",
+  tentative: "Maybe",
+  declined: "Declined",
+  needsAction: "Awaiting reply",
+};
+
+/**
+ * Display name, or the email address when the guest has none
+ */
+export function guestLabel(attendee: Pick<EventAttendee, "email" | "displayName">): string {
+  return attendee.displayName || attendee.email;
+}
+
+/**
+ * The signed-in user's own response, or undefined when they aren't a guest (e.g. events on their own calendar)
+ */
+export function selfResponseStatus(attendees: EventAttendee[] | undefined): AttendeeResponseStatus | undefined {
+  return attendees?.find((attendee) => attendee.self)?.responseStatus;
+}
+
+/**
+ * Guests other than the user, e.g. for "3 guests"
+ */
+export function otherGuests(attendees: EventAttendee[] | undefined): EventAttendee[] {
+  return (attendees || []).filter((attendee) => !attendee.self);
+}
+
+/**
+ * Short summary of the other guests' responses, e.g. "3 guests, 1 declined, 1 awaiting reply"
+ */
+export function summarizeResponses(attendees: EventAttendee[] | undefined): string | null {
+  const guests = otherGuests(attendees);
+  if (guests.length === 0) return null;
+
+  const count = (status: AttendeeResponseStatus) => guests.filter((guest) => (guest.responseStatus || "needsAction") === status).length;
+  const parts = [`${guests.length} ${guests.length === 1 ? "guest" : "guests"}`];
+  const declined = count("declined");
+  const tentative = count("tentative");
+  const awaiting = count("needsAction");
+  if (declined) parts.push(`${declined} declined`);
+  if (tentative) parts.push(`${tentative} maybe`);
+  if (awaiting) parts.push(`${awaiting} awaiting reply`);
+  return parts.join(", ");
+}
+
+/**
+ * One line per guest with their response, e.g. "Priya Raman - Going"
+ */
+export function describeGuests(attendees: EventAttendee[] | undefined): string[] {
+  return otherGuests(attendees).map(
+    (guest) => `${guestLabel(guest)} - ${RESPONSE_LABELS[guest.responseStatus || "needsAction"]}${guest.organizer ? " (organizer)" : ""}`
+  );
+}
+
+/**
+ * Find someone the user has shared an event with by name ("Sarah Chen", or "Sarah" if only one Sarah is known)
+ */
+export function findKnownContact(
+  events: Array<{ attendees?: EventAttendee[] }>,
+  name: string
+): Pick<EventAttendee, "email" | "displayName"> | null {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+
+  const contacts = new Map<string, Pick<EventAttendee, "email" | "displayName">>();
+  events.forEach((event) =>
+    otherGuests(event.attendees).forEach((guest) => {
+      const key = guest.email.toLowerCase();
+      if (!contacts.has(key) || guest.displayName) {
+        contacts.set(key, { email: guest.email, displayName: guest.displayName });
+      }
+    })
+  );
+
+  const known = Array.from(contacts.values());
+  const exact = known.filter(
+    (contact) => contact.displayName?.toLowerCase() === wanted || contact.email.toLowerCase() === wanted
+  );
+  if (exact.length === 1) return exact[0];
+
+  const byFirstName = known.filter((contact) => contact.displayName?.toLowerCase().split(/\s+/)[0] === wanted);
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+}
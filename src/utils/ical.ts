@@ -0,0 +1,253 @@
+// iCalendar utility
+// Parses .ics files (RFC 5545) into events for create_event, and serializes calendar events to .ics
+
+import { addDays, format, parseISO } from "date-fns";
+import type { EventDateTime, EventTransparency, GoogleCalendarEvent } from "@/services/calendarTools";
+import { zonedTime } from "./timeZone";
+
+/**
+ * A VEVENT from an .ics file, shaped like create_event's arguments
+ */
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  // RRULE/EXDATE/RDATE lines, as Google's `recurrence` field takes them
+  recurrence?: string[];
+  transparency?: EventTransparency;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const PRODID = "-//AutoMBA.ai//Kaisey//EN";
+// Lines are folded at 75 octets, not characters
+const MAX_LINE_OCTETS = 75;
+
+// Folded lines continue on the next line after a single space or tab
+function unfold(text: string): string[] {
+  return text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n").filter((line) => line.trim());
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":property value
+function parseContentLine(line: string): ContentLine | null {
+  let index = 0;
+  let inQuotes = false;
+  while (index < line.length && (inQuotes || line[index] !== ":")) {
+    if (line[index] === "\"") inQuotes = !inQuotes;
+    index++;
+  }
+  if (index >= line.length) return null;
+
+  const [name, ...rawParams] = line.slice(0, index).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// TZID as an IANA zone; some apps prefix it with a path (e.g. "/mozilla.org/20070129_1/Europe/Paris")
+function resolveTimeZone(tzid: string | undefined, defaultTimeZone: string): string {
+  if (!tzid) return defaultTimeZone;
+  if (isTimeZone(tzid)) return tzid;
+  const suffix = tzid.match(/[A-Za-z_]+\/[A-Za-z_+-]+$/)?.[0];
+  return suffix && isTimeZone(suffix) ? suffix : defaultTimeZone;
+}
+
+/**
+ * DTSTART/DTEND as an EventDateTime: dates stay dates, floating times are taken in the default zone
+ */
+function parseDateTime(line: ContentLine, defaultTimeZone: string): EventDateTime | null {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (line.params.VALUE === "DATE" || hours === undefined) {
+    return { date: `${year}-${month}-${day}` };
+  }
+  if (utc) {
+    const instant = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+    return { dateTime: instant.toISOString(), timeZone: defaultTimeZone };
+  }
+  const timeZone = resolveTimeZone(line.params.TZID, defaultTimeZone);
+  const instant = zonedTime(new Date(Number(year), Number(month) - 1, Number(day)), Number(hours), Number(minutes), timeZone);
+  return { dateTime: new Date(instant.getTime() + Number(seconds) * 1000).toISOString(), timeZone };
+}
+
+// DURATION, e.g. "PT1H30M" or "P2D"; negative durations aren't valid for events
+function parseDuration(value: string): { days: number; ms: number } | null {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks = "0", days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  return {
+    days: Number(weeks) * 7 + Number(days),
+    ms: ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000,
+  };
+}
+
+function endFromDuration(start: EventDateTime, duration: { days: number; ms: number } | null): EventDateTime {
+  if (start.date) {
+    return { date: format(addDays(parseISO(start.date), Math.max(duration?.days || 1, 1)), "yyyy-MM-dd") };
+  }
+  const startMs = new Date(start.dateTime!).getTime();
+  const durationMs = duration ? duration.days * 24 * 60 * 60 * 1000 + duration.ms : 0;
+  return { dateTime: new Date(startMs + durationMs).toISOString(), timeZone: start.timeZone };
+}
+
+/**
+ * Events in an .ics file, skipping cancelled ones
+ * Edited occurrences of a series in the same file are dropped (the series is imported with its rules).
+ * Floating times, and zones this browser doesn't know, are read in `defaultTimeZone`.
+ */
+export function parseIcs(text: string, defaultTimeZone: string): IcsEvent[] {
+  const events: Array<IcsEvent & { recurrenceId?: boolean; cancelled?: boolean }> = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+
+  for (const rawLine of unfold(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = [];
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+    // Skip nested components such as VALARM
+    if (line.name === "BEGIN") depth++;
+    if (line.name === "END" && depth > 0) {
+      depth--;
+      continue;
+    }
+    if (depth > 0) continue;
+    if (line.name !== "END") {
+      current.push(line);
+      continue;
+    }
+
+    const property = (name: string) => current!.find((candidate) => candidate.name === name);
+    const dtStart = property("DTSTART");
+    const start = dtStart && parseDateTime(dtStart, defaultTimeZone);
+    if (start) {
+      const dtEnd = property("DTEND");
+      const end = (dtEnd && parseDateTime(dtEnd, defaultTimeZone))
+        || endFromDuration(start, property("DURATION") ? parseDuration(property("DURATION")!.value) : null);
+      const recurrence = current!
+        .filter((candidate) => ["RRULE", "EXDATE", "RDATE"].includes(candidate.name))
+        .map((candidate) => rawLineOf(candidate));
+      const transp = property("TRANSP")?.value.toUpperCase();
+      events.push({
+        uid: property("UID")?.value,
+        summary: unescapeText(property("SUMMARY")?.value || "Untitled event"),
+        description: property("DESCRIPTION") && unescapeText(property("DESCRIPTION")!.value),
+        location: property("LOCATION") && unescapeText(property("LOCATION")!.value),
+        start,
+        end,
+        ...(recurrence.length > 0 && { recurrence }),
+        // Like Google Calendar, all-day events are free unless the file says otherwise
+        transparency: transp === "OPAQUE" ? "opaque" : (transp === "TRANSPARENT" || start.date) ? "transparent" : "opaque",
+        recurrenceId: !!property("RECURRENCE-ID"),
+        cancelled: property("STATUS")?.value.toUpperCase() === "CANCELLED",
+      });
+    }
+    current = null;
+  }
+
+  const seriesUids = new Set(events.filter((event) => event.recurrence).map((event) => event.uid));
+  return events
+    .filter((event) => !event.cancelled && !(event.recurrenceId && seriesUids.has(event.uid)))
+    .map(({ recurrenceId, cancelled, ...event }) => event);
+}
+
+// A parsed property back in content-line form, e.g. for RRULE/EXDATE lines
+function rawLineOf(line: ContentLine): string {
+  const params = Object.entries(line.params).map(([key, value]) => `;${key}=${/[:;,]/.test(value) ? `"${value}"` : value}`);
+  return `${line.name}${params.join("")}:${line.value}`;
+}
+
+// Fold a content line to 75 octets per line, without splitting a character
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDateTimeProperty(name: string, time: EventDateTime): string {
+  return time.date
+    ? `${name};VALUE=DATE:${time.date.replace(/-/g, "")}`
+    : `${name}:${formatUtc(new Date(time.dateTime!))}`;
+}
+
+/**
+ * A standalone .ics calendar of events; timed events are written in UTC, so no VTIMEZONE is needed
+ * Recurring events are expected as expanded instances (list_events with singleEvents).
+ */
+export function serializeIcs(events: GoogleCalendarEvent[], options: { name?: string; now?: Date } = {}): string {
+  const stamp = formatUtc(options.now || new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+  ];
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.id}@automba.ai`,
+      `DTSTAMP:${stamp}`,
+      formatDateTimeProperty("DTSTART", event.start),
+      formatDateTimeProperty("DTEND", event.end),
+      `SUMMARY:${escapeText(event.summary || "Untitled event")}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `TRANSP:${event.transparency === "transparent" ? "TRANSPARENT" : "OPAQUE"}`,
+      "END:VEVENT"
+    );
+  });
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
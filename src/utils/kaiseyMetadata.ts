@@ -0,0 +1,99 @@
+// Kaisey Metadata utility
+// Structured metadata on the events Kaisey creates, kept in the event's private extendedProperties (guests and other apps don't see it)
+
+import type { EventExtendedProperties } from "@/services/calendarTools";
+import type { PriorityType } from "@/app/components/PriorityRanking";
+import type { EventType } from "@/contexts/CalendarContext";
+
+// What in the app created the event
+export type KaiseySource = "recommendation" | "chatbot" | "assignment";
+
+// MBA Playbook event tiers, from 1 (non-negotiable) to 4 (noise)
+export type EventTier = 1 | 2 | 3 | 4;
+
+export interface KaiseyMetadata {
+  source: KaiseySource;
+  // Recommendation that produced the event
+  recommendationId?: string;
+  tier?: EventTier;
+  // Which of the user's ranked priorities the event serves
+  priorityCategory?: PriorityType;
+  // Canvas assignment a study block is for
+  assignmentId?: string;
+  // Kaisey must not move or remove the event (hard blocks)
+  locked: boolean;
+}
+
+// Private property keys; Google allows 44 characters per key
+const KEYS = {
+  source: "kaiseySource",
+  recommendationId: "kaiseyRecommendationId",
+  tier: "kaiseyTier",
+  priorityCategory: "kaiseyPriorityCategory",
+  assignmentId: "kaiseyAssignmentId",
+  locked: "kaiseyLocked",
+} as const;
+
+const SOURCES: KaiseySource[] = ["recommendation", "chatbot", "assignment"];
+const PRIORITY_CATEGORIES: PriorityType[] = ["recruiting", "socials", "sleep", "clubs", "homework"];
+
+// Event types that clearly serve one of the user's priorities
+const CATEGORY_BY_EVENT_TYPE: Partial<Record<EventType, PriorityType>> = {
+  study: "homework",
+  recruiting: "recruiting",
+  networking: "recruiting",
+};
+
+/**
+ * Private properties to store with create_event/update_event (`privateProperties`)
+ */
+export function kaiseyProperties(metadata: KaiseyMetadata): Record<string, string> {
+  const properties: Record<string, string> = {
+    [KEYS.source]: metadata.source,
+    [KEYS.locked]: String(metadata.locked),
+  };
+  if (metadata.recommendationId) properties[KEYS.recommendationId] = metadata.recommendationId;
+  if (metadata.tier) properties[KEYS.tier] = String(metadata.tier);
+  if (metadata.priorityCategory) properties[KEYS.priorityCategory] = metadata.priorityCategory;
+  if (metadata.assignmentId) properties[KEYS.assignmentId] = metadata.assignmentId;
+  return properties;
+}
+
+/**
+ * Kaisey's metadata on an event, or undefined for events the user (or another app) created
+ */
+export function parseKaiseyMetadata(extendedProperties: EventExtendedProperties | undefined): KaiseyMetadata | undefined {
+  const properties = extendedProperties?.private;
+  const source = properties?.[KEYS.source] as KaiseySource | undefined;
+  if (!properties || !source || !SOURCES.includes(source)) return undefined;
+
+  const tier = Number(properties[KEYS.tier]);
+  const priorityCategory = properties[KEYS.priorityCategory] as PriorityType | undefined;
+  return {
+    source,
+    recommendationId: properties[KEYS.recommendationId] || undefined,
+    tier: tier >= 1 && tier <= 4 ? (tier as EventTier) : undefined,
+    priorityCategory: priorityCategory && PRIORITY_CATEGORIES.includes(priorityCategory) ? priorityCategory : undefined,
+    assignmentId: properties[KEYS.assignmentId] || undefined,
+    locked: properties[KEYS.locked] === "true",
+  };
+}
+
+/**
+ * The priority an event of this type serves, when it's clear from the type
+ */
+export function priorityCategoryForEventType(type: EventType): PriorityType | undefined {
+  return CATEGORY_BY_EVENT_TYPE[type];
+}
+
+/**
+ * Short note for AI context, e.g. "added by Kaisey, Tier 2, homework" or "added by Kaisey, locked"
+ */
+export function describeKaiseyMetadata(metadata: KaiseyMetadata | undefined): string | null {
+  if (!metadata) return null;
+  const parts = ["added by Kaisey"];
+  if (metadata.tier) parts.push(`Tier ${metadata.tier}`);
+  if (metadata.priorityCategory) parts.push(metadata.priorityCategory);
+  if (metadata.locked) parts.push("locked");
+  return parts.join(", ");
+}
@@ -0,0 +1,193 @@
+// Recurrence utility
+// Parses, builds, describes and expands RFC 5545 RRULEs as used by Google Calendar's `recurrence` field
+
+import { addDays, addMonths, addYears, format, startOfWeek } from "date-fns";
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+
+export type Weekday = typeof WEEKDAYS[number];
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number;
+  byDay?: Weekday[];
+  count?: number;
+  until?: Date;
+}
+
+// Guards expansion of rules with no end
+const MAX_PERIODS = 5000;
+
+/**
+ * RRULE weekday code for a date, e.g. a Monday -> "MO"
+ */
+export function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(date.getDay() + 6) % 7];
+}
+
+function parseICalDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+  if (!match) return null;
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+/**
+ * Parse an "RRULE:..." line (the prefix is optional). Returns null for rules the app doesn't understand.
+ */
+export function parseRRule(line: string): RecurrenceRule | null {
+  const body = line.replace(/^RRULE:/i, "").trim();
+  const fields = new Map(
+    body.split(";").filter(Boolean).map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+
+  const freq = fields.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq };
+  if (fields.has("INTERVAL")) {
+    const interval = Number(fields.get("INTERVAL"));
+    if (!Number.isInteger(interval) || interval < 1) return null;
+    rule.interval = interval;
+  }
+  if (fields.has("BYDAY")) {
+    const byDay = fields.get("BYDAY")!.split(",");
+    // Positional forms like "2TU" (second Tuesday) aren't supported
+    if (!byDay.every((day): day is Weekday => (WEEKDAYS as readonly string[]).includes(day))) return null;
+    rule.byDay = byDay;
+  }
+  if (fields.has("COUNT")) {
+    const count = Number(fields.get("COUNT"));
+    if (!Number.isInteger(count) || count < 1) return null;
+    rule.count = count;
+  }
+  if (fields.has("UNTIL")) {
+    const until = parseICalDate(fields.get("UNTIL")!);
+    if (!until) return null;
+    rule.until = until;
+  }
+  return rule;
+}
+
+/**
+ * Build an "RRULE:..." line, e.g. { freq: "WEEKLY", byDay: ["MO", "WE", "FR"] } -> "RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR"
+ */
+export function buildRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${[...rule.byDay].sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b)).join(",")}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  return `RRULE:${parts.join(";")}`;
+}
+
+function findRRule(recurrence: string[] | undefined): RecurrenceRule | null {
+  const line = recurrence?.find((entry) => /^RRULE:/i.test(entry));
+  return line ? parseRRule(line) : null;
+}
+
+/**
+ * Human-readable summary of a recurrence, e.g. "Weekly on Mon, Wed, Fri" or "Every 2 weeks on Tue, until Dec 12"
+ */
+export function describeRecurrence(recurrence: string[] | undefined): string | null {
+  const rule = findRRule(recurrence);
+  if (!rule) return recurrence?.length ? "Repeats" : null;
+
+  const interval = rule.interval || 1;
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    DAILY: ["Daily", "days"],
+    WEEKLY: ["Weekly", "weeks"],
+    MONTHLY: ["Monthly", "months"],
+    YEARLY: ["Yearly", "years"],
+  };
+  const [single, plural] = units[rule.freq];
+  let text = interval === 1 ? single : `Every ${interval} ${plural}`;
+  if (rule.byDay?.length) {
+    text += ` on ${rule.byDay.map((day) => WEEKDAY_NAMES[day]).join(", ")}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    text += `, until ${format(rule.until, "MMM d")}`;
+  }
+  return text;
+}
+
+/**
+ * Candidate occurrence starts in order, ignoring COUNT/UNTIL (the caller applies those)
+ */
+function* candidateOccurrences(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const interval = rule.interval || 1;
+  for (let period = 0; period < MAX_PERIODS; period += interval) {
+    switch (rule.freq) {
+      case "DAILY":
+        yield addDays(start, period);
+        break;
+      case "WEEKLY": {
+        // Same time of day on each listed weekday, weeks starting Monday (RRULE's default WKST)
+        const weekStart = addDays(startOfWeek(start, { weekStartsOn: 1 }), period * 7);
+        weekStart.setHours(start.getHours(), start.getMinutes(), start.getSeconds(), 0);
+        const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[(start.getDay() + 6) % 7]];
+        const sorted = [...days].sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b));
+        for (const day of sorted) {
+          const occurrence = addDays(weekStart, WEEKDAYS.indexOf(day));
+          if (occurrence >= start) yield occurrence;
+        }
+        break;
+      }
+      case "MONTHLY":
+        yield addMonths(start, period);
+        break;
+      case "YEARLY":
+        yield addYears(start, period);
+        break;
+    }
+  }
+}
+
+/**
+ * Start times of a series' occurrences that overlap [rangeStart, rangeEnd)
+ * Honors INTERVAL, BYDAY (plain weekdays), COUNT, UNTIL and EXDATE lines.
+ */
+export function expandRecurrence(
+  start: Date,
+  recurrence: string[] | undefined,
+  rangeStart: Date,
+  rangeEnd: Date,
+  durationMs = 0
+): Date[] {
+  const rule = findRRule(recurrence);
+  const overlaps = (occurrence: Date) =>
+    occurrence.getTime() + durationMs > rangeStart.getTime() && occurrence < rangeEnd;
+  if (!rule) return overlaps(start) ? [start] : [];
+
+  const excluded = new Set(
+    (recurrence || [])
+      .filter((line) => /^EXDATE/i.test(line))
+      .flatMap((line) => line.slice(line.indexOf(":") + 1).split(","))
+      .map((value) => parseICalDate(value.trim())?.getTime())
+  );
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+  for (const occurrence of candidateOccurrences(start, rule)) {
+    if (rule.until && occurrence > rule.until) break;
+    if (rule.count !== undefined && generated >= rule.count) break;
+    if (occurrence >= rangeEnd) break;
+    generated++;
+    if (overlaps(occurrence) && !excluded.has(occurrence.getTime())) {
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
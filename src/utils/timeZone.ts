@@ -0,0 +1,155 @@
+// Time Zone utility
+// Wall-clock conversions between instants and IANA time zones using Intl (no time zone database needed)
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Calendar date and wall-clock time of an instant in a time zone
+ */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  partsFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at this instant
+function offsetMs(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant when it is hours:minutes on `day`'s calendar date (as the app holds days, in the browser zone) in a time zone
+ * Times skipped by a DST change resolve to the hour after.
+ */
+export function zonedTime(day: Date, hours: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+  const firstGuess = wallClock - offsetMs(new Date(wallClock), timeZone);
+  // The offset can differ between the guess and the answer around a DST change
+  const secondGuess = wallClock - offsetMs(new Date(firstGuess), timeZone);
+  const { hour, minute } = zonedParts(new Date(secondGuess), timeZone);
+  if (hour === hours && minute === minutes) return new Date(secondGuess);
+  return new Date(Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * The calendar day an instant falls on in a time zone, as the app holds days (local midnight of that date)
+ */
+export function zonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Midnight at the start of `day` in a time zone
+ */
+export function startOfDayInZone(day: Date, timeZone: string): Date {
+  return zonedTime(day, 0, 0, timeZone);
+}
+
+/**
+ * Last millisecond of `day` in a time zone
+ */
+export function endOfDayInZone(day: Date, timeZone: string): Date {
+  const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+  return new Date(zonedTime(nextDay, 0, 0, timeZone).getTime() - 1);
+}
+
+/**
+ * 24-hour "HH:mm" of an instant in a time zone
+ */
+export function formatTimeInZone(date: Date, timeZone: string): string {
+  const { hour, minute } = zonedParts(date, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * "yyyy-MM-dd" of an instant in a time zone, for grouping events by day
+ */
+export function dateKeyInZone(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Short zone name at an instant, e.g. "EST" or "GMT+1"
+ */
+export function timeZoneAbbreviation(timeZone: string, date: Date = new Date()): string {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName');
+  return name?.value || timeZone;
+}
+
+/**
+ * Whether two zones show the same wall-clock time at an instant
+ */
+export function sameWallClock(a: string, b: string, date: Date = new Date()): boolean {
+  return a === b || offsetMs(date, a) === offsetMs(date, b);
+}
+
+/**
+ * IANA zones for pickers; falls back to a short list where Intl can't enumerate them
+ */
+export function supportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  if (intl.supportedValuesOf) {
+    return intl.supportedValuesOf('timeZone');
+  }
+  return [
+    'America/Los_Angeles',
+    'America/Denver',
+    'America/Chicago',
+    'America/New_York',
+    'America/Sao_Paulo',
+    'Europe/London',
+    'Europe/Paris',
+    'Africa/Johannesburg',
+    'Asia/Dubai',
+    'Asia/Kolkata',
+    'Asia/Singapore',
+    'Asia/Shanghai',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+    'UTC',
+  ];
+}